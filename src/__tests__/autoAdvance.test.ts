@@ -0,0 +1,239 @@
+/**
+ * Auto-Advance — Tests
+ *
+ * Coverage:
+ *   scheduleAdvance  — fires at the track's end (plus grace); re-armed on pause,
+ *                      resume, seek; replaced when the track changes
+ *   advancedRecently — the duplicate track-ended guard
+ *   acceptEndReport  — a listener's track-ended only counts once the room
+ *                      clock has reached the end of the current track
+ *
+ * Uses jest fake timers (which also drive Date.now()).
+ */
+
+import path from 'path';
+
+process.env.NODE_ENV = 'test';
+const TEST_DB_PATH = path.join('/tmp', `frequenc_advance_test_${Date.now()}.db`);
+process.env.DB_PATH = TEST_DB_PATH;
+process.env.AUTO_ADVANCE_GRACE_SECONDS = '2';
+
+import fs from 'fs';
+import { createUsers, createRoom, queueTrack } from './helpers/fixtures';
+import { setPlayback, clearPlayback, PlaybackState } from '../services/playback';
+import {
+  scheduleAdvance,
+  cancelAdvance,
+  hasScheduledAdvance,
+  markAdvanced,
+  advancedRecently,
+  acceptEndReport,
+  clearAdvance,
+} from '../services/autoAdvance';
+
+// ─── Helpers ────────────────────────────────────────────────
+
+const SESSION = 'ses_advance';
+const GRACE_MS = 2000;
+
+/** Set the room's playback as of now and re-arm, as the socket handlers do */
+function play(trackId: string, position: number, state: PlaybackState['state'] = 'playing') {
+  setPlayback(SESSION, { state, position, timestamp: Date.now(), trackId });
+  scheduleAdvance(SESSION, onDue);
+}
+
+let onDue: jest.Mock;
+
+beforeAll(() => {
+  createUsers('host');
+  createRoom('advance', { id: SESSION });
+  // 60s and 30s tracks, a full-length 200s one, plus one of unknown length
+  queueTrack(SESSION, 'qt_long', { duration: 60 });
+  queueTrack(SESSION, 'qt_short', { duration: 30 });
+  queueTrack(SESSION, 'qt_full', { duration: 200 });
+  queueTrack(SESSION, 'qt_unknown', { duration: 0 });
+});
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  onDue = jest.fn();
+});
+
+afterEach(() => {
+  clearAdvance(SESSION);
+  clearPlayback(SESSION);
+  jest.useRealTimers();
+});
+
+afterAll(() => {
+  try {
+    if (fs.existsSync(TEST_DB_PATH)) fs.unlinkSync(TEST_DB_PATH);
+    if (fs.existsSync(TEST_DB_PATH + '-wal')) fs.unlinkSync(TEST_DB_PATH + '-wal');
+    if (fs.existsSync(TEST_DB_PATH + '-shm')) fs.unlinkSync(TEST_DB_PATH + '-shm');
+  } catch { /* ignore */ }
+});
+
+// ─── scheduleAdvance ────────────────────────────────────────
+
+describe('scheduleAdvance', () => {
+  it('fires once the track should have ended, plus the grace period', () => {
+    play('qt_long', 20);
+
+    jest.advanceTimersByTime(40_000 + GRACE_MS - 1);
+    expect(onDue).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(1);
+    expect(onDue).toHaveBeenCalledWith('qt_long');
+    expect(hasScheduledAdvance(SESSION)).toBe(false);
+  });
+
+  it('disarms on pause and re-arms from the paused position on resume', () => {
+    play('qt_long', 0);
+    jest.advanceTimersByTime(50_000);
+
+    play('qt_long', 50, 'paused');
+    expect(hasScheduledAdvance(SESSION)).toBe(false);
+    jest.advanceTimersByTime(5 * 60_000);
+    expect(onDue).not.toHaveBeenCalled();
+
+    play('qt_long', 50);
+    jest.advanceTimersByTime(10_000 + GRACE_MS);
+    expect(onDue).toHaveBeenCalledTimes(1);
+  });
+
+  it('re-arms from the new position after a seek', () => {
+    play('qt_long', 0);
+    jest.advanceTimersByTime(10_000);
+
+    play('qt_long', 55);   // seek near the end
+    jest.advanceTimersByTime(5_000 + GRACE_MS);
+    expect(onDue).toHaveBeenCalledTimes(1);
+
+    onDue.mockClear();
+    play('qt_long', 0);    // seek back to the start
+    jest.advanceTimersByTime(59_000);
+    expect(onDue).not.toHaveBeenCalled();
+  });
+
+  it('drops the old timer when the track changes', () => {
+    play('qt_long', 0);
+    jest.advanceTimersByTime(50_000);
+
+    play('qt_short', 0);
+    jest.advanceTimersByTime(10_000 + GRACE_MS);   // where qt_long would have ended
+    expect(onDue).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(20_000);
+    expect(onDue).toHaveBeenCalledTimes(1);
+    expect(onDue).toHaveBeenCalledWith('qt_short');
+  });
+
+  it('fires straight away (after grace) for a track already past its end', () => {
+    play('qt_short', 45);
+    jest.advanceTimersByTime(GRACE_MS);
+    expect(onDue).toHaveBeenCalledWith('qt_short');
+  });
+
+  it('leaves tracks of unknown length to the clients', () => {
+    play('qt_unknown', 0);
+    expect(hasScheduledAdvance(SESSION)).toBe(false);
+  });
+
+  it('can be cancelled outright', () => {
+    play('qt_short', 0);
+    cancelAdvance(SESSION);
+    jest.advanceTimersByTime(60_000);
+    expect(onDue).not.toHaveBeenCalled();
+  });
+});
+
+// ─── advancedRecently ───────────────────────────────────────
+
+describe('advancedRecently', () => {
+  it('flags a second advance within the duplicate window', () => {
+    expect(advancedRecently(SESSION)).toBe(false);
+
+    markAdvanced(SESSION);
+    expect(advancedRecently(SESSION)).toBe(true);
+
+    jest.advanceTimersByTime(4_999);
+    expect(advancedRecently(SESSION)).toBe(true);
+
+    jest.advanceTimersByTime(1);
+    expect(advancedRecently(SESSION)).toBe(false);
+  });
+
+  it('is forgotten when the room is cleared', () => {
+    markAdvanced(SESSION);
+    clearAdvance(SESSION);
+    expect(advancedRecently(SESSION)).toBe(false);
+  });
+});
+
+// ─── acceptEndReport ────────────────────────────────────────
+
+describe('acceptEndReport', () => {
+  it('refuses an early report, whoever sends it', () => {
+    play('qt_long', 0);
+    jest.advanceTimersByTime(10_000);
+
+    expect(acceptEndReport(SESSION, 'qt_long')).toBe(false);
+    expect(acceptEndReport(SESSION)).toBe(false);
+  });
+
+  it('accepts a report once the clock is at the end, or within tolerance of it', () => {
+    play('qt_long', 0);
+    jest.advanceTimersByTime(56_000);
+    expect(acceptEndReport(SESSION, 'qt_long')).toBe(false);
+
+    jest.advanceTimersByTime(1_000);
+    expect(acceptEndReport(SESSION, 'qt_long')).toBe(true);
+
+    jest.advanceTimersByTime(3_000);
+    expect(acceptEndReport(SESSION, 'qt_long')).toBe(true);
+  });
+
+  it('judges a seek by where the room clock says it is', () => {
+    play('qt_long', 58);
+    expect(acceptEndReport(SESSION, 'qt_long')).toBe(true);
+  });
+
+  it('does not count time spent paused', () => {
+    play('qt_long', 20, 'paused');
+    jest.advanceTimersByTime(5 * 60_000);
+    expect(acceptEndReport(SESSION, 'qt_long')).toBe(false);
+  });
+
+  it('ignores reports for a track that is not the current one', () => {
+    play('qt_short', 30);
+    expect(acceptEndReport(SESSION, 'qt_long')).toBe(false);
+    expect(acceptEndReport(SESSION, 'qt_short')).toBe(true);
+  });
+
+  it('ignores reports when nothing is playing', () => {
+    expect(acceptEndReport(SESSION, 'qt_long')).toBe(false);
+  });
+
+  it('keeps the room playing when a listener on a 30s preview runs out', () => {
+    play('qt_full', 0);
+    jest.advanceTimersByTime(30_000);
+
+    expect(acceptEndReport(SESSION, 'qt_full')).toBe(false);
+    expect(onDue).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(170_000 + GRACE_MS);
+    expect(onDue).toHaveBeenCalledWith('qt_full');
+  });
+
+  it('trusts reports for tracks of unknown length', () => {
+    play('qt_unknown', 0);
+    expect(acceptEndReport(SESSION, 'qt_unknown')).toBe(true);
+  });
+
+  it('drops a legacy report right after an advance', () => {
+    play('qt_short', 30);
+    markAdvanced(SESSION);
+    expect(acceptEndReport(SESSION)).toBe(false);
+    expect(acceptEndReport(SESSION, 'qt_short')).toBe(true);
+  });
+});
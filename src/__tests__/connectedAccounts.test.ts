@@ -0,0 +1,193 @@
+/**
+ * Connected Accounts — Tests
+ *
+ * Coverage:
+ *   encryptToken / decryptToken — round trip, tamper detection, required key in production
+ *   saveAccount / getAccount    — tokens encrypted at rest
+ *   providerFetch               — proactive refresh, refresh-and-retry on 401
+ *   DELETE /api/auth/:provider  — disconnect
+ */
+
+import path from 'path';
+
+process.env.NODE_ENV = 'test';
+const TEST_DB_PATH = path.join('/tmp', `frequenc_accounts_test_${Date.now()}.db`);
+process.env.DB_PATH = TEST_DB_PATH;
+
+import fs from 'fs';
+import request from 'supertest';
+import { app } from '../index';
+import db from '../database';
+import { encryptToken, decryptToken } from '../tokenCrypto';
+import {
+  saveAccount, getAccount, disconnect, providerFetch, setTokenRefresher, TokenRefresher,
+} from '../services/connectedAccounts';
+
+// ─── Helpers ────────────────────────────────────────────────
+
+let token = '';
+let userId = '';
+
+/** A provider stub that only accepts `validToken` */
+function api(validToken: string) {
+  return jest.fn(async (accessToken: string) =>
+    new Response(null, { status: accessToken === validToken ? 200 : 401 }));
+}
+
+beforeAll(async () => {
+  const res = await request(app)
+    .post('/api/auth/register')
+    .send({ username: 'linked', email: 'linked@test.com', password: 'pass123' });
+  token = res.body.token;
+  userId = res.body.user.id;
+});
+
+afterEach(() => {
+  setTokenRefresher('tidal', null);
+  disconnect(userId, 'tidal');
+  disconnect(userId, 'lastfm');
+});
+
+afterAll(() => {
+  try {
+    if (fs.existsSync(TEST_DB_PATH)) fs.unlinkSync(TEST_DB_PATH);
+    if (fs.existsSync(TEST_DB_PATH + '-wal')) fs.unlinkSync(TEST_DB_PATH + '-wal');
+    if (fs.existsSync(TEST_DB_PATH + '-shm')) fs.unlinkSync(TEST_DB_PATH + '-shm');
+  } catch { /* ignore */ }
+});
+
+// ─── Encryption ─────────────────────────────────────────────
+
+describe('tokenCrypto', () => {
+  it('round-trips a token with a fresh IV each time', () => {
+    const a = encryptToken('secret-token');
+    const b = encryptToken('secret-token');
+    expect(a).not.toBe(b);
+    expect(decryptToken(a)).toBe('secret-token');
+  });
+
+  it('refuses to fall back to the dev key in production', () => {
+    const env = { ...process.env };
+    try {
+      delete process.env.TOKEN_ENCRYPTION_KEY;
+      process.env.NODE_ENV = 'production';
+      jest.isolateModules(() => {
+        expect(() => require('../tokenCrypto')).toThrow('TOKEN_ENCRYPTION_KEY must be set in production');
+      });
+    } finally {
+      process.env = env;
+    }
+  });
+
+  it('rejects tampered ciphertext', () => {
+    const [version, iv, tag, data] = encryptToken('secret-token').split(':');
+    const flipped = Buffer.from(data, 'base64');
+    flipped[0] ^= 1;
+    expect(() => decryptToken([version, iv, tag, flipped.toString('base64')].join(':'))).toThrow();
+    expect(() => decryptToken('plaintext')).toThrow('Unrecognized');
+  });
+});
+
+// ─── Storage ────────────────────────────────────────────────
+
+describe('saveAccount', () => {
+  it('stores tokens encrypted', () => {
+    saveAccount(userId, 'tidal', { accessToken: 'access-1', refreshToken: 'refresh-1', expiresIn: 3600 });
+
+    const row = db.prepare("SELECT access_token, refresh_token FROM connected_accounts WHERE user_id = ? AND provider = 'tidal'")
+      .get(userId) as { access_token: string; refresh_token: string };
+    expect(row.access_token).not.toContain('access-1');
+    expect(row.refresh_token).not.toContain('refresh-1');
+    expect(getAccount(userId, 'tidal')).toMatchObject({ accessToken: 'access-1', refreshToken: 'refresh-1' });
+  });
+
+  it('keeps the stored refresh token when a grant has none', () => {
+    saveAccount(userId, 'tidal', { accessToken: 'access-1', refreshToken: 'refresh-1' });
+    saveAccount(userId, 'tidal', { accessToken: 'access-2' });
+    expect(getAccount(userId, 'tidal')).toMatchObject({ accessToken: 'access-2', refreshToken: 'refresh-1' });
+  });
+});
+
+// ─── providerFetch ──────────────────────────────────────────
+
+describe('providerFetch', () => {
+  it('throws when the user is not connected', async () => {
+    await expect(providerFetch(userId, 'tidal', api('x'))).rejects.toThrow('tidal not connected');
+  });
+
+  it('refreshes an expired token before calling', async () => {
+    const refresher: jest.MockedFunction<TokenRefresher> = jest.fn(async (_refreshToken: string) => ({ accessToken: 'fresh', expiresIn: 3600 }));
+    setTokenRefresher('tidal', refresher);
+    saveAccount(userId, 'tidal', { accessToken: 'stale', refreshToken: 'refresh-1', expiresIn: 30 });
+
+    const call = api('fresh');
+    const res = await providerFetch(userId, 'tidal', call);
+
+    expect(res.status).toBe(200);
+    expect(refresher).toHaveBeenCalledWith('refresh-1');
+    expect(call).toHaveBeenCalledTimes(1);
+    expect(getAccount(userId, 'tidal')).toMatchObject({ accessToken: 'fresh', refreshToken: 'refresh-1' });
+  });
+
+  it('refreshes and retries once on a 401', async () => {
+    const refresher: jest.MockedFunction<TokenRefresher> = jest.fn(async (_refreshToken: string) => ({ accessToken: 'fresh', refreshToken: 'refresh-2' }));
+    setTokenRefresher('tidal', refresher);
+    saveAccount(userId, 'tidal', { accessToken: 'revoked', refreshToken: 'refresh-1' });
+
+    const call = api('fresh');
+    const res = await providerFetch(userId, 'tidal', call);
+
+    expect(res.status).toBe(200);
+    expect(call.mock.calls.map(([t]) => t)).toEqual(['revoked', 'fresh']);
+    expect(getAccount(userId, 'tidal')?.refreshToken).toBe('refresh-2');
+  });
+
+  it('shares one refresh between parallel calls', async () => {
+    const refresher: jest.MockedFunction<TokenRefresher> = jest.fn(async (_refreshToken: string) => ({ accessToken: 'fresh' }));
+    setTokenRefresher('tidal', refresher);
+    saveAccount(userId, 'tidal', { accessToken: 'revoked', refreshToken: 'refresh-1' });
+
+    const results = await Promise.all([1, 2, 3].map(() => providerFetch(userId, 'tidal', api('fresh'))));
+
+    expect(results.map((r) => r.status)).toEqual([200, 200, 200]);
+    expect(refresher).toHaveBeenCalledTimes(1);
+  });
+
+  it('returns the 401 when the refresh fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    setTokenRefresher('tidal', async () => { throw new Error('invalid_grant'); });
+    saveAccount(userId, 'tidal', { accessToken: 'revoked', refreshToken: 'refresh-1' });
+
+    const res = await providerFetch(userId, 'tidal', api('fresh'));
+
+    expect(res.status).toBe(401);
+    jest.restoreAllMocks();
+  });
+});
+
+// ─── DELETE /api/auth/:provider ─────────────────────────────
+
+describe('DELETE /api/auth/:provider', () => {
+  it('disconnects a connected service', async () => {
+    saveAccount(userId, 'lastfm', { accessToken: 'session-key', username: 'linked_fm' });
+
+    const me = await request(app).get('/api/auth/me').set('Authorization', `Bearer ${token}`).expect(200);
+    expect(me.body.user.connectedServices.lastfm).toEqual({ connected: true, username: 'linked_fm' });
+
+    const res = await request(app).delete('/api/auth/lastfm').set('Authorization', `Bearer ${token}`).expect(200);
+    expect(res.body.user.connectedServices.lastfm).toEqual({ connected: false });
+    expect(getAccount(userId, 'lastfm')).toBeNull();
+  });
+
+  it('404s when the service is not connected', async () => {
+    await request(app).delete('/api/auth/tidal').set('Authorization', `Bearer ${token}`).expect(404);
+  });
+
+  it('404s for an unknown provider', async () => {
+    await request(app).delete('/api/auth/myspace').set('Authorization', `Bearer ${token}`).expect(404);
+  });
+
+  it('requires auth', async () => {
+    await request(app).delete('/api/auth/lastfm').expect(401);
+  });
+});
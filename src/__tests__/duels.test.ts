@@ -0,0 +1,174 @@
+/**
+ * Track Duels — Tests
+ *
+ * Coverage:
+ *   castDuelVote / resolveDuel — vote changes, majority and tie-break, timer
+ *   removeTrack                — a contender leaving cancels the duel
+ *   getOrderedQueue            — the resolved winner plays next (after pins)
+ *
+ * Socket.io is stubbed with a fake server that records room emits.
+ */
+
+import path from 'path';
+
+process.env.NODE_ENV = 'test';
+const TEST_DB_PATH = path.join('/tmp', `frequenc_duels_test_${Date.now()}.db`);
+process.env.DB_PATH = TEST_DB_PATH;
+
+import fs from 'fs';
+import { Server } from 'socket.io';
+import { QueueRepo } from '../repositories';
+import { createUsers, createRoom, queueTrack } from './helpers/fixtures';
+import { openDuel, castDuelVote, resolveDuel, clearDuel, getDuelState, DUEL_DURATION_MS } from '../services/duels';
+import { getOrderedQueue, maybeStartDuel, removeTrack, pinTrack } from '../services/queue';
+
+// ─── Helpers ────────────────────────────────────────────────
+
+let emitted: { event: string; payload: any }[] = [];
+const io = { to: () => ({ emit: (event: string, payload: any) => emitted.push({ event, payload }) }) } as unknown as Server;
+
+const rooms: string[] = [];
+
+/** A duel-mode room with `now` playing and t1…tN waiting in position order */
+function room(waiting = 3): string {
+  const sessionId = createRoom('duel', { roomMode: 'duel' });
+  rooms.push(sessionId);
+  ['now', ...Array.from({ length: waiting }, (_, i) => `t${i + 1}`)].forEach((id) => queueTrack(sessionId, id));
+  QueueRepo.setCurrent('now');
+  return sessionId;
+}
+
+function order(sessionId: string): string[] {
+  return getOrderedQueue(sessionId).map((t) => t.id);
+}
+
+function events(name: string) {
+  return emitted.filter((e) => e.event === name).map((e) => e.payload);
+}
+
+beforeAll(() => {
+  createUsers('host');
+});
+
+beforeEach(() => {
+  emitted = [];
+});
+
+afterEach(() => {
+  rooms.forEach(clearDuel);
+  QueueRepo.removeCurrent(rooms[rooms.length - 1]);
+  for (const id of ['t1', 't2', 't3', 't4']) QueueRepo.remove(id);
+  jest.useRealTimers();
+});
+
+afterAll(() => {
+  try {
+    if (fs.existsSync(TEST_DB_PATH)) fs.unlinkSync(TEST_DB_PATH);
+    if (fs.existsSync(TEST_DB_PATH + '-wal')) fs.unlinkSync(TEST_DB_PATH + '-wal');
+    if (fs.existsSync(TEST_DB_PATH + '-shm')) fs.unlinkSync(TEST_DB_PATH + '-shm');
+  } catch { /* ignore */ }
+});
+
+// ─── Voting & resolution ────────────────────────────────────
+
+describe('duel voting', () => {
+  it('pairs the top two and counts one changeable vote per listener', () => {
+    const s = room();
+    maybeStartDuel(io, s);
+    const { duelId, trackIds } = getDuelState(s)!;
+    expect(trackIds).toEqual(['t1', 't2']);
+
+    expect(castDuelVote(io, s, 'alice', 't1', duelId)).toBeNull();
+    expect(castDuelVote(io, s, 'alice', 't2', duelId)).toBeNull();
+    expect(castDuelVote(io, s, 'bob', 't2')).toBeNull();
+
+    expect(getDuelState(s)).toMatchObject({ tally: { t1: 0, t2: 2 }, totalVotes: 2 });
+    expect(castDuelVote(io, s, 'bob', 't3')).toBe('That track is not in the duel');
+    expect(castDuelVote(io, s, 'bob', 't1', 'duel_old')).toBe('That duel has closed');
+  });
+
+  it('resolves to the track with more votes', () => {
+    const s = room();
+    maybeStartDuel(io, s);
+    castDuelVote(io, s, 'alice', 't2');
+
+    expect(resolveDuel(io, s)).toBe('t2');
+    expect(events('duel-resolved')[0]).toMatchObject({ winnerId: 't2', tally: { t1: 0, t2: 1 } });
+    expect(castDuelVote(io, s, 'bob', 't1')).toBe('No duel is open');
+  });
+
+  it('gives a tie to the track that was ahead in the queue', () => {
+    const s = room();
+    maybeStartDuel(io, s);
+    castDuelVote(io, s, 'alice', 't1');
+    castDuelVote(io, s, 'bob', 't2');
+
+    expect(resolveDuel(io, s)).toBe('t1');
+  });
+
+  it('resolves on its own when the timer runs out', () => {
+    jest.useFakeTimers();
+    const s = room();
+    const onResolved = jest.fn();
+    openDuel(io, s, QueueRepo.findById('t1')!, QueueRepo.findById('t2')!, onResolved);
+    castDuelVote(io, s, 'alice', 't2');
+
+    jest.advanceTimersByTime(DUEL_DURATION_MS);
+
+    expect(onResolved).toHaveBeenCalledTimes(1);
+    expect(getDuelState(s)?.winnerId).toBe('t2');
+  });
+});
+
+// ─── Contender leaves ───────────────────────────────────────
+
+describe('removing a contender', () => {
+  it('cancels the duel and pairs the next two', () => {
+    const s = room();
+    maybeStartDuel(io, s);
+    castDuelVote(io, s, 'alice', 't1');
+
+    expect(removeTrack(io, s, 'host', 't1')).toBeNull();
+
+    expect(events('duel-resolved')).toEqual([
+      expect.objectContaining({ winnerId: null, cancelled: true, tally: { t1: 1, t2: 0 } }),
+    ]);
+    expect(getDuelState(s)).toMatchObject({ trackIds: ['t2', 't3'], totalVotes: 0, winnerId: null });
+  });
+
+  it('leaves the duel alone when another track goes', () => {
+    const s = room();
+    maybeStartDuel(io, s);
+
+    removeTrack(io, s, 'host', 't3');
+
+    expect(events('duel-resolved')).toEqual([]);
+    expect(getDuelState(s)?.trackIds).toEqual(['t1', 't2']);
+  });
+});
+
+// ─── Play order ─────────────────────────────────────────────
+
+describe('getOrderedQueue in duel rooms', () => {
+  it('moves the resolved winner to the front', () => {
+    const s = room(4);
+    maybeStartDuel(io, s);
+    castDuelVote(io, s, 'alice', 't2');
+    expect(order(s)).toEqual(['t1', 't2', 't3', 't4']);
+
+    resolveDuel(io, s);
+
+    expect(order(s)).toEqual(['t2', 't1', 't3', 't4']);
+  });
+
+  it('keeps pinned tracks ahead of the winner', () => {
+    const s = room(4);
+    maybeStartDuel(io, s);
+    castDuelVote(io, s, 'alice', 't2');
+    resolveDuel(io, s);
+
+    pinTrack(s, 'host', 't4', true);
+
+    expect(order(s)).toEqual(['t4', 't2', 't1', 't3']);
+  });
+});
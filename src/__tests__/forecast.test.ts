@@ -0,0 +1,199 @@
+/**
+ * Forecast Game — Tests
+ *
+ * Coverage:
+ *   submitPick   — open_floor and open duels only, queued tracks only, changeable until locked
+ *   lockPicks    — freezes a round's open picks
+ *   scorePicks   — points + voltage for correct picks (duel rooms: the duel winner);
+ *                  voided when votes didn't decide
+ *   getLeaderboard
+ */
+
+import path from 'path';
+
+process.env.NODE_ENV = 'test';
+const TEST_DB_PATH = path.join('/tmp', `frequenc_forecast_test_${Date.now()}.db`);
+process.env.DB_PATH = TEST_DB_PATH;
+
+import fs from 'fs';
+import { Server } from 'socket.io';
+import db from '../database';
+import { UsersRepo, SessionsRepo, QueueRepo } from '../repositories';
+import { createUsers, createRoom, queueTrack } from './helpers/fixtures';
+import { submitPick, lockPicks, scorePicks, getLeaderboard, FORECAST_POINTS } from '../services/forecast';
+import { EARN_RULES } from '../services/voltage';
+import { openDuel, castDuelVote, resolveDuel } from '../services/duels';
+
+// ─── Helpers ────────────────────────────────────────────────
+
+const io = { to: () => ({ emit: () => {} }) } as unknown as Server;
+
+/** A room with `<room>_now` playing and `<room>_a`, `<room>_b`, `<room>_c` waiting */
+function room(roomMode = 'open_floor'): string {
+  const sessionId = createRoom('fc', { roomMode });
+  ['now', 'a', 'b', 'c'].forEach((id) => queueTrack(sessionId, `${sessionId}_${id}`, { title: id }));
+  QueueRepo.setCurrent(`${sessionId}_now`);
+  return sessionId;
+}
+
+/** A duel room with `<room>_a` vs `<room>_b` open */
+function duelRoom(): string {
+  const s = room('duel');
+  openDuel(io, s, QueueRepo.findById(`${s}_a`)!, QueueRepo.findById(`${s}_b`)!);
+  return s;
+}
+
+function picks(sessionId: string) {
+  return db.prepare('SELECT user_id, track_id, status, points FROM forecast_picks WHERE session_id = ? ORDER BY user_id')
+    .all(sessionId);
+}
+
+function balance(userId: string): number {
+  return UsersRepo.findById(userId)!.voltage_balance;
+}
+
+beforeAll(() => {
+  createUsers('host', 'alice', 'bob');
+});
+
+afterAll(() => {
+  try {
+    if (fs.existsSync(TEST_DB_PATH)) fs.unlinkSync(TEST_DB_PATH);
+    if (fs.existsSync(TEST_DB_PATH + '-wal')) fs.unlinkSync(TEST_DB_PATH + '-wal');
+    if (fs.existsSync(TEST_DB_PATH + '-shm')) fs.unlinkSync(TEST_DB_PATH + '-shm');
+  } catch { /* ignore */ }
+});
+
+// ─── submitPick ─────────────────────────────────────────────
+
+describe('submitPick', () => {
+  it('records one pick per listener per round, changeable until locked', () => {
+    const s = room();
+
+    const first = submitPick(s, 'alice', `${s}_a`);
+    expect(first.pick).toMatchObject({ roundId: `${s}_now`, trackId: `${s}_a` });
+
+    const changed = submitPick(s, 'alice', `${s}_b`);
+    expect(changed.pick?.id).toBe(first.pick?.id);
+    expect(picks(s)).toEqual([{ user_id: 'alice', track_id: `${s}_b`, status: 'open', points: 0 }]);
+
+    expect(lockPicks(s, `${s}_now`)).toBe(1);
+    expect(submitPick(s, 'alice', `${s}_a`).error).toBe('Picks for this round are locked');
+  });
+
+  it('only accepts a waiting track from this room', () => {
+    const s = room();
+    const other = room();
+
+    expect(submitPick(s, 'alice', `${s}_now`).error).toBe('You can only pick a queued track');
+    expect(submitPick(s, 'alice', `${other}_a`).error).toBe('You can only pick a queued track');
+  });
+
+  it('needs something playing', () => {
+    const s = room();
+    QueueRepo.removeCurrent(s);
+    expect(submitPick(s, 'alice', `${s}_a`).error).toBe('Nothing is playing — wait for the next round');
+  });
+
+  it.each(['campfire', 'spotlight'])('is closed in %s rooms, where the queue order is the play order', (mode) => {
+    const s = room(mode);
+    expect(submitPick(s, 'alice', `${s}_a`).error).toBe('Forecasts only run in Open Floor and Duel rooms');
+  });
+
+  it('takes picks on the contenders while a duel is open', () => {
+    const s = duelRoom();
+
+    expect(submitPick(s, 'alice', `${s}_b`).pick).toMatchObject({ trackId: `${s}_b` });
+    expect(submitPick(s, 'alice', `${s}_c`).error).toBe('Pick one of the tracks in the duel');
+
+    resolveDuel(io, s);
+    expect(submitPick(s, 'bob', `${s}_a`).error).toBe('Picks open with the next duel');
+  });
+
+  it('waits for a duel in duel rooms', () => {
+    const s = room('duel');
+    expect(submitPick(s, 'alice', `${s}_a`).error).toBe('Picks open with the next duel');
+  });
+});
+
+// ─── lockPicks / scorePicks ─────────────────────────────────
+
+describe('scorePicks', () => {
+  it('pays correct picks and marks the rest lost', () => {
+    const s = room();
+    submitPick(s, 'alice', `${s}_a`);
+    submitPick(s, 'bob', `${s}_b`);
+    lockPicks(s, `${s}_now`);
+    const before = balance('alice');
+
+    const result = scorePicks(s, `${s}_now`, `${s}_a`);
+
+    expect(result?.winners).toEqual([{ userId: 'alice', username: 'alice' }]);
+    expect(result?.transactions).toEqual([expect.objectContaining({ userId: 'alice', amount: EARN_RULES.forecastWin })]);
+    expect(balance('alice')).toBe(before + EARN_RULES.forecastWin);
+    expect(picks(s)).toEqual([
+      { user_id: 'alice', track_id: `${s}_a`, status: 'won', points: FORECAST_POINTS },
+      { user_id: 'bob', track_id: `${s}_b`, status: 'lost', points: 0 },
+    ]);
+    expect(getLeaderboard(s).map((r) => [r.username, r.points, r.correct, r.total])).toEqual([
+      ['alice', FORECAST_POINTS, 1, 1],
+      ['bob', 0, 0, 1],
+    ]);
+  });
+
+  it('only scores locked picks', () => {
+    const s = room();
+    submitPick(s, 'alice', `${s}_a`);
+
+    expect(scorePicks(s, `${s}_now`, `${s}_a`)?.winners).toEqual([]);
+    expect(picks(s)).toEqual([expect.objectContaining({ status: 'open' })]);
+  });
+
+  it('scores duel rooms against the duel winner', () => {
+    const s = duelRoom();
+    submitPick(s, 'alice', `${s}_a`);
+    submitPick(s, 'bob', `${s}_b`);
+    castDuelVote(io, s, 'host', `${s}_b`);
+    resolveDuel(io, s);
+    lockPicks(s, `${s}_now`);
+
+    expect(scorePicks(s, `${s}_now`, `${s}_b`)?.winners).toEqual([{ userId: 'bob', username: 'bob' }]);
+  });
+
+  it('voids a duel round when something other than the winner played next', () => {
+    const s = duelRoom();
+    submitPick(s, 'alice', `${s}_a`);
+    resolveDuel(io, s);
+    QueueRepo.setPinned(`${s}_c`, true);
+    lockPicks(s, `${s}_now`);
+
+    expect(scorePicks(s, `${s}_now`, `${s}_c`)).toBeNull();
+    expect(picks(s)).toEqual([expect.objectContaining({ status: 'void' })]);
+  });
+
+  it('voids the round if the room left open_floor', () => {
+    const s = room();
+    submitPick(s, 'alice', `${s}_a`);
+    lockPicks(s, `${s}_now`);
+    SessionsRepo.setRoomMode(s, 'campfire');
+    const before = balance('alice');
+
+    expect(scorePicks(s, `${s}_now`, `${s}_a`)).toBeNull();
+    expect(picks(s)).toEqual([expect.objectContaining({ status: 'void', points: 0 })]);
+    expect(balance('alice')).toBe(before);
+    expect(getLeaderboard(s)).toEqual([]);
+  });
+
+  it.each([
+    ['pinned', (s: string) => QueueRepo.setPinned(`${s}_a`, true)],
+    ['powered', (s: string) => QueueRepo.setPoweredBy(`${s}_a`, 'host')],
+  ])('voids the round when the next track was %s to the front', (_kind, jump) => {
+    const s = room();
+    submitPick(s, 'alice', `${s}_a`);
+    jump(s);
+    lockPicks(s, `${s}_now`);
+
+    expect(scorePicks(s, `${s}_now`, `${s}_a`)).toBeNull();
+    expect(picks(s)).toEqual([expect.objectContaining({ status: 'void' })]);
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Test Fixtures — users, rooms and queued tracks, straight through the repositories
+ *
+ * Import after the test file has set DB_PATH: the repositories open the
+ * database as they load.
+ *
+ *   createUsers('host', 'alice');
+ *   const s = createRoom('duel', { roomMode: 'duel' });   // ses_duel_1
+ *   queueTrack(s, 'qt_1', { duration: 60 });
+ */
+
+import { UsersRepo, SessionsRepo, QueueRepo } from '../../repositories';
+
+let roomCount = 0;
+
+/** Users whose ID doubles as their username */
+export function createUsers(...ids: string[]): void {
+  for (const id of ids) UsersRepo.create({ id, username: id, email: `${id}@test.com`, passwordHash: 'x' });
+}
+
+/**
+ * A live public room named `ses_<prefix>_<n>`, hosted by 'host' in campfire
+ * unless told otherwise. Pass `id` for a fixed name.
+ */
+export function createRoom(prefix: string, opts: { id?: string; roomMode?: string; hostId?: string } = {}): string {
+  const n = ++roomCount;
+  const sessionId = opts.id ?? `ses_${prefix}_${n}`;
+  SessionsRepo.create({
+    id: sessionId,
+    name: prefix,
+    hostId: opts.hostId ?? 'host',
+    genre: 'Mixed',
+    roomMode: opts.roomMode ?? 'campfire',
+    isPublic: true,
+    joinCode: `${prefix.slice(0, 4).toUpperCase()}${n}`,
+  });
+  return sessionId;
+}
+
+/**
+ * Add an approved 180s track at the end of the queue, titled after its ID and
+ * added by 'host'. `fields` override any of that; the username follows
+ * added_by_id unless given.
+ */
+export function queueTrack(sessionId: string, id: string, fields: Partial<QueueRepo.NewQueueTrack> = {}): string {
+  const addedBy = fields.added_by_id ?? 'host';
+  QueueRepo.insertTrack({
+    id,
+    session_id: sessionId,
+    title: id,
+    artist: 'Artist',
+    album: null,
+    album_art: null,
+    preview_url: null,
+    duration: 180,
+    source: 'itunes',
+    source_id: null,
+    isrc: null,
+    added_by_id: addedBy,
+    added_by_username: addedBy,
+    status: 'approved',
+    position: QueueRepo.nextPosition(sessionId),
+    ...fields,
+  });
+  return id;
+}
@@ -0,0 +1,145 @@
+/**
+ * Integrations Registry — Tests
+ *
+ * Coverage:
+ *   mountIntegrations — mounts configured integrations, reports unconfigured/failed ones
+ *   mounted routers   — auth on scrobble + SoundCloud routes
+ *   GET /api/health   — integration status
+ */
+
+import path from 'path';
+
+process.env.NODE_ENV = 'test';
+const TEST_DB_PATH = path.join('/tmp', `frequenc_integrations_test_${Date.now()}.db`);
+process.env.DB_PATH = TEST_DB_PATH;
+
+import fs from 'fs';
+import express, { Router } from 'express';
+import request from 'supertest';
+import { app } from '../index';
+import { signToken } from '../auth';
+import { UsersRepo } from '../repositories';
+import { mountIntegrations, INTEGRATIONS, Integration, IntegrationEnv } from '../integrations';
+
+// ─── Helpers ────────────────────────────────────────────────
+
+const FULL_ENV: IntegrationEnv = {
+  LASTFM_API_KEY: 'key',
+  LASTFM_SHARED_SECRET: 'secret',
+  TIDAL_CLIENT_ID: 'tidal',
+  SOUNDCLOUD_CLIENT_ID: 'sc',
+  SOUNDCLOUD_CLIENT_SECRET: 'sc-secret',
+  GENIUS_CLIENT_ACCESS_TOKEN: 'genius',
+};
+
+function appWith(env: IntegrationEnv, integrations?: Integration[]) {
+  const testApp = express();
+  testApp.use(express.json());
+  const statuses = mountIntegrations(testApp, env, integrations);
+  return { testApp, statuses };
+}
+
+let token = '';
+
+beforeAll(() => {
+  UsersRepo.create({ id: 'u_int', username: 'integrator', email: 'int@test.com', passwordHash: 'x' });
+  token = signToken({ userId: 'u_int', username: 'integrator' });
+});
+
+afterAll(() => {
+  try {
+    if (fs.existsSync(TEST_DB_PATH)) fs.unlinkSync(TEST_DB_PATH);
+    if (fs.existsSync(TEST_DB_PATH + '-wal')) fs.unlinkSync(TEST_DB_PATH + '-wal');
+    if (fs.existsSync(TEST_DB_PATH + '-shm')) fs.unlinkSync(TEST_DB_PATH + '-shm');
+  } catch { /* ignore */ }
+});
+
+// ─── mountIntegrations ──────────────────────────────────────
+
+describe('mountIntegrations', () => {
+  it('reports missing config and leaves the routes unmounted', async () => {
+    const { testApp, statuses } = appWith({ LASTFM_API_KEY: 'key' });
+
+    expect(statuses.find((s) => s.id === 'lastfm')).toEqual({
+      id: 'lastfm', name: 'Last.fm', status: 'unconfigured', routes: [], missingConfig: ['LASTFM_SHARED_SECRET'],
+    });
+    await request(testApp).post('/api/scrobble').expect(404);
+  });
+
+  it('treats empty env vars as missing', () => {
+    const { statuses } = appWith({ ...FULL_ENV, GENIUS_CLIENT_ACCESS_TOKEN: '' });
+    expect(statuses.find((s) => s.id === 'genius')?.missingConfig).toEqual(['GENIUS_CLIENT_ACCESS_TOKEN']);
+  });
+
+  it('mounts every integration once configured', () => {
+    const { statuses } = appWith(FULL_ENV);
+
+    expect(statuses.map((s) => s.id)).toEqual(INTEGRATIONS.map((i) => i.id));
+    expect(statuses.every((s) => s.status === 'enabled')).toBe(true);
+    expect(statuses.find((s) => s.id === 'lastfm')?.routes).toEqual(['/api/auth/lastfm', '/api/scrobble']);
+  });
+
+  it('reports an integration that fails to build without stopping the others', async () => {
+    const broken: Integration = {
+      id: 'broken', name: 'Broken', requires: [], config: () => ({}),
+      routes: () => { throw new Error('bad config'); },
+    };
+    const working: Integration = {
+      id: 'working', name: 'Working', requires: [], config: () => ({}),
+      routes: () => [{ path: '/api/working', router: Router().get('/', (_req, res) => { res.json({ ok: true }); }) }],
+    };
+
+    const spy = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const { testApp, statuses } = appWith({}, [broken, working]);
+    spy.mockRestore();
+
+    expect(statuses[0]).toMatchObject({ id: 'broken', status: 'failed', error: 'bad config' });
+    expect(statuses[1]).toMatchObject({ id: 'working', status: 'enabled' });
+    await request(testApp).get('/api/working').expect(200);
+  });
+});
+
+// ─── Mounted routers ────────────────────────────────────────
+
+describe('mounted routers', () => {
+  const { testApp } = appWith(FULL_ENV);
+
+  it('requires auth to scrobble', async () => {
+    await request(testApp).post('/api/scrobble').send({ track: 't', artist: 'a', timestamp: 1 }).expect(401);
+  });
+
+  it('scrobbles as the authenticated user', async () => {
+    const res = await request(testApp)
+      .post('/api/scrobble')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ track: 't', artist: 'a', timestamp: 1 })
+      .expect(403);
+
+    expect(res.body.message).toBe('User not connected to Last.fm');
+  });
+
+  it('requires auth for SoundCloud search and streams', async () => {
+    await request(testApp).get('/api/auth/soundcloud/search?q=x').expect(401);
+    await request(testApp).get('/api/auth/soundcloud/stream/123').expect(401);
+
+    const res = await request(testApp)
+      .get('/api/auth/soundcloud/search?q=x')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(401);
+    expect(res.body.message).toBe('SoundCloud not connected');
+  });
+});
+
+// ─── GET /api/health ────────────────────────────────────────
+
+describe('GET /api/health', () => {
+  it('lists every integration with its status', async () => {
+    const res = await request(app).get('/api/health').expect(200);
+
+    expect(res.body.status).toBe('ok');
+    expect(res.body.integrations.map((i: any) => i.id)).toEqual(INTEGRATIONS.map((i) => i.id));
+    for (const integration of res.body.integrations) {
+      expect(['enabled', 'unconfigured', 'failed']).toContain(integration.status);
+    }
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * Schema Migrations — Unit Tests
+ *
+ * Coverage:
+ *   runMigrations   — empty database, legacy (pre-migration) snapshot, re-runs
+ *   migrationStatus — applied vs pending
+ */
+
+import Database, { Database as DatabaseType } from 'better-sqlite3';
+import { MIGRATIONS, runMigrations, migrationStatus, schemaVersion, Migration } from '../migrations';
+import { decryptToken } from '../tokenCrypto';
+
+// ─── Helpers ────────────────────────────────────────────────
+
+const LATEST = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+function openDb(): DatabaseType {
+  const db = new Database(':memory:');
+  db.pragma('foreign_keys = ON');
+  return db;
+}
+
+function columns(db: DatabaseType, table: string): string[] {
+  return (db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]).map((c) => c.name);
+}
+
+function tables(db: DatabaseType): string[] {
+  return (db.prepare("SELECT name FROM sqlite_master WHERE type = 'table'").all() as { name: string }[])
+    .map((t) => t.name);
+}
+
+/**
+ * A database as the server left it before migrations existed: the original
+ * tables plus a few columns the old ensureColumn() calls had already added,
+ * and votes still stored as JSON on the track.
+ */
+function legacySnapshot(): DatabaseType {
+  const db = openDb();
+  db.exec(`
+    CREATE TABLE users (
+      id TEXT PRIMARY KEY, username TEXT UNIQUE NOT NULL, email TEXT UNIQUE NOT NULL,
+      password_hash TEXT NOT NULL, avatar_url TEXT, sessions_hosted INTEGER DEFAULT 0,
+      tracks_added INTEGER DEFAULT 0, total_listening_time INTEGER DEFAULT 0,
+      voltage_balance INTEGER DEFAULT 100, push_token TEXT, created_at TEXT DEFAULT (datetime('now')),
+      noise_gate TEXT DEFAULT 'medium'
+    );
+    CREATE TABLE sessions (
+      id TEXT PRIMARY KEY, name TEXT NOT NULL, host_id TEXT NOT NULL REFERENCES users(id),
+      description TEXT DEFAULT '', genre TEXT DEFAULT 'Mixed', room_mode TEXT DEFAULT 'campfire',
+      is_public INTEGER DEFAULT 1, is_live INTEGER DEFAULT 1, join_code TEXT UNIQUE NOT NULL,
+      created_at TEXT DEFAULT (datetime('now')), skip_threshold REAL DEFAULT 0.5
+    );
+    CREATE TABLE queue_tracks (
+      id TEXT PRIMARY KEY, session_id TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+      title TEXT NOT NULL, artist TEXT NOT NULL, album TEXT, album_art TEXT, preview_url TEXT,
+      duration INTEGER DEFAULT 30, source TEXT DEFAULT 'itunes', source_id TEXT,
+      added_by_id TEXT NOT NULL REFERENCES users(id), added_by_username TEXT NOT NULL,
+      votes INTEGER DEFAULT 0, voted_by TEXT DEFAULT '{}', status TEXT DEFAULT 'approved',
+      position INTEGER DEFAULT 0, is_current INTEGER DEFAULT 0, added_at TEXT DEFAULT (datetime('now')),
+      priority INTEGER DEFAULT 0
+    );
+
+    INSERT INTO users (id, username, email, password_hash) VALUES
+      ('u_a', 'a', 'a@frequenc.app', 'x'),
+      ('u_b', 'b', 'b@frequenc.app', 'x');
+    INSERT INTO sessions (id, name, host_id, join_code, skip_threshold) VALUES ('s_1', 'Legacy', 'u_a', 'LEGACY', 0.75);
+    INSERT INTO queue_tracks (id, session_id, title, artist, added_by_id, added_by_username, votes, voted_by) VALUES
+      ('qt_1', 's_1', 'Song', 'Artist', 'u_a', 'a', 0, '{"u_a":1,"u_b":-1,"u_gone":1}'),
+      ('qt_2', 's_1', 'Other', 'Artist', 'u_a', 'a', 0, 'not json');
+  `);
+  return db;
+}
+
+// ─── runMigrations ──────────────────────────────────────────
+
+describe('runMigrations', () => {
+  it('builds the full schema on an empty database', () => {
+    const db = openDb();
+    const applied = runMigrations(db);
+
+    expect(applied.map((m) => m.version)).toEqual(MIGRATIONS.map((m) => m.version));
+    expect(schemaVersion(db)).toBe(LATEST);
+    expect(tables(db)).toEqual(expect.arrayContaining([
+      'users', 'sessions', 'queue_tracks', 'voltage_transactions', 'played_tracks', 'track_votes', 'track_sources',
+      'connected_accounts', 'schema_migrations',
+    ]));
+    expect(columns(db, 'users')).toContain('noise_gate');
+    expect(columns(db, 'users').filter((c) => /token|session_key/.test(c))).toEqual(['push_token']);
+    expect(columns(db, 'queue_tracks')).not.toContain('voted_by');
+  });
+
+  it('records each migration in schema_migrations', () => {
+    const db = openDb();
+    runMigrations(db);
+
+    const rows = db.prepare('SELECT version, name FROM schema_migrations ORDER BY version').all();
+    expect(rows).toEqual(MIGRATIONS.map((m) => ({ version: m.version, name: m.name })));
+  });
+
+  it('does nothing when already up to date', () => {
+    const db = openDb();
+    runMigrations(db);
+    expect(runMigrations(db)).toEqual([]);
+  });
+
+  it('brings a legacy snapshot up to date without losing data', () => {
+    const db = legacySnapshot();
+    runMigrations(db);
+
+    expect(schemaVersion(db)).toBe(LATEST);
+    expect(columns(db, 'users')).toContain('noise_gate');
+    expect(columns(db, 'queue_tracks')).toEqual(expect.arrayContaining(['priority', 'powered_by', 'pinned_at']));
+    expect(db.prepare("SELECT skip_threshold FROM sessions WHERE id = 's_1'").get()).toEqual({ skip_threshold: 0.75 });
+    expect(db.prepare('SELECT COUNT(*) as n FROM queue_tracks').get()).toEqual({ n: 2 });
+  });
+
+  it('moves legacy JSON votes into track_votes', () => {
+    const db = legacySnapshot();
+    runMigrations(db);
+
+    const votes = db.prepare('SELECT track_id, user_id, direction FROM track_votes ORDER BY user_id').all();
+    // Votes from users that no longer exist, and unreadable blobs, are dropped
+    expect(votes).toEqual([
+      { track_id: 'qt_1', user_id: 'u_a', direction: 1 },
+      { track_id: 'qt_1', user_id: 'u_b', direction: -1 },
+    ]);
+    expect(columns(db, 'queue_tracks')).not.toContain('votes');
+  });
+
+  it('encrypts plaintext service tokens into connected_accounts', () => {
+    const db = legacySnapshot();
+    runMigrations(db, MIGRATIONS.filter((m) => m.version < 13));
+    db.prepare(`
+      UPDATE users SET lastfm_session_key = 'lfm-key', lastfm_username = 'rj',
+        tidal_access_token = 'tidal-access', tidal_refresh_token = 'tidal-refresh'
+      WHERE id = 'u_a'
+    `).run();
+    runMigrations(db);
+
+    const rows = db.prepare('SELECT provider, access_token, refresh_token, provider_username FROM connected_accounts ORDER BY provider')
+      .all() as { provider: string; access_token: string; refresh_token: string | null; provider_username: string | null }[];
+    expect(rows.map((r) => r.provider)).toEqual(['lastfm', 'tidal']);
+    expect(rows[0].access_token).not.toContain('lfm-key');
+    expect(decryptToken(rows[0].access_token)).toBe('lfm-key');
+    expect(rows[0].provider_username).toBe('rj');
+    expect(decryptToken(rows[1].refresh_token!)).toBe('tidal-refresh');
+    expect(columns(db, 'users')).not.toContain('tidal_access_token');
+  });
+
+  it('runs only migrations above the current version', () => {
+    const db = openDb();
+    const ran: number[] = [];
+    const migrations: Migration[] = [1, 2, 3].map((version) => ({
+      version,
+      name: `m${version}`,
+      up: () => { ran.push(version); },
+    }));
+
+    runMigrations(db, migrations.slice(0, 2));
+    runMigrations(db, migrations);
+
+    expect(ran).toEqual([1, 2, 3]);
+    expect(schemaVersion(db)).toBe(3);
+  });
+
+  it('rolls back a migration that fails', () => {
+    const db = openDb();
+    const migrations: Migration[] = [
+      { version: 1, name: 'ok', up: (d) => d.exec('CREATE TABLE kept (id TEXT)') },
+      { version: 2, name: 'broken', up: (d) => { d.exec('CREATE TABLE dropped (id TEXT)'); throw new Error('boom'); } },
+    ];
+
+    expect(() => runMigrations(db, migrations)).toThrow('boom');
+    expect(schemaVersion(db)).toBe(1);
+    expect(tables(db)).toContain('kept');
+    expect(tables(db)).not.toContain('dropped');
+  });
+
+  it('refuses a database from a newer build', () => {
+    const db = openDb();
+    db.pragma(`user_version = ${LATEST + 1}`);
+    expect(() => runMigrations(db)).toThrow(/newer than this build/);
+  });
+});
+
+// ─── migrationStatus ────────────────────────────────────────
+
+describe('migrationStatus', () => {
+  it('lists applied and pending migrations', () => {
+    const db = openDb();
+    runMigrations(db, MIGRATIONS.slice(0, 2));
+
+    const status = migrationStatus(db);
+    expect(status).toHaveLength(MIGRATIONS.length);
+    expect(status[0].appliedAt).not.toBeNull();
+    expect(status[1].appliedAt).not.toBeNull();
+    expect(status[2].appliedAt).toBeNull();
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * OAuth State — Tests
+ *
+ * Coverage:
+ *   issueOAuthState / consumeOAuthState — signing, single use, expiry, provider binding
+ *   GET /api/auth/soundcloud/authorize  — authorize URL with state + PKCE
+ *   GET /api/auth/soundcloud/callback   — connects the user who started the flow
+ *
+ * The SoundCloud token endpoint is stubbed by mocking global fetch.
+ */
+
+import path from 'path';
+import crypto from 'crypto';
+
+process.env.NODE_ENV = 'test';
+const TEST_DB_PATH = path.join('/tmp', `frequenc_oauth_state_test_${Date.now()}.db`);
+process.env.DB_PATH = TEST_DB_PATH;
+
+import fs from 'fs';
+import express from 'express';
+import request from 'supertest';
+import { signToken } from '../auth';
+import { UsersRepo } from '../repositories';
+import { mountIntegrations } from '../integrations';
+import { getAccount } from '../services/connectedAccounts';
+import { issueOAuthState, consumeOAuthState, OAUTH_STATE_TTL_MS } from '../services/oauthState';
+
+// ─── Helpers ────────────────────────────────────────────────
+
+const REDIRECT_URI = 'https://frequenc.test/api/auth/soundcloud/callback';
+
+const testApp = express();
+mountIntegrations(testApp, {
+  SOUNDCLOUD_CLIENT_ID: 'sc-client',
+  SOUNDCLOUD_CLIENT_SECRET: 'sc-secret',
+  SOUNDCLOUD_REDIRECT_URI: REDIRECT_URI,
+});
+
+let token = '';
+
+/** Start the flow as the test user and return the authorize URL's params */
+async function authorize(): Promise<URLSearchParams> {
+  const res = await request(testApp)
+    .get('/api/auth/soundcloud/authorize')
+    .set('Authorization', `Bearer ${token}`)
+    .expect(200);
+  return new URL(res.body.url).searchParams;
+}
+
+function mockTokenEndpoint() {
+  return jest.spyOn(global, 'fetch').mockImplementation(async () =>
+    Response.json({ access_token: 'sc-access', refresh_token: 'sc-refresh', expires_in: 3600 }));
+}
+
+beforeAll(() => {
+  UsersRepo.create({ id: 'u_oauth', username: 'oauth', email: 'oauth@test.com', passwordHash: 'x' });
+  UsersRepo.create({ id: 'u_victim', username: 'victim', email: 'victim@test.com', passwordHash: 'x' });
+  token = signToken({ userId: 'u_oauth', username: 'oauth' });
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+afterAll(() => {
+  try {
+    if (fs.existsSync(TEST_DB_PATH)) fs.unlinkSync(TEST_DB_PATH);
+    if (fs.existsSync(TEST_DB_PATH + '-wal')) fs.unlinkSync(TEST_DB_PATH + '-wal');
+    if (fs.existsSync(TEST_DB_PATH + '-shm')) fs.unlinkSync(TEST_DB_PATH + '-shm');
+  } catch { /* ignore */ }
+});
+
+// ─── issueOAuthState / consumeOAuthState ────────────────────
+
+describe('oauth state', () => {
+  it('returns the user and a verifier matching the challenge, once', () => {
+    const { state, codeChallenge } = issueOAuthState('u_oauth', 'soundcloud');
+
+    const flow = consumeOAuthState(state, 'soundcloud');
+    expect(flow?.userId).toBe('u_oauth');
+    expect(crypto.createHash('sha256').update(flow!.codeVerifier).digest('base64url')).toBe(codeChallenge);
+
+    expect(consumeOAuthState(state, 'soundcloud')).toBeNull();
+  });
+
+  it('rejects forged and altered states', () => {
+    const { state } = issueOAuthState('u_oauth', 'soundcloud');
+    const [provider, nonce] = state.split('.');
+
+    expect(consumeOAuthState('u_victim', 'soundcloud')).toBeNull();
+    expect(consumeOAuthState(`${provider}.${nonce}.forged`, 'soundcloud')).toBeNull();
+    expect(consumeOAuthState(`tidal.${nonce}.${state.split('.')[2]}`, 'soundcloud')).toBeNull();
+    // The untouched state still works
+    expect(consumeOAuthState(state, 'soundcloud')?.userId).toBe('u_oauth');
+  });
+
+  it('is bound to its provider', () => {
+    const { state } = issueOAuthState('u_oauth', 'soundcloud');
+    expect(consumeOAuthState(state, 'tidal')).toBeNull();
+  });
+
+  it('expires', () => {
+    const { state } = issueOAuthState('u_oauth', 'soundcloud');
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now + OAUTH_STATE_TTL_MS + 1);
+    expect(consumeOAuthState(state, 'soundcloud')).toBeNull();
+  });
+});
+
+// ─── SoundCloud flow ────────────────────────────────────────
+
+describe('GET /api/auth/soundcloud/authorize', () => {
+  it('requires auth', async () => {
+    await request(testApp).get('/api/auth/soundcloud/authorize').expect(401);
+  });
+
+  it('returns the SoundCloud authorize URL with state and PKCE', async () => {
+    const params = await authorize();
+
+    expect(params.get('client_id')).toBe('sc-client');
+    expect(params.get('redirect_uri')).toBe(REDIRECT_URI);
+    expect(params.get('response_type')).toBe('code');
+    expect(params.get('code_challenge_method')).toBe('S256');
+    expect(params.get('code_challenge')).toBeTruthy();
+    expect(params.get('state')).not.toContain('u_oauth');
+  });
+});
+
+describe('GET /api/auth/soundcloud/callback', () => {
+  it('connects the user who started the flow', async () => {
+    const fetchMock = mockTokenEndpoint();
+    const params = await authorize();
+
+    await request(testApp)
+      .get(`/api/auth/soundcloud/callback?code=abc&state=${encodeURIComponent(params.get('state')!)}`)
+      .expect(302)
+      .expect('Location', 'frequenc://auth-success?service=soundcloud');
+
+    const body = new URLSearchParams(String((fetchMock.mock.calls[0][1] as RequestInit).body));
+    expect(body.get('code')).toBe('abc');
+    expect(crypto.createHash('sha256').update(body.get('code_verifier')!).digest('base64url'))
+      .toBe(params.get('code_challenge'));
+    expect(getAccount('u_oauth', 'soundcloud')).toMatchObject({ accessToken: 'sc-access', refreshToken: 'sc-refresh' });
+  });
+
+  it('rejects a user ID passed as state', async () => {
+    const fetchMock = mockTokenEndpoint();
+
+    await request(testApp).get('/api/auth/soundcloud/callback?code=abc&state=u_victim').expect(400);
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(getAccount('u_victim', 'soundcloud')).toBeNull();
+  });
+
+  it('rejects a replayed state', async () => {
+    mockTokenEndpoint();
+    const state = encodeURIComponent((await authorize()).get('state')!);
+
+    await request(testApp).get(`/api/auth/soundcloud/callback?code=abc&state=${state}`).expect(302);
+    await request(testApp).get(`/api/auth/soundcloud/callback?code=abc&state=${state}`).expect(400);
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Phantom Power — Tests
+ *
+ * Coverage:
+ *   powerTrack     — jump to the front, displaced listeners, per-user and room caps, balance
+ *   denyPowerMove  — moderator only, refund (or not), back into the normal order
+ */
+
+import path from 'path';
+
+process.env.NODE_ENV = 'test';
+const TEST_DB_PATH = path.join('/tmp', `frequenc_phantom_test_${Date.now()}.db`);
+process.env.DB_PATH = TEST_DB_PATH;
+
+import fs from 'fs';
+import db from '../database';
+import { UsersRepo, QueueRepo } from '../repositories';
+import { createUsers, createRoom, queueTrack } from './helpers/fixtures';
+import { getOrderedQueue } from '../services/queue';
+import { powerTrack, denyPowerMove } from '../services/phantomPower';
+import { SPEND_RULES } from '../services/voltage';
+
+// ─── Helpers ────────────────────────────────────────────────
+
+const USERS = ['host', 'alice', 'bob', 'carol', 'dave'];
+
+function balance(userId: string): number {
+  return UsersRepo.findById(userId)!.voltage_balance;
+}
+
+/**
+ * A spotlight room (plain position order) with one waiting track per
+ * "user:id" spec, in the order given
+ */
+function room(...specs: string[]): string {
+  const sessionId = createRoom('phantom', { roomMode: 'spotlight' });
+  specs.forEach((spec) => {
+    const [user, id] = spec.split(':');
+    queueTrack(sessionId, `${sessionId}_${id}`, { title: id, added_by_id: user });
+  });
+  return sessionId;
+}
+
+function order(sessionId: string): string[] {
+  return getOrderedQueue(sessionId).map((t) => t.id.replace(`${sessionId}_`, ''));
+}
+
+beforeAll(() => {
+  createUsers(...USERS);
+});
+
+beforeEach(() => {
+  db.prepare('UPDATE users SET voltage_balance = 100').run();
+});
+
+afterAll(() => {
+  try {
+    if (fs.existsSync(TEST_DB_PATH)) fs.unlinkSync(TEST_DB_PATH);
+    if (fs.existsSync(TEST_DB_PATH + '-wal')) fs.unlinkSync(TEST_DB_PATH + '-wal');
+    if (fs.existsSync(TEST_DB_PATH + '-shm')) fs.unlinkSync(TEST_DB_PATH + '-shm');
+  } catch { /* ignore */ }
+});
+
+// ─── powerTrack ─────────────────────────────────────────────
+
+describe('powerTrack', () => {
+  it('charges the owner and moves the track to the front', () => {
+    const s = room('bob:b1', 'carol:c1', 'alice:a1', 'dave:d1');
+
+    const { move, error } = powerTrack(s, 'alice', `${s}_a1`);
+
+    expect(error).toBeUndefined();
+    expect(move?.tx.amount).toBe(-SPEND_RULES.phantomPower);
+    expect(balance('alice')).toBe(100 - SPEND_RULES.phantomPower);
+    expect(order(s)).toEqual(['a1', 'b1', 'c1', 'd1']);
+  });
+
+  it('reports only the listeners it jumped ahead of', () => {
+    const s = room('bob:b1', 'alice:a0', 'carol:c1', 'alice:a1', 'dave:d1');
+    QueueRepo.setPoweredBy(`${s}_c1`, 'carol');   // already ahead — stays ahead
+
+    const { move } = powerTrack(s, 'alice', `${s}_a1`);
+
+    expect(order(s)).toEqual(['c1', 'a1', 'b1', 'a0', 'd1']);
+    expect(move?.displacedUserIds).toEqual(['bob']);
+  });
+
+  it("refuses someone else's track, the playing track and a powered one", () => {
+    const s = room('bob:b1', 'alice:a1', 'alice:a2');
+    QueueRepo.setCurrent(`${s}_a2`);
+
+    expect(powerTrack(s, 'alice', `${s}_b1`).error).toBe('You can only power your own tracks');
+    expect(powerTrack(s, 'alice', `${s}_a2`).error).toBe('Only queued tracks can be powered');
+    powerTrack(s, 'alice', `${s}_a1`);
+    expect(powerTrack(s, 'alice', `${s}_a1`).error).toBe('That track is already powered');
+    expect(balance('alice')).toBe(100 - SPEND_RULES.phantomPower);
+  });
+
+  it('caps power moves per listener, not counting refunded ones', () => {
+    const s = room('alice:a1', 'alice:a2', 'alice:a3');
+    powerTrack(s, 'alice', `${s}_a1`);
+    powerTrack(s, 'alice', `${s}_a2`);
+
+    expect(powerTrack(s, 'alice', `${s}_a3`).error).toBe("You've used all 2 power moves in this room");
+
+    denyPowerMove(s, 'host', `${s}_a1`);
+    expect(powerTrack(s, 'alice', `${s}_a3`).move).toBeDefined();
+  });
+
+  it('caps powered tracks waiting in the room at 3', () => {
+    const s = room('alice:a1', 'bob:b1', 'carol:c1', 'dave:d1');
+    for (const spec of ['alice:a1', 'bob:b1', 'carol:c1']) {
+      const [user, id] = spec.split(':');
+      expect(powerTrack(s, user, `${s}_${id}`).move).toBeDefined();
+    }
+
+    expect(powerTrack(s, 'dave', `${s}_d1`).error).toBe('Too many power moves waiting — try again after one plays');
+    expect(balance('dave')).toBe(100);
+  });
+
+  it('charges nothing without enough voltage', () => {
+    const s = room('bob:b1', 'alice:a1');
+    db.prepare("UPDATE users SET voltage_balance = ? WHERE id = 'alice'").run(SPEND_RULES.phantomPower - 1);
+
+    expect(powerTrack(s, 'alice', `${s}_a1`).error).toMatch(/^Not enough voltage/);
+    expect(order(s)).toEqual(['b1', 'a1']);
+    expect(balance('alice')).toBe(SPEND_RULES.phantomPower - 1);
+  });
+});
+
+// ─── denyPowerMove ──────────────────────────────────────────
+
+describe('denyPowerMove', () => {
+  it('refunds the owner and puts the track back in order', () => {
+    const s = room('bob:b1', 'alice:a1');
+    powerTrack(s, 'alice', `${s}_a1`);
+
+    const denial = denyPowerMove(s, 'host', `${s}_a1`);
+
+    expect(denial?.tx).toMatchObject({ userId: 'alice', amount: SPEND_RULES.phantomPower, reason: 'phantom_power_refund' });
+    expect(balance('alice')).toBe(100);
+    expect(order(s)).toEqual(['b1', 'a1']);
+  });
+
+  it('can deny without a refund', () => {
+    const s = room('bob:b1', 'alice:a1');
+    powerTrack(s, 'alice', `${s}_a1`);
+
+    expect(denyPowerMove(s, 'host', `${s}_a1`, false)?.tx).toBeNull();
+    expect(balance('alice')).toBe(100 - SPEND_RULES.phantomPower);
+    expect(order(s)).toEqual(['b1', 'a1']);
+  });
+
+  it('is for queue moderators, and only for powered tracks', () => {
+    const s = room('bob:b1', 'alice:a1');
+
+    expect(denyPowerMove(s, 'host', `${s}_a1`)).toBeNull();
+
+    powerTrack(s, 'alice', `${s}_a1`);
+    expect(denyPowerMove(s, 'bob', `${s}_a1`)).toBeNull();
+    expect(order(s)).toEqual(['a1', 'b1']);
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Room Playback State — Tests
+ *
+ * Coverage:
+ *   restorePlayback — reload after a restart: same track, track gone from the
+ *                     queue, elapsed time past the track's end, ended sessions
+ *
+ * Rows are written straight to playback_state, as a previous process left them.
+ */
+
+import path from 'path';
+
+process.env.NODE_ENV = 'test';
+const TEST_DB_PATH = path.join('/tmp', `frequenc_playback_test_${Date.now()}.db`);
+process.env.DB_PATH = TEST_DB_PATH;
+
+import fs from 'fs';
+import db from '../database';
+import { QueueRepo } from '../repositories';
+import { createUsers, createRoom, queueTrack } from './helpers/fixtures';
+import { restorePlayback, getPlayback, getPlaybackSnapshot, getPlayingSessions } from '../services/playback';
+
+// ─── Helpers ────────────────────────────────────────────────
+
+const NOW = Date.now();
+
+/** A live room whose queue holds `<room>_t1` (180s) and `<room>_t2`; `current` is playing */
+function room(current: 't1' | 't2' | null = 't1'): string {
+  const sessionId = createRoom('pb');
+  ['t1', 't2'].forEach((id) => queueTrack(sessionId, `${sessionId}_${id}`, { title: id }));
+  if (current) QueueRepo.setCurrent(`${sessionId}_${current}`);
+  return sessionId;
+}
+
+/** What the previous process persisted before it stopped */
+function persisted(sessionId: string, trackId: string, state: string, position: number, updatedAt: number) {
+  db.prepare('INSERT INTO playback_state (session_id, track_id, state, position, updated_at) VALUES (?, ?, ?, ?, ?)')
+    .run(sessionId, trackId, state, position, updatedAt);
+}
+
+function storedRow(sessionId: string) {
+  return db.prepare('SELECT track_id, state, position FROM playback_state WHERE session_id = ?').get(sessionId);
+}
+
+beforeAll(() => {
+  createUsers('host');
+});
+
+beforeEach(() => {
+  db.prepare('DELETE FROM playback_state').run();
+});
+
+afterAll(() => {
+  try {
+    if (fs.existsSync(TEST_DB_PATH)) fs.unlinkSync(TEST_DB_PATH);
+    if (fs.existsSync(TEST_DB_PATH + '-wal')) fs.unlinkSync(TEST_DB_PATH + '-wal');
+    if (fs.existsSync(TEST_DB_PATH + '-shm')) fs.unlinkSync(TEST_DB_PATH + '-shm');
+  } catch { /* ignore */ }
+});
+
+// ─── restorePlayback ────────────────────────────────────────
+
+describe('restorePlayback', () => {
+  it('picks a playing room up where the clock says it should be', () => {
+    const s = room();
+    persisted(s, `${s}_t1`, 'playing', 40, NOW - 20_000);
+
+    expect(restorePlayback()).toBe(1);
+
+    expect(getPlayback(s)).toEqual({ state: 'playing', position: 40, timestamp: NOW - 20_000, trackId: `${s}_t1` });
+    expect(getPlaybackSnapshot(s, NOW).position).toBeCloseTo(60);
+    expect(getPlayingSessions()).toContain(s);
+  });
+
+  it('keeps a paused room where it stopped', () => {
+    const s = room();
+    persisted(s, `${s}_t1`, 'paused', 95, NOW - 60 * 60_000);
+
+    restorePlayback();
+
+    expect(getPlaybackSnapshot(s, NOW)).toMatchObject({ state: 'paused', position: 95 });
+  });
+
+  it('caps a track that would have ended while the server was down at its duration', () => {
+    const s = room();
+    persisted(s, `${s}_t1`, 'playing', 150, NOW - 10 * 60_000);
+
+    restorePlayback();
+
+    // Still "playing" at the very end, so auto-advance moves the room on
+    expect(getPlaybackSnapshot(s, NOW)).toMatchObject({ state: 'playing', position: 180, trackId: `${s}_t1` });
+    expect(getPlayingSessions()).toContain(s);
+  });
+
+  it('restarts paused on the current track when the persisted one left the queue', () => {
+    const s = room('t2');
+    persisted(s, `${s}_t1`, 'playing', 120, NOW - 5_000);
+
+    expect(restorePlayback()).toBe(1);
+
+    expect(getPlayback(s)).toMatchObject({ state: 'paused', position: 0, trackId: `${s}_t2` });
+    expect(storedRow(s)).toEqual({ track_id: `${s}_t2`, state: 'paused', position: 0 });
+    expect(getPlayingSessions()).not.toContain(s);
+  });
+
+  it('drops a room with nothing playing any more', () => {
+    const s = room(null);
+    persisted(s, `${s}_t1`, 'playing', 10, NOW - 5_000);
+
+    expect(restorePlayback()).toBe(0);
+
+    expect(getPlayback(s)).toBeUndefined();
+    expect(storedRow(s)).toBeUndefined();
+  });
+
+  it('deletes rows left by sessions that have ended', () => {
+    const s = room();
+    persisted(s, `${s}_t1`, 'playing', 10, NOW - 5_000);
+    db.prepare('UPDATE sessions SET is_live = 0 WHERE id = ?').run(s);
+
+    expect(restorePlayback()).toBe(0);
+
+    expect(getPlayback(s)).toBeUndefined();
+    expect(storedRow(s)).toBeUndefined();
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Playback Clock — Tests
+ *
+ * Coverage:
+ *   clockFor   — the room clock payload
+ *   checkDrift — threshold, direction, wrong-track resync, nothing to sync to
+ */
+
+import path from 'path';
+
+process.env.NODE_ENV = 'test';
+const TEST_DB_PATH = path.join('/tmp', `frequenc_clock_test_${Date.now()}.db`);
+process.env.DB_PATH = TEST_DB_PATH;
+
+import fs from 'fs';
+import { createUsers, createRoom, queueTrack } from './helpers/fixtures';
+import { setPlayback, clearPlayback, PlaybackState } from '../services/playback';
+import { clockFor, checkDrift, DRIFT_THRESHOLD_SEC } from '../services/playbackClock';
+
+// ─── Helpers ────────────────────────────────────────────────
+
+const SESSION = 'ses_clock';
+const TRACK = 'qt_clock';
+const NOW = Date.parse('2026-01-01T12:00:00Z');
+
+/** The room's playback, recorded at NOW (the track is 200s long) */
+function playing(position: number, state: PlaybackState['state'] = 'playing') {
+  setPlayback(SESSION, { state, position, timestamp: NOW, trackId: TRACK });
+}
+
+beforeAll(() => {
+  createUsers('host');
+  createRoom('clock', { id: SESSION });
+  queueTrack(SESSION, TRACK, { duration: 200 });
+});
+
+afterEach(() => {
+  clearPlayback(SESSION);
+});
+
+afterAll(() => {
+  try {
+    if (fs.existsSync(TEST_DB_PATH)) fs.unlinkSync(TEST_DB_PATH);
+    if (fs.existsSync(TEST_DB_PATH + '-wal')) fs.unlinkSync(TEST_DB_PATH + '-wal');
+    if (fs.existsSync(TEST_DB_PATH + '-shm')) fs.unlinkSync(TEST_DB_PATH + '-shm');
+  } catch { /* ignore */ }
+});
+
+// ─── clockFor ───────────────────────────────────────────────
+
+describe('clockFor', () => {
+  it('carries a playing room forward to now', () => {
+    playing(30);
+    expect(clockFor(SESSION, NOW + 10_000)).toEqual({ trackId: TRACK, state: 'playing', position: 40, serverTime: NOW + 10_000 });
+  });
+
+  it('holds a paused room still', () => {
+    playing(30, 'paused');
+    expect(clockFor(SESSION, NOW + 10_000).position).toBe(30);
+  });
+
+  it('reports a stopped room with nothing loaded', () => {
+    expect(clockFor(SESSION, NOW)).toEqual({ trackId: null, state: 'stopped', position: 0, serverTime: NOW });
+  });
+});
+
+// ─── checkDrift ─────────────────────────────────────────────
+
+describe('checkDrift', () => {
+  it('leaves listeners within the threshold alone', () => {
+    playing(30);
+    expect(checkDrift(SESSION, { position: 40, trackId: TRACK }, NOW + 10_000)).toBeNull();
+    expect(checkDrift(SESSION, { position: 40 + DRIFT_THRESHOLD_SEC, trackId: TRACK }, NOW + 10_000)).toBeNull();
+    expect(checkDrift(SESSION, { position: 40 - DRIFT_THRESHOLD_SEC }, NOW + 10_000)).toBeNull();
+  });
+
+  it('corrects a listener running ahead or behind, with the signed drift', () => {
+    playing(30);
+
+    expect(checkDrift(SESSION, { position: 45, trackId: TRACK }, NOW + 10_000)).toEqual({
+      trackId: TRACK, state: 'playing', position: 40, serverTime: NOW + 10_000, drift: 5,
+    });
+    expect(checkDrift(SESSION, { position: 37.5 }, NOW + 10_000)?.drift).toBe(-2.5);
+  });
+
+  it('measures against the end of the track once it has run out', () => {
+    playing(190);
+    expect(checkDrift(SESSION, { position: 200 }, NOW + 60_000)).toBeNull();
+    expect(checkDrift(SESSION, { position: 230 }, NOW + 60_000)).toMatchObject({ position: 200, drift: 30 });
+  });
+
+  it('always resyncs a listener on the wrong track', () => {
+    playing(30);
+    expect(checkDrift(SESSION, { position: 40, trackId: 'qt_other' }, NOW + 10_000)).toEqual({
+      trackId: TRACK, state: 'playing', position: 40, serverTime: NOW + 10_000, drift: null,
+    });
+  });
+
+  it('corrects paused rooms too', () => {
+    playing(30, 'paused');
+    expect(checkDrift(SESSION, { position: 40 }, NOW + 10_000)).toMatchObject({ state: 'paused', position: 30, drift: 10 });
+  });
+
+  it('has nothing to say when the room is stopped or has no track', () => {
+    expect(checkDrift(SESSION, { position: 40 }, NOW)).toBeNull();
+
+    playing(30, 'stopped');
+    expect(checkDrift(SESSION, { position: 40, trackId: 'qt_other' }, NOW)).toBeNull();
+
+    setPlayback(SESSION, { state: 'playing', position: 0, timestamp: NOW });
+    expect(checkDrift(SESSION, { position: 40 }, NOW)).toBeNull();
+  });
+});
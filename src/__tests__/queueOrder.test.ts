@@ -0,0 +1,174 @@
+/**
+ * Queue Ordering — Unit Tests
+ *
+ * Coverage:
+ *   orderCampfire   — round-robin with play-history fairness and listening-time weighting
+ *   scoreOpenFloor  — vote decay, age boost, voter engagement
+ *   orderOpenFloor  — score ranking with position tiebreak
+ *   isDownvotedOut  — downvote auto-removal threshold
+ */
+
+import {
+  orderCampfire,
+  CampfireContext,
+  LISTENING_WEIGHT_CAP_MS,
+  scoreOpenFloor,
+  orderOpenFloor,
+  isDownvotedOut,
+  DEFAULT_OPEN_FLOOR_CONFIG,
+  OpenFloorConfig,
+} from '../services/queueOrder';
+
+// ─── Helpers ────────────────────────────────────────────────
+
+const NOW = Date.parse('2026-01-01T12:00:00Z');
+const MIN = 60 * 1000;
+
+/** Build queue rows from "user:title" specs, positions in the order given */
+function tracks(...specs: string[]) {
+  return specs.map((spec, i) => {
+    const [user, title] = spec.split(':');
+    return { id: title, added_by_id: user, position: i };
+  });
+}
+
+function order(rows: ReturnType<typeof tracks>, ctx: Partial<CampfireContext> = {}) {
+  return orderCampfire(rows, { now: NOW, lastPlayedAt: {}, ...ctx }).map((t) => t.id);
+}
+
+// ─── orderCampfire ──────────────────────────────────────────
+
+describe('orderCampfire', () => {
+  it('returns an empty queue unchanged', () => {
+    expect(order([])).toEqual([]);
+  });
+
+  it('interleaves one track per user per round', () => {
+    const rows = tracks('alice:a1', 'alice:a2', 'bob:b1', 'carol:c1', 'bob:b2');
+    expect(order(rows)).toEqual(['a1', 'b1', 'c1', 'a2', 'b2']);
+  });
+
+  it("keeps each user's own tracks in position order", () => {
+    const rows = tracks('alice:a2', 'alice:a1').map((t, i) => ({ ...t, position: 1 - i }));
+    expect(order(rows)).toEqual(['a1', 'a2']);
+  });
+
+  it('puts whoever just had a track play at the back of the round', () => {
+    const rows = tracks('alice:a1', 'bob:b1', 'carol:c1');
+    const lastPlayedAt = { alice: NOW - 1 * MIN, bob: NOW - 10 * MIN, carol: NOW - 5 * MIN };
+    expect(order(rows, { lastPlayedAt })).toEqual(['b1', 'c1', 'a1']);
+  });
+
+  it("lets people who haven't played yet go before everyone who has", () => {
+    const rows = tracks('alice:a1', 'bob:b1', 'carol:c1');
+    const lastPlayedAt = { alice: NOW - 60 * MIN };
+    expect(order(rows, { lastPlayedAt })).toEqual(['b1', 'c1', 'a1']);
+  });
+
+  it('rotates the starting point as tracks play', () => {
+    const rows = tracks('alice:a1', 'bob:b1', 'alice:a2', 'bob:b2');
+
+    // Alice's track just played → Bob starts the round
+    expect(order(rows, { lastPlayedAt: { alice: NOW, bob: NOW - 5 * MIN } })).toEqual(['b1', 'a1', 'b2', 'a2']);
+    // Then Bob's plays → Alice starts
+    expect(order(rows, { lastPlayedAt: { alice: NOW - 4 * MIN, bob: NOW } })).toEqual(['a1', 'b1', 'a2', 'b2']);
+  });
+
+  it('keeps the same contributor order in later rounds', () => {
+    const rows = tracks('alice:a1', 'alice:a2', 'alice:a3', 'bob:b1', 'bob:b2', 'carol:c1');
+    const lastPlayedAt = { alice: NOW, bob: NOW - 2 * MIN, carol: NOW - 1 * MIN };
+    expect(order(rows, { lastPlayedAt })).toEqual(['b1', 'c1', 'a1', 'b2', 'a2', 'a3']);
+  });
+
+  describe('with listening-time weighting', () => {
+    it('ignores listening time when weighting is off', () => {
+      const rows = tracks('alice:a1', 'bob:b1');
+      const joinedAt = { alice: NOW - 1 * MIN, bob: NOW - 90 * MIN };
+      expect(order(rows, { joinedAt })).toEqual(['a1', 'b1']);
+    });
+
+    it('orders first-timers by how long they have been listening', () => {
+      const rows = tracks('alice:a1', 'bob:b1');
+      const joinedAt = { alice: NOW - 1 * MIN, bob: NOW - 90 * MIN };
+      expect(order(rows, { joinedAt, weightByListening: true })).toEqual(['b1', 'a1']);
+    });
+
+    it('scales waits by up to 2× for long-standing listeners', () => {
+      const rows = tracks('alice:a1', 'bob:b1');
+      // Alice has waited longer, but Bob's full listening credit doubles his wait
+      const lastPlayedAt = { alice: NOW - 10 * MIN, bob: NOW - 6 * MIN };
+      const joinedAt = { alice: NOW - 10 * MIN, bob: NOW - LISTENING_WEIGHT_CAP_MS * 3 };
+      expect(order(rows, { lastPlayedAt, joinedAt, weightByListening: true })).toEqual(['b1', 'a1']);
+      expect(order(rows, { lastPlayedAt, joinedAt })).toEqual(['a1', 'b1']);
+    });
+  });
+});
+
+// ─── Open Floor ─────────────────────────────────────────────
+
+/** A queued row added `ageMin` minutes before NOW, with the given votes */
+function floorTrack(id: string, ageMin: number, votes: number[] = [], position = 0) {
+  const addedAt = new Date(NOW - ageMin * MIN).toISOString().replace('T', ' ').slice(0, 19);
+  const votedBy = Object.fromEntries(votes.map((v, i) => [`user${i}`, v]));
+  return { id, position, added_at: addedAt, voted_by: JSON.stringify(votedBy) };
+}
+
+const NO_EXTRAS: OpenFloorConfig = { ...DEFAULT_OPEN_FLOOR_CONFIG, ageBoostPerMin: 0, voterWeight: 0 };
+
+describe('scoreOpenFloor', () => {
+  it('scores a fresh track by its net votes', () => {
+    expect(scoreOpenFloor(floorTrack('t', 0, [1, 1, -1]), NOW, NO_EXTRAS)).toBe(1);
+  });
+
+  it('halves vote weight every voteHalfLifeMin', () => {
+    const config = { ...NO_EXTRAS, voteHalfLifeMin: 10 };
+    expect(scoreOpenFloor(floorTrack('t', 10, [1, 1, 1, 1]), NOW, config)).toBe(2);
+    expect(scoreOpenFloor(floorTrack('t', 20, [1, 1, 1, 1]), NOW, config)).toBe(1);
+  });
+
+  it('adds an age boost, capped at maxAgeBoost', () => {
+    const config = { ...NO_EXTRAS, ageBoostPerMin: 0.5, maxAgeBoost: 3 };
+    expect(scoreOpenFloor(floorTrack('t', 4, []), NOW, config)).toBe(2);
+    expect(scoreOpenFloor(floorTrack('t', 60, []), NOW, config)).toBe(3);
+  });
+
+  it('counts every voter, up or down, toward engagement', () => {
+    const config = { ...NO_EXTRAS, voterWeight: 0.5 };
+    expect(scoreOpenFloor(floorTrack('t', 0, [1, -1]), NOW, config)).toBe(1);
+  });
+});
+
+describe('orderOpenFloor', () => {
+  it('ranks by score and attaches it to each row', () => {
+    const rows = [floorTrack('low', 0, [], 0), floorTrack('high', 0, [1, 1], 1)];
+    const ordered = orderOpenFloor(rows, NOW, DEFAULT_OPEN_FLOOR_CONFIG);
+
+    expect(ordered.map((t) => t.id)).toEqual(['high', 'low']);
+    expect(ordered[0].score).toBeGreaterThan(ordered[1].score);
+  });
+
+  it('breaks ties by queue position', () => {
+    const rows = [floorTrack('second', 0, [], 1), floorTrack('first', 0, [], 0)];
+    expect(orderOpenFloor(rows, NOW, DEFAULT_OPEN_FLOOR_CONFIG).map((t) => t.id)).toEqual(['first', 'second']);
+  });
+
+  it("lets an early favourite's lead fade behind tracks that have waited", () => {
+    // Popular an hour ago vs. a track that's been waiting a while with one upvote
+    const rows = [floorTrack('oldHit', 120, [1, 1, 1], 0), floorTrack('newer', 30, [1], 1)];
+    expect(orderOpenFloor(rows, NOW, DEFAULT_OPEN_FLOOR_CONFIG).map((t) => t.id)).toEqual(['newer', 'oldHit']);
+  });
+});
+
+describe('isDownvotedOut', () => {
+  it('removes a track at the net downvote threshold', () => {
+    const config = { ...DEFAULT_OPEN_FLOOR_CONFIG, downvoteRemoval: 2 };
+    expect(isDownvotedOut(JSON.stringify({ a: -1 }), config)).toBe(false);
+    expect(isDownvotedOut(JSON.stringify({ a: -1, b: -1 }), config)).toBe(true);
+    expect(isDownvotedOut(JSON.stringify({ a: -1, b: -1, c: 1 }), config)).toBe(false);
+  });
+
+  it('never removes when downvoteRemoval is null', () => {
+    const config = { ...DEFAULT_OPEN_FLOOR_CONFIG, downvoteRemoval: null };
+    expect(isDownvotedOut(JSON.stringify({ a: -1, b: -1, c: -1, d: -1 }), config)).toBe(false);
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Queue Rules — Tests
+ *
+ * Coverage:
+ *   checkQueueRules — one case per rejection code: INVALID_TRACK, QUEUE_FULL,
+ *                     USER_QUEUE_LIMIT, COOLDOWN, TRACK_TOO_LONG,
+ *                     EXPLICIT_TRACK, DUPLICATE_TRACK; curators skip the
+ *                     per-user cap and the cooldown
+ *   Cooldown         — runs from when the track ended, not when it started
+ */
+
+import path from 'path';
+
+process.env.NODE_ENV = 'test';
+const TEST_DB_PATH = path.join('/tmp', `frequenc_rules_test_${Date.now()}.db`);
+process.env.DB_PATH = TEST_DB_PATH;
+process.env.QUEUE_MAX_LENGTH = '8';
+process.env.QUEUE_COOLDOWN_SECONDS = '60';
+
+import fs from 'fs';
+import db from '../database';
+import { QueueRepo } from '../repositories';
+import { createUsers, createRoom, queueTrack } from './helpers/fixtures';
+import { updateSettings } from '../services/sessionSettings';
+import { checkQueueRules, MAX_QUEUE_LENGTH } from '../services/queueRules';
+
+// ─── Helpers ────────────────────────────────────────────────
+
+let trackCount = 0;
+
+/** A fresh campfire room with an empty queue */
+const room = () => createRoom('rules');
+
+/** Queue a track from `userId`; returns its queue ID */
+function queue(sessionId: string, userId: string, title = `Song ${trackCount + 1}`, duration = 180): string {
+  const id = `qt_rules_${++trackCount}`;
+  return queueTrack(sessionId, id, { title, duration, source_id: `src_${trackCount}`, added_by_id: userId });
+}
+
+/** Make `trackId` the one playing, started `secondsAgo` seconds ago */
+function playing(trackId: string, secondsAgo: number) {
+  QueueRepo.setCurrent(trackId);
+  db.prepare("UPDATE queue_tracks SET started_at = datetime('now', ?) WHERE id = ?").run(`-${secondsAgo} seconds`, trackId);
+}
+
+/** A track of `userId`'s already in history, ended `secondsAgo` seconds ago */
+function played(sessionId: string, userId: string, secondsAgo: number, duration = 180) {
+  db.prepare(`
+    INSERT INTO played_tracks (id, session_id, title, artist, duration, added_by_id, added_by_username, outcome, started_at, ended_at)
+    VALUES (?, ?, 'Old Song', 'Artist', ?, ?, ?, 'completed', datetime('now', ?), datetime('now', ?))
+  `).run(`qt_rules_${++trackCount}`, sessionId, duration, userId, userId, `-${secondsAgo + duration} seconds`, `-${secondsAgo} seconds`);
+}
+
+const track = (overrides: Record<string, unknown> = {}) => ({ title: 'New Song', artist: 'New Artist', duration: 200, ...overrides });
+
+beforeAll(() => {
+  createUsers('host', 'alice', 'bob');
+});
+
+afterAll(() => {
+  try {
+    if (fs.existsSync(TEST_DB_PATH)) fs.unlinkSync(TEST_DB_PATH);
+    if (fs.existsSync(TEST_DB_PATH + '-wal')) fs.unlinkSync(TEST_DB_PATH + '-wal');
+    if (fs.existsSync(TEST_DB_PATH + '-shm')) fs.unlinkSync(TEST_DB_PATH + '-shm');
+  } catch { /* ignore */ }
+});
+
+// ─── Rejection codes ────────────────────────────────────────
+
+describe('checkQueueRules', () => {
+  it('accepts a track that breaks no rule', () => {
+    const s = room();
+    queue(s, 'bob');
+    expect(checkQueueRules(s, 'alice', track())).toBeNull();
+  });
+
+  it.each([
+    [null],
+    [{ artist: 'Artist' }],
+    [{ title: '  ', artist: 'Artist' }],
+    [{ title: 'Song', artist: 42 }],
+  ])('INVALID_TRACK: rejects %p', (bad) => {
+    expect(checkQueueRules(room(), 'alice', bad)).toMatchObject({ code: 'INVALID_TRACK' });
+  });
+
+  it('QUEUE_FULL: rejects everyone, curators included, once the queue is at its limit', () => {
+    const s = room();
+    for (let i = 0; i < MAX_QUEUE_LENGTH; i++) queue(s, 'host');
+
+    expect(checkQueueRules(s, 'alice', track())).toMatchObject({ code: 'QUEUE_FULL' });
+    expect(checkQueueRules(s, 'host', track(), { isCurator: true })).toMatchObject({ code: 'QUEUE_FULL' });
+  });
+
+  it("USER_QUEUE_LIMIT: rejects a listener with their slots' worth waiting", () => {
+    const s = room();
+    updateSettings(s, { maxQueuePerUser: 2 });
+    queue(s, 'alice');
+    queue(s, 'alice');
+
+    expect(checkQueueRules(s, 'alice', track())).toMatchObject({ code: 'USER_QUEUE_LIMIT', slots: 2 });
+    expect(checkQueueRules(s, 'bob', track())).toBeNull();
+    expect(checkQueueRules(s, 'alice', track(), { isCurator: true })).toBeNull();
+  });
+
+  it('COOLDOWN: rejects a listener whose track just finished while others wait', () => {
+    const s = room();
+    played(s, 'alice', 20);
+    queue(s, 'bob');
+
+    const rejection = checkQueueRules(s, 'alice', track());
+    expect(rejection).toMatchObject({ code: 'COOLDOWN' });
+    expect(rejection?.retryAfter).toBeGreaterThanOrEqual(39);
+    expect(rejection?.retryAfter).toBeLessThanOrEqual(41);
+    expect(checkQueueRules(s, 'alice', track(), { isCurator: true })).toBeNull();
+  });
+
+  it('TRACK_TOO_LONG: rejects tracks over the room limit', () => {
+    const s = room();
+    updateSettings(s, { maxTrackDuration: 300 });
+
+    expect(checkQueueRules(s, 'alice', track({ duration: 301 }))).toMatchObject({ code: 'TRACK_TOO_LONG', maxDuration: 300 });
+    expect(checkQueueRules(s, 'alice', track({ duration: 300 }))).toBeNull();
+  });
+
+  it('EXPLICIT_TRACK: rejects explicit tracks when the room filters them', () => {
+    const s = room();
+    expect(checkQueueRules(s, 'alice', track({ explicit: true }))).toBeNull();
+
+    updateSettings(s, { explicitFilter: true });
+    expect(checkQueueRules(s, 'alice', track({ explicit: true }))).toMatchObject({ code: 'EXPLICIT_TRACK' });
+    expect(checkQueueRules(s, 'alice', track({ explicit: false }))).toBeNull();
+  });
+
+  it('DUPLICATE_TRACK: rejects the same song however it is spelled, unless the room allows it', () => {
+    const s = room();
+    const existing = queue(s, 'bob', 'New Song');
+
+    expect(checkQueueRules(s, 'alice', track({ title: 'New Song (Remastered)', artist: 'Artist' })))
+      .toMatchObject({ code: 'DUPLICATE_TRACK', existingTrackId: existing });
+
+    updateSettings(s, { allowDuplicates: true });
+    expect(checkQueueRules(s, 'alice', track({ title: 'New Song', artist: 'Artist' }))).toBeNull();
+  });
+});
+
+// ─── Cooldown timing ────────────────────────────────────────
+
+describe('post-play cooldown', () => {
+  it('runs from when the track ended, however long it was', () => {
+    const s = room();
+    played(s, 'alice', 30, 600);   // a ten-minute track that started over ten minutes ago
+    queue(s, 'bob');
+
+    expect(checkQueueRules(s, 'alice', track())).toMatchObject({ code: 'COOLDOWN' });
+  });
+
+  it('holds for the whole of a long track still playing', () => {
+    const s = room();
+    playing(queue(s, 'alice', 'Epic', 600), 300);
+    queue(s, 'bob');
+
+    const rejection = checkQueueRules(s, 'alice', track());
+    expect(rejection).toMatchObject({ code: 'COOLDOWN' });
+    // 300s left to play, then the cooldown
+    expect(rejection?.retryAfter).toBeGreaterThanOrEqual(359);
+    expect(rejection?.retryAfter).toBeLessThanOrEqual(361);
+  });
+
+  it('is over once the cooldown has passed since the end', () => {
+    const s = room();
+    played(s, 'alice', 61);
+    queue(s, 'bob');
+
+    expect(checkQueueRules(s, 'alice', track())).toBeNull();
+  });
+
+  it('does not apply when nobody else is waiting', () => {
+    const s = room();
+    played(s, 'alice', 5);
+
+    expect(checkQueueRules(s, 'alice', track())).toBeNull();
+  });
+});
@@ -4,6 +4,7 @@
  * Coverage:
  *   GET /api/search/users      — Search users by username
  *   GET /api/search/sessions   — Search public sessions
+ *   GET /api/voltage/history   — Voltage ledger
  *   GET /api/health            — Health check
  */
 
@@ -114,3 +115,23 @@ describe('GET /api/search/sessions', () => {
     expect(res.body.sessions).toHaveLength(0);
   });
 });
+
+// ─── GET /api/voltage/history ───────────────────────────────
+
+describe('GET /api/voltage/history', () => {
+  it('returns the starting balance with an empty ledger', async () => {
+    const res = await request(app)
+      .get('/api/voltage/history')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+
+    expect(res.body.balance).toBe(100);
+    expect(res.body.transactions).toEqual([]);
+  });
+
+  it('rejects unauthenticated requests', async () => {
+    await request(app)
+      .get('/api/voltage/history')
+      .expect(401);
+  });
+});
@@ -7,8 +7,20 @@
  *   GET    /api/sessions/mine     — User's rooms
  *   GET    /api/sessions/discover — Discovery feed
  *   GET    /api/sessions/:id      — Get one room
+ *   PATCH  /api/sessions/:id      — Update room settings
  *   POST   /api/sessions/join     — Join by code
+ *   GET    /api/sessions/:id/forecast/leaderboard — Forecast standings
+ *   GET    /api/sessions/:id/history — Play history
+ *   PUT    /api/sessions/:id/queue/:trackId/position — Move a track
+ *   PUT    /api/sessions/:id/queue/:trackId/pin      — Pin a track
+ *   DELETE /api/sessions/:id/queue/:trackId          — Remove a track
+ *   Track votes (track_votes, aggregated into the session's queue)
  *   POST   /api/sessions/:id/end  — End session (host only)
+ *   GET    /api/sessions/:id/recap — Recap of an ended session
+ *   GET    /api/sessions/:id/roles          — List roles
+ *   PUT    /api/sessions/:id/roles/:userId  — Grant a role
+ *   DELETE /api/sessions/:id/roles/:userId  — Revoke a role
+ *   Host succession (quit / disconnect handoff)
  */
 
 import path from 'path';
@@ -20,6 +32,10 @@ process.env.DB_PATH = TEST_DB_PATH;
 import fs from 'fs';
 import request from 'supertest';
 import { app } from '../index';
+import db from '../database';
+import { recordPlay } from '../services/playHistory';
+import { castTrackVote } from '../services/trackVotes';
+import { pickSuccessor, migrateHost } from '../services/sessionLifecycle';
 
 // ─── Setup ──────────────────────────────────────────────────
 
@@ -29,6 +45,7 @@ const GUEST_USER = { username: 'guest_user', email: 'guest@frequenc.app', passwo
 let hostToken = '';
 let hostUserId = '';
 let guestToken = '';
+let guestUserId = '';
 let sessionId = '';
 let joinCode = '';
 
@@ -39,6 +56,7 @@ beforeAll(async () => {
 
   const guestRes = await request(app).post('/api/auth/register').send(GUEST_USER);
   guestToken = guestRes.body.token;
+  guestUserId = guestRes.body.user.id;
 });
 
 afterAll(() => {
@@ -82,6 +100,41 @@ describe('POST /api/sessions', () => {
 
     expect(res.body.session.roomMode).toBe('campfire');
     expect(res.body.session.genre).toBe('Mixed');
+    expect(res.body.session.settings).toEqual({
+      maxQueuePerUser: 5,
+      allowDuplicates: false,
+      maxTrackDuration: null,
+      skipThreshold: 0.5,
+      chatEnabled: true,
+      explicitFilter: false,
+      weightByListening: false,
+      openFloor: {
+        voteHalfLifeMin: 20,
+        ageBoostPerMin: 0.1,
+        maxAgeBoost: 3,
+        voterWeight: 0.1,
+        downvoteRemoval: 3,
+      },
+      description: '',
+    });
+  });
+
+  it('accepts a skip-vote threshold', async () => {
+    const res = await request(app)
+      .post('/api/sessions')
+      .set('Authorization', `Bearer ${hostToken}`)
+      .send({ name: 'Strict Skips', roomMode: 'open_floor', skipThreshold: 0.75 })
+      .expect(201);
+
+    expect(res.body.session.settings.skipThreshold).toBe(0.75);
+  });
+
+  it('rejects an out-of-range skip threshold with 400', async () => {
+    await request(app)
+      .post('/api/sessions')
+      .set('Authorization', `Bearer ${hostToken}`)
+      .send({ name: 'Bad Skips', skipThreshold: 1.5 })
+      .expect(400);
   });
 
   it('rejects missing name with 400', async () => {
@@ -178,6 +231,90 @@ describe('GET /api/sessions/:id', () => {
   });
 });
 
+// ─── PATCH /api/sessions/:id ────────────────────────────────
+
+describe('PATCH /api/sessions/:id', () => {
+  it('lets the host update settings', async () => {
+    const res = await request(app)
+      .patch(`/api/sessions/${sessionId}`)
+      .set('Authorization', `Bearer ${hostToken}`)
+      .send({ maxQueuePerUser: 3, allowDuplicates: true, maxTrackDuration: 600, description: '<b>Late</b> night' })
+      .expect(200);
+
+    expect(res.body.session.settings.maxQueuePerUser).toBe(3);
+    expect(res.body.session.settings.allowDuplicates).toBe(true);
+    expect(res.body.session.settings.maxTrackDuration).toBe(600);
+    expect(res.body.session.settings.description).toBe('Late night');
+    expect(res.body.session.settings.chatEnabled).toBe(true);
+  });
+
+  it('merges open_floor scoring changes into the existing config', async () => {
+    const res = await request(app)
+      .patch(`/api/sessions/${sessionId}`)
+      .set('Authorization', `Bearer ${hostToken}`)
+      .send({ openFloor: { downvoteRemoval: null, voteHalfLifeMin: 45 } })
+      .expect(200);
+
+    expect(res.body.session.settings.openFloor.downvoteRemoval).toBeNull();
+    expect(res.body.session.settings.openFloor.voteHalfLifeMin).toBe(45);
+    expect(res.body.session.settings.openFloor.maxAgeBoost).toBe(3);
+
+    await request(app)
+      .patch(`/api/sessions/${sessionId}`)
+      .set('Authorization', `Bearer ${hostToken}`)
+      .send({ openFloor: { voterWeight: -1 } })
+      .expect(400);
+  });
+
+  it('clears the duration limit with null', async () => {
+    const res = await request(app)
+      .patch(`/api/sessions/${sessionId}`)
+      .set('Authorization', `Bearer ${hostToken}`)
+      .send({ maxTrackDuration: null })
+      .expect(200);
+
+    expect(res.body.session.settings.maxTrackDuration).toBeNull();
+  });
+
+  it('rejects invalid values with 400', async () => {
+    await request(app)
+      .patch(`/api/sessions/${sessionId}`)
+      .set('Authorization', `Bearer ${hostToken}`)
+      .send({ maxQueuePerUser: 0 })
+      .expect(400);
+
+    await request(app)
+      .patch(`/api/sessions/${sessionId}`)
+      .set('Authorization', `Bearer ${hostToken}`)
+      .send({ chatEnabled: 'no' })
+      .expect(400);
+  });
+
+  it('rejects a body with no settings with 400', async () => {
+    await request(app)
+      .patch(`/api/sessions/${sessionId}`)
+      .set('Authorization', `Bearer ${hostToken}`)
+      .send({ name: 'Renamed' })
+      .expect(400);
+  });
+
+  it('rejects non-hosts with 403', async () => {
+    await request(app)
+      .patch(`/api/sessions/${sessionId}`)
+      .set('Authorization', `Bearer ${guestToken}`)
+      .send({ chatEnabled: false })
+      .expect(403);
+  });
+
+  it('returns 404 for nonexistent session', async () => {
+    await request(app)
+      .patch('/api/sessions/ses_nonexistent')
+      .set('Authorization', `Bearer ${hostToken}`)
+      .send({ chatEnabled: false })
+      .expect(404);
+  });
+});
+
 // ─── POST /api/sessions/join ────────────────────────────────
 
 describe('POST /api/sessions/join', () => {
@@ -230,9 +367,407 @@ describe('POST /api/sessions/join', () => {
   });
 });
 
+// ─── Queue management ───────────────────────────────────────
+
+describe('Queue management', () => {
+  const titles = (res: any) => res.body.queue.map((t: any) => t.title);
+
+  beforeAll(() => {
+    const insert = db.prepare(`
+      INSERT INTO queue_tracks (id, session_id, title, artist, added_by_id, added_by_username, position)
+      VALUES (?, ?, ?, 'Artist', ?, ?, ?)
+    `);
+    insert.run('qt_mgmt_a', sessionId, 'A', hostUserId, 'host_user', 100);
+    insert.run('qt_mgmt_b', sessionId, 'B', hostUserId, 'host_user', 101);
+    insert.run('qt_mgmt_c', sessionId, 'C', hostUserId, 'host_user', 102);
+    insert.run('qt_mgmt_g', sessionId, 'G', guestUserId, 'guest_user', 103);
+  });
+
+  afterAll(() => {
+    db.prepare("DELETE FROM queue_tracks WHERE id LIKE 'qt_mgmt_%'").run();
+  });
+
+  it('moves a track within the play order', async () => {
+    const res = await request(app)
+      .put(`/api/sessions/${sessionId}/queue/qt_mgmt_c/position`)
+      .set('Authorization', `Bearer ${hostToken}`)
+      .send({ toIndex: 0 })
+      .expect(200);
+
+    expect(titles(res).filter((t: string) => t !== 'G')).toEqual(['C', 'A', 'B']);
+  });
+
+  it('pins a track to the front', async () => {
+    const res = await request(app)
+      .put(`/api/sessions/${sessionId}/queue/qt_mgmt_b/pin`)
+      .set('Authorization', `Bearer ${hostToken}`)
+      .send({ pinned: true })
+      .expect(200);
+
+    expect(titles(res)[0]).toBe('B');
+    expect(res.body.queue[0].pinned).toBe(true);
+  });
+
+  it('unpins a track', async () => {
+    const res = await request(app)
+      .put(`/api/sessions/${sessionId}/queue/qt_mgmt_b/pin`)
+      .set('Authorization', `Bearer ${hostToken}`)
+      .send({ pinned: false })
+      .expect(200);
+
+    expect(res.body.queue.every((t: any) => !t.pinned)).toBe(true);
+  });
+
+  it('rejects reordering by a listener with 403', async () => {
+    await request(app)
+      .put(`/api/sessions/${sessionId}/queue/qt_mgmt_a/position`)
+      .set('Authorization', `Bearer ${guestToken}`)
+      .send({ toIndex: 0 })
+      .expect(403);
+  });
+
+  it('rejects an invalid index with 400', async () => {
+    await request(app)
+      .put(`/api/sessions/${sessionId}/queue/qt_mgmt_a/position`)
+      .set('Authorization', `Bearer ${hostToken}`)
+      .send({ toIndex: -1 })
+      .expect(400);
+  });
+
+  it("doesn't let a listener remove someone else's track", async () => {
+    await request(app)
+      .delete(`/api/sessions/${sessionId}/queue/qt_mgmt_a`)
+      .set('Authorization', `Bearer ${guestToken}`)
+      .expect(403);
+  });
+
+  it('lets a listener remove their own track', async () => {
+    const res = await request(app)
+      .delete(`/api/sessions/${sessionId}/queue/qt_mgmt_g`)
+      .set('Authorization', `Bearer ${guestToken}`)
+      .expect(200);
+
+    expect(titles(res)).not.toContain('G');
+  });
+
+  it('returns 404 for a track that is not queued', async () => {
+    await request(app)
+      .delete(`/api/sessions/${sessionId}/queue/qt_nonexistent`)
+      .set('Authorization', `Bearer ${hostToken}`)
+      .expect(404);
+  });
+});
+
+// ─── Track Votes ────────────────────────────────────────────
+
+describe('Track votes', () => {
+  const getTrack = async () => {
+    const res = await request(app)
+      .get(`/api/sessions/${sessionId}`)
+      .set('Authorization', `Bearer ${guestToken}`)
+      .expect(200);
+    return res.body.session.queue.find((t: any) => t.id === 'qt_votes');
+  };
+
+  beforeAll(() => {
+    db.prepare(`
+      INSERT INTO queue_tracks (id, session_id, title, artist, added_by_id, added_by_username, position)
+      VALUES ('qt_votes', ?, 'Voted', 'Artist', ?, 'host_user', 200)
+    `).run(sessionId, hostUserId);
+  });
+
+  afterAll(() => {
+    db.prepare("DELETE FROM queue_tracks WHERE id = 'qt_votes'").run();
+  });
+
+  it('starts with no votes', async () => {
+    const track = await getTrack();
+    expect(track.votes).toBe(0);
+    expect(track.votedBy).toEqual({});
+  });
+
+  it('aggregates votes into the queue', async () => {
+    expect(castTrackVote('qt_votes', hostUserId, 1)).toBe(1);
+    expect(castTrackVote('qt_votes', guestUserId, -1)).toBe(-1);
+
+    const track = await getTrack();
+    expect(track.votes).toBe(0);
+    expect(track.votedBy).toEqual({ [hostUserId]: 1, [guestUserId]: -1 });
+  });
+
+  it('changes a vote cast the other way', async () => {
+    expect(castTrackVote('qt_votes', guestUserId, 1)).toBe(1);
+
+    const track = await getTrack();
+    expect(track.votes).toBe(2);
+    expect(db.prepare("SELECT COUNT(*) as n FROM track_votes WHERE track_id = 'qt_votes'").get()).toEqual({ n: 2 });
+  });
+
+  it('withdraws a vote cast the same way twice', async () => {
+    expect(castTrackVote('qt_votes', hostUserId, 1)).toBe(0);
+
+    const track = await getTrack();
+    expect(track.votes).toBe(1);
+    expect(track.votedBy).toEqual({ [guestUserId]: 1 });
+  });
+
+  it('drops votes along with the track', () => {
+    db.prepare("DELETE FROM queue_tracks WHERE id = 'qt_votes'").run();
+    expect(db.prepare("SELECT COUNT(*) as n FROM track_votes WHERE track_id = 'qt_votes'").get()).toEqual({ n: 0 });
+  });
+});
+
+// ─── GET /api/sessions/:id/forecast/leaderboard ─────────────
+
+describe('GET /api/sessions/:id/forecast/leaderboard', () => {
+  it('returns an empty leaderboard before any rounds are scored', async () => {
+    const res = await request(app)
+      .get(`/api/sessions/${sessionId}/forecast/leaderboard`)
+      .set('Authorization', `Bearer ${guestToken}`)
+      .expect(200);
+
+    expect(res.body.leaderboard).toEqual([]);
+  });
+
+  it('returns 404 for nonexistent session', async () => {
+    await request(app)
+      .get('/api/sessions/ses_nonexistent/forecast/leaderboard')
+      .set('Authorization', `Bearer ${guestToken}`)
+      .expect(404);
+  });
+});
+
+// ─── GET /api/sessions/:id/history ──────────────────────────
+
+describe('GET /api/sessions/:id/history', () => {
+  /** Put a track on as current, then finish it the way advanceTrack does */
+  function playTrack(title: string, outcome: 'completed' | 'skipped') {
+    const id = `qt_hist_${title}`;
+    db.prepare(`
+      INSERT INTO queue_tracks (id, session_id, title, artist, added_by_id, added_by_username, is_current, started_at)
+      VALUES (?, ?, ?, 'Artist', ?, 'host_user', 1, datetime('now'))
+    `).run(id, sessionId, title, hostUserId);
+    castTrackVote(id, hostUserId, 1);
+    castTrackVote(id, guestUserId, 1);
+    recordPlay(sessionId, outcome);
+    db.prepare('DELETE FROM queue_tracks WHERE id = ?').run(id);
+  }
+
+  it('returns an empty history before anything has played', async () => {
+    const res = await request(app)
+      .get(`/api/sessions/${sessionId}/history`)
+      .set('Authorization', `Bearer ${guestToken}`)
+      .expect(200);
+
+    expect(res.body.tracks).toEqual([]);
+    expect(res.body.total).toBe(0);
+  });
+
+  it('lists played tracks newest first with outcome and votes', async () => {
+    playTrack('first', 'completed');
+    playTrack('second', 'skipped');
+
+    const res = await request(app)
+      .get(`/api/sessions/${sessionId}/history`)
+      .set('Authorization', `Bearer ${guestToken}`)
+      .expect(200);
+
+    expect(res.body.total).toBe(2);
+    expect(res.body.tracks.map((t: any) => t.title)).toEqual(['second', 'first']);
+    expect(res.body.tracks[0].outcome).toBe('skipped');
+    expect(res.body.tracks[1].outcome).toBe('completed');
+    expect(res.body.tracks[1].votes).toBe(2);
+    expect(res.body.tracks[1].addedBy.userId).toBe(hostUserId);
+    expect(res.body.tracks[1].startedAt).toBeDefined();
+  });
+
+  it('paginates with limit and offset', async () => {
+    const res = await request(app)
+      .get(`/api/sessions/${sessionId}/history?limit=1&offset=1`)
+      .set('Authorization', `Bearer ${guestToken}`)
+      .expect(200);
+
+    expect(res.body.tracks).toHaveLength(1);
+    expect(res.body.tracks[0].title).toBe('first');
+    expect(res.body.total).toBe(2);
+  });
+
+  it('returns 404 for nonexistent session', async () => {
+    await request(app)
+      .get('/api/sessions/ses_nonexistent/history')
+      .set('Authorization', `Bearer ${guestToken}`)
+      .expect(404);
+  });
+});
+
+// ─── Session Roles ──────────────────────────────────────────
+
+describe('Session roles', () => {
+  let roomId = '';
+
+  beforeAll(async () => {
+    const roomRes = await request(app)
+      .post('/api/sessions')
+      .set('Authorization', `Bearer ${hostToken}`)
+      .send({ name: 'Roles Room' });
+    roomId = roomRes.body.session.id;
+
+    await request(app).post('/api/sessions/join').set('Authorization', `Bearer ${guestToken}`)
+      .send({ joinCode: roomRes.body.session.joinCode });
+  });
+
+  it('lists members with their effective roles', async () => {
+    const res = await request(app)
+      .get(`/api/sessions/${roomId}/roles`)
+      .set('Authorization', `Bearer ${guestToken}`)
+      .expect(200);
+
+    expect(res.body.roles).toEqual([
+      { userId: hostUserId, username: 'host_user', role: 'host' },
+      { userId: guestUserId, username: 'guest_user', role: 'listener' },
+    ]);
+  });
+
+  it('host can grant a role', async () => {
+    const res = await request(app)
+      .put(`/api/sessions/${roomId}/roles/${guestUserId}`)
+      .set('Authorization', `Bearer ${hostToken}`)
+      .send({ role: 'moderator' })
+      .expect(200);
+
+    expect(res.body.roles.find((r: any) => r.userId === guestUserId).role).toBe('moderator');
+  });
+
+  it('moderators cannot manage roles', async () => {
+    await request(app)
+      .put(`/api/sessions/${roomId}/roles/${guestUserId}`)
+      .set('Authorization', `Bearer ${guestToken}`)
+      .send({ role: 'co-host' })
+      .expect(403);
+  });
+
+  it('rejects an unknown role with 400', async () => {
+    await request(app)
+      .put(`/api/sessions/${roomId}/roles/${guestUserId}`)
+      .set('Authorization', `Bearer ${hostToken}`)
+      .send({ role: 'host' })
+      .expect(400);
+  });
+
+  it('rejects non-members with 404', async () => {
+    await request(app)
+      .put(`/api/sessions/${roomId}/roles/usr_nobody`)
+      .set('Authorization', `Bearer ${hostToken}`)
+      .send({ role: 'muted' })
+      .expect(404);
+  });
+
+  it('revoking returns the member to listener', async () => {
+    const res = await request(app)
+      .delete(`/api/sessions/${roomId}/roles/${guestUserId}`)
+      .set('Authorization', `Bearer ${hostToken}`)
+      .expect(200);
+
+    expect(res.body.roles.find((r: any) => r.userId === guestUserId).role).toBe('listener');
+  });
+});
+
+// ─── Host Succession ────────────────────────────────────────
+
+describe('Host succession', () => {
+  const THIRD_USER = { username: 'third_user', email: 'third@frequenc.app', password: 'thirdPass123' };
+  let thirdToken = '';
+  let thirdUserId = '';
+  let roomId = '';
+
+  beforeAll(async () => {
+    const thirdRes = await request(app).post('/api/auth/register').send(THIRD_USER);
+    thirdToken = thirdRes.body.token;
+    thirdUserId = thirdRes.body.user.id;
+
+    const roomRes = await request(app)
+      .post('/api/sessions')
+      .set('Authorization', `Bearer ${hostToken}`)
+      .send({ name: 'Succession Room' });
+    roomId = roomRes.body.session.id;
+
+    // Guest joins first, so they're the longest-joined listener
+    await request(app).post('/api/sessions/join').set('Authorization', `Bearer ${guestToken}`)
+      .send({ joinCode: roomRes.body.session.joinCode });
+    await request(app).post('/api/sessions/join').set('Authorization', `Bearer ${thirdToken}`)
+      .send({ joinCode: roomRes.body.session.joinCode });
+  });
+
+  it('picks the longest-joined active listener', () => {
+    expect(pickSuccessor(roomId, [hostUserId, guestUserId, thirdUserId])).toBe(guestUserId);
+  });
+
+  it('skips listeners who are not in the room', () => {
+    expect(pickSuccessor(roomId, [hostUserId, thirdUserId])).toBe(thirdUserId);
+  });
+
+  it('finds nobody on disconnect when no one else is active', () => {
+    expect(pickSuccessor(roomId, [hostUserId])).toBeNull();
+    expect(migrateHost(undefined, roomId, [hostUserId], 'disconnect')).toBeNull();
+  });
+
+  it('falls back to inactive members when the host quits', () => {
+    expect(pickSuccessor(roomId, [], { includeInactive: true })).toBe(guestUserId);
+  });
+
+  it('prefers a designated co-host', async () => {
+    await request(app)
+      .put(`/api/sessions/${roomId}/roles/${thirdUserId}`)
+      .set('Authorization', `Bearer ${hostToken}`)
+      .send({ role: 'co-host' })
+      .expect(200);
+
+    expect(pickSuccessor(roomId, [guestUserId, thirdUserId])).toBe(thirdUserId);
+  });
+
+  it('hands the room over and drops the new host\'s co-host role', async () => {
+    expect(migrateHost(undefined, roomId, [guestUserId, thirdUserId], 'quit')).toBe(thirdUserId);
+
+    const res = await request(app)
+      .get(`/api/sessions/${roomId}`)
+      .set('Authorization', `Bearer ${thirdToken}`)
+      .expect(200);
+
+    expect(res.body.session.hostId).toBe(thirdUserId);
+
+    const rolesRes = await request(app)
+      .get(`/api/sessions/${roomId}/roles`)
+      .set('Authorization', `Bearer ${thirdToken}`)
+      .expect(200);
+
+    const roleOf = (id: string) => rolesRes.body.roles.find((r: any) => r.userId === id)?.role;
+    expect(roleOf(thirdUserId)).toBe('host');
+    expect(roleOf(hostUserId)).toBe('listener');
+  });
+
+  it('new host can end the session; the old host cannot', async () => {
+    await request(app)
+      .post(`/api/sessions/${roomId}/end`)
+      .set('Authorization', `Bearer ${hostToken}`)
+      .expect(403);
+
+    await request(app)
+      .post(`/api/sessions/${roomId}/end`)
+      .set('Authorization', `Bearer ${thirdToken}`)
+      .expect(200);
+  });
+});
+
 // ─── POST /api/sessions/:id/end ─────────────────────────────
 
 describe('POST /api/sessions/:id/end', () => {
+  beforeAll(() => {
+    db.prepare(`
+      INSERT INTO queue_tracks (id, session_id, title, artist, added_by_id, added_by_username, is_current, started_at)
+      VALUES ('qt_end_playing', ?, 'last_song', 'Artist', ?, 'host_user', 1, datetime('now'))
+    `).run(sessionId, hostUserId);
+  });
+
   it('rejects non-host ending session with 403', async () => {
     await request(app)
       .post(`/api/sessions/${sessionId}/end`)
@@ -247,6 +782,36 @@ describe('POST /api/sessions/:id/end', () => {
       .expect(200);
 
     expect(res.body.message).toMatch(/ended/i);
+    expect(res.body.recap.sessionId).toBe(sessionId);
+    expect(res.body.recap.listenersCount).toBe(2);
+  });
+
+  it('records the track that was still playing in history', async () => {
+    const res = await request(app)
+      .get(`/api/sessions/${sessionId}/history`)
+      .set('Authorization', `Bearer ${guestToken}`)
+      .expect(200);
+
+    expect(res.body.tracks[0]).toMatchObject({ title: 'last_song', outcome: 'ended' });
+    expect(db.prepare('SELECT COUNT(*) as n FROM queue_tracks WHERE session_id = ?').get(sessionId)).toEqual({ n: 0 });
+  });
+
+  it('persists the recap for later retrieval', async () => {
+    const res = await request(app)
+      .get(`/api/sessions/${sessionId}/recap`)
+      .set('Authorization', `Bearer ${guestToken}`)
+      .expect(200);
+
+    expect(res.body.recap.name).toBe('Test Room');
+    expect(res.body.recap.tracksPlayed).toBe(0);
+    expect(Array.isArray(res.body.recap.topContributors)).toBe(true);
+  });
+
+  it('rejects ending an already-ended session with 409', async () => {
+    await request(app)
+      .post(`/api/sessions/${sessionId}/end`)
+      .set('Authorization', `Bearer ${hostToken}`)
+      .expect(409);
   });
 
   it('ended session no longer appears in public list', async () => {
@@ -0,0 +1,112 @@
+/**
+ * Skip Voting — Tests
+ *
+ * Coverage:
+ *   votesNeeded      — threshold × room size, rounded up, never below 1
+ *   castSkipVote     — one vote per listener, tally against the room's threshold
+ *   withdrawSkipVote — a leaving voter's vote comes back off the tally
+ *   Track changes    — a new track (or a reset) starts a fresh tally
+ */
+
+import path from 'path';
+
+process.env.NODE_ENV = 'test';
+const TEST_DB_PATH = path.join('/tmp', `frequenc_skip_test_${Date.now()}.db`);
+process.env.DB_PATH = TEST_DB_PATH;
+
+import fs from 'fs';
+import { createUsers, createRoom } from './helpers/fixtures';
+import { updateSettings } from '../services/sessionSettings';
+import {
+  votesNeeded,
+  castSkipVote,
+  getSkipTally,
+  withdrawSkipVote,
+  resetSkipVotes,
+} from '../services/skipVotes';
+
+// ─── Helpers ────────────────────────────────────────────────
+
+const SESSION = 'ses_skip';
+
+beforeAll(() => {
+  createUsers('host');
+  createRoom('skip', { id: SESSION });
+});
+
+afterEach(() => {
+  resetSkipVotes(SESSION);
+  updateSettings(SESSION, { skipThreshold: 0.5 });
+});
+
+afterAll(() => {
+  try {
+    if (fs.existsSync(TEST_DB_PATH)) fs.unlinkSync(TEST_DB_PATH);
+    if (fs.existsSync(TEST_DB_PATH + '-wal')) fs.unlinkSync(TEST_DB_PATH + '-wal');
+    if (fs.existsSync(TEST_DB_PATH + '-shm')) fs.unlinkSync(TEST_DB_PATH + '-shm');
+  } catch { /* ignore */ }
+});
+
+// ─── votesNeeded ────────────────────────────────────────────
+
+describe('votesNeeded', () => {
+  it.each([
+    [0.5, 4, 2],
+    [0.5, 5, 3],
+    [0.34, 3, 2],
+    [1, 3, 3],
+    [0.25, 1, 1],
+    [0.5, 0, 1],
+  ])('needs %p of %p listeners → %p votes', (threshold, activeCount, expected) => {
+    expect(votesNeeded(threshold, activeCount)).toBe(expected);
+  });
+});
+
+// ─── castSkipVote ───────────────────────────────────────────
+
+describe('castSkipVote', () => {
+  it('counts each listener once against the room threshold', () => {
+    expect(castSkipVote(SESSION, 'alice', 'qt_1', 5)).toEqual({ trackId: 'qt_1', votes: 1, needed: 3, threshold: 0.5 });
+    expect(castSkipVote(SESSION, 'alice', 'qt_1', 5).votes).toBe(1);
+    expect(castSkipVote(SESSION, 'bob', 'qt_1', 5).votes).toBe(2);
+  });
+
+  it("uses the session's skip_threshold", () => {
+    updateSettings(SESSION, { skipThreshold: 0.75 });
+    expect(castSkipVote(SESSION, 'alice', 'qt_1', 5)).toMatchObject({ needed: 4, threshold: 0.75 });
+  });
+
+  it('re-tallies against the room size at the time of asking', () => {
+    castSkipVote(SESSION, 'alice', 'qt_1', 6);
+    castSkipVote(SESSION, 'bob', 'qt_1', 6);
+
+    expect(getSkipTally(SESSION, 6)?.needed).toBe(3);
+    expect(getSkipTally(SESSION, 4)).toMatchObject({ votes: 2, needed: 2 });
+  });
+
+  it('takes back the vote of someone who left', () => {
+    castSkipVote(SESSION, 'alice', 'qt_1', 4);
+
+    expect(withdrawSkipVote(SESSION, 'alice')).toBe(true);
+    expect(withdrawSkipVote(SESSION, 'bob')).toBe(false);
+    expect(getSkipTally(SESSION, 3)?.votes).toBe(0);
+  });
+});
+
+// ─── Track changes ──────────────────────────────────────────
+
+describe('when the track changes', () => {
+  it('starts a fresh tally for the new track', () => {
+    castSkipVote(SESSION, 'alice', 'qt_1', 4);
+    castSkipVote(SESSION, 'bob', 'qt_1', 4);
+
+    expect(castSkipVote(SESSION, 'carol', 'qt_2', 4)).toMatchObject({ trackId: 'qt_2', votes: 1 });
+  });
+
+  it('forgets every vote on reset', () => {
+    castSkipVote(SESSION, 'alice', 'qt_1', 4);
+    resetSkipVotes(SESSION);
+
+    expect(getSkipTally(SESSION, 4)).toBeNull();
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * Track Resolver — Tests
+ *
+ * Coverage:
+ *   findMatch / playableSources         — ISRC then fuzzy matching, provider order
+ *   GET /api/tracks/:id/playable        — original source, cross-provider resolution,
+ *                                         track_sources caching, room members only
+ *
+ * Provider APIs are stubbed by mocking global fetch.
+ */
+
+import path from 'path';
+
+process.env.NODE_ENV = 'test';
+const TEST_DB_PATH = path.join('/tmp', `frequenc_resolver_test_${Date.now()}.db`);
+process.env.DB_PATH = TEST_DB_PATH;
+
+import fs from 'fs';
+import request from 'supertest';
+import { app } from '../index';
+import db from '../database';
+import { saveAccount, disconnect } from '../services/connectedAccounts';
+import { queueTrack } from './helpers/fixtures';
+import { findMatch, playableSources, MatchableTrack } from '../services/trackResolver';
+import { SearchTrack } from '../services/trackSearch';
+
+// ─── Helpers ────────────────────────────────────────────────
+
+function hit(overrides: Partial<SearchTrack>): SearchTrack {
+  return {
+    id: '1', title: 'Midnight City', artist: 'M83', album: '', previewUrl: '', duration: 244,
+    source: 'soundcloud', sourceId: '1', ...overrides,
+  };
+}
+
+const TIDAL_TRACK: MatchableTrack = { title: 'Midnight City', artist: 'M83', duration: 244, source: 'tidal', isrc: 'FR6V81141061' };
+
+let token = '';
+let userId = '';
+let sessionId = '';
+let trackCount = 0;
+
+/** Midnight City by M83, queued by the test user from `fields.source` */
+function queueSong(fields: { source: string; sourceId?: string; isrc?: string; title?: string; artist?: string }): string {
+  return queueTrack(sessionId, `qt_resolve_${++trackCount}`, {
+    title: fields.title || 'Midnight City',
+    artist: fields.artist || 'M83',
+    duration: 244,
+    source: fields.source,
+    source_id: fields.sourceId ?? null,
+    isrc: fields.isrc ?? null,
+    added_by_id: userId,
+    added_by_username: 'resolver',
+  });
+}
+
+function connect(tidal: string | null, soundcloud: string | null) {
+  for (const [provider, accessToken] of [['tidal', tidal], ['soundcloud', soundcloud]] as const) {
+    if (accessToken) saveAccount(userId, provider, { accessToken });
+    else disconnect(userId, provider);
+  }
+}
+
+function mockProviders(responses: { itunes?: object; tidal?: object; soundcloud?: object[] }) {
+  return jest.spyOn(global, 'fetch').mockImplementation(async (input: any) => {
+    const host = new URL(String(input)).host;
+    if (host === 'itunes.apple.com') return Response.json(responses.itunes ?? { results: [] });
+    if (host === 'openapi.tidal.com') return Response.json(responses.tidal ?? { tracks: { items: [] } });
+    if (host === 'api.soundcloud.com') return Response.json(responses.soundcloud ?? []);
+    throw new Error(`Unexpected fetch: ${input}`);
+  });
+}
+
+function playable(trackId: string) {
+  return request(app).get(`/api/tracks/${trackId}/playable`).set('Authorization', `Bearer ${token}`);
+}
+
+beforeAll(async () => {
+  const res = await request(app)
+    .post('/api/auth/register')
+    .send({ username: 'resolver', email: 'resolver@test.com', password: 'pass123' });
+  token = res.body.token;
+  userId = res.body.user.id;
+
+  const session = await request(app)
+    .post('/api/sessions')
+    .set('Authorization', `Bearer ${token}`)
+    .send({ name: 'Mixed Room', genre: 'Electronic', roomMode: 'campfire', isPublic: true });
+  sessionId = session.body.session.id;
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  connect(null, null);
+});
+
+afterAll(() => {
+  try {
+    if (fs.existsSync(TEST_DB_PATH)) fs.unlinkSync(TEST_DB_PATH);
+    if (fs.existsSync(TEST_DB_PATH + '-wal')) fs.unlinkSync(TEST_DB_PATH + '-wal');
+    if (fs.existsSync(TEST_DB_PATH + '-shm')) fs.unlinkSync(TEST_DB_PATH + '-shm');
+  } catch { /* ignore */ }
+});
+
+// ─── Matching ───────────────────────────────────────────────
+
+describe('findMatch', () => {
+  it('prefers an ISRC match over an earlier fuzzy one', () => {
+    const candidates = [hit({ sourceId: 'fuzzy' }), hit({ sourceId: 'exact', title: 'Midnight City (Edit)', isrc: 'fr6v81141061' })];
+    expect(findMatch(TIDAL_TRACK, candidates)).toMatchObject({ match: 'isrc', track: { sourceId: 'exact' } });
+  });
+
+  it('matches on normalized title, artist and length', () => {
+    const candidates = [
+      hit({ sourceId: 'cover', artist: 'Someone Else' }),
+      hit({ sourceId: 'extended', duration: 420 }),
+      hit({ sourceId: 'same', title: 'Midnight City [Remastered]', artist: 'M83, Anthony Gonzalez', duration: 246 }),
+    ];
+    expect(findMatch({ ...TIDAL_TRACK, isrc: null }, candidates)).toMatchObject({ match: 'fuzzy', track: { sourceId: 'same' } });
+  });
+
+  it('ignores length when either side is an iTunes preview', () => {
+    const candidates = [hit({ source: 'itunes', duration: 30 })];
+    expect(findMatch({ ...TIDAL_TRACK, isrc: null }, candidates)?.match).toBe('fuzzy');
+  });
+
+  it('returns null without a match', () => {
+    expect(findMatch(TIDAL_TRACK, [hit({ title: 'Wait' })])).toBeNull();
+  });
+});
+
+describe('playableSources', () => {
+  it('lists connected providers best first, always ending with iTunes', () => {
+    expect(playableSources([])).toEqual(['itunes']);
+    expect(playableSources(['lastfm', 'soundcloud'])).toEqual(['soundcloud', 'itunes']);
+    expect(playableSources(['soundcloud', 'tidal'])).toEqual(['tidal', 'soundcloud', 'itunes']);
+  });
+});
+
+// ─── GET /api/tracks/:queueTrackId/playable ─────────────────
+
+describe('GET /api/tracks/:queueTrackId/playable', () => {
+  it('404s for an unknown track', async () => {
+    await playable('qt_nope').expect(404);
+  });
+
+  it("403s for someone who isn't in the track's room", async () => {
+    const outsider = await request(app)
+      .post('/api/auth/register')
+      .send({ username: 'outsider', email: 'outsider@test.com', password: 'pass123' });
+    const trackId = queueSong({ source: 'itunes', sourceId: '1' });
+
+    await request(app)
+      .get(`/api/tracks/${trackId}/playable`)
+      .set('Authorization', `Bearer ${outsider.body.token}`)
+      .expect(403);
+  });
+
+  it('plays the original when the caller has its provider', async () => {
+    const fetchMock = mockProviders({});
+    connect('tidal-token', null);
+    const trackId = queueSong({ source: 'tidal', sourceId: '201' });
+
+    const res = await playable(trackId).expect(200);
+
+    expect(res.body.playable).toMatchObject({ source: 'tidal', sourceId: '201', match: 'original' });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('finds a Tidal track on SoundCloud by ISRC and caches it', async () => {
+    const fetchMock = mockProviders({
+      soundcloud: [{ id: 301, title: 'Midnight City', user: { username: 'M83' }, duration: 244000, stream_url: 'https://sc/301', publisher_metadata: { isrc: 'FR6V81141061' } }],
+    });
+    connect(null, 'sc-token');
+    const first = queueSong({ source: 'tidal', sourceId: '555', isrc: 'FR6V81141061' });
+
+    const res = await playable(first).expect(200);
+    expect(res.body.playable).toMatchObject({ source: 'soundcloud', sourceId: '301', match: 'isrc', previewUrl: 'https://sc/301' });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    // The same song queued again (any room) resolves from track_sources
+    const second = queueSong({ source: 'tidal', sourceId: '555', isrc: 'FR6V81141061' });
+    const again = await playable(second).expect(200);
+    expect(again.body.playable).toMatchObject({ source: 'soundcloud', sourceId: '301' });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('falls back to an iTunes preview and caches misses', async () => {
+    const fetchMock = mockProviders({
+      itunes: { results: [{ trackId: 101, trackName: 'Song', artistName: 'Band', previewUrl: 'https://preview/101.m4a' }] },
+    });
+    connect(null, 'sc-token');
+    const trackId = queueSong({ source: 'tidal', sourceId: '777', title: 'Song', artist: 'Band' });
+
+    const res = await playable(trackId).expect(200);
+    expect(res.body.playable).toMatchObject({ source: 'itunes', sourceId: '101', match: 'fuzzy' });
+
+    const cached = db.prepare("SELECT source, source_id FROM track_sources WHERE origin_key = '777' ORDER BY source").all();
+    expect(cached).toEqual([{ source: 'itunes', source_id: '101' }, { source: 'soundcloud', source_id: null }]);
+
+    fetchMock.mockClear();
+    await playable(trackId).expect(200);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('404s when no provider has the song', async () => {
+    mockProviders({});
+    const trackId = queueSong({ source: 'tidal', sourceId: '999', title: 'Unreleased', artist: 'Nobody' });
+    await playable(trackId).expect(404);
+  });
+});
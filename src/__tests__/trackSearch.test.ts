@@ -0,0 +1,159 @@
+/**
+ * Track Search — Integration Tests
+ *
+ * Coverage:
+ *   GET /api/tracks/search — fan-out to connected providers, normalized results,
+ *                            cross-provider de-duplication, provider failures
+ *
+ * Provider APIs are stubbed by mocking global fetch.
+ */
+
+import path from 'path';
+
+process.env.NODE_ENV = 'test';
+const TEST_DB_PATH = path.join('/tmp', `frequenc_tracksearch_test_${Date.now()}.db`);
+process.env.DB_PATH = TEST_DB_PATH;
+
+import fs from 'fs';
+import request from 'supertest';
+import { app } from '../index';
+import { saveAccount, disconnect } from '../services/connectedAccounts';
+
+// ─── Helpers ────────────────────────────────────────────────
+
+let token = '';
+let userId = '';
+
+const ITUNES = {
+  results: [
+    {
+      trackId: 101, trackName: 'Midnight City', artistName: 'M83', collectionName: 'Hurry Up, We\'re Dreaming',
+      artworkUrl100: 'https://art/100x100bb.jpg', previewUrl: 'https://preview/101.m4a',
+      trackTimeMillis: 244000, trackExplicitness: 'notExplicit',
+    },
+    {
+      trackId: 102, trackName: 'Wait', artistName: 'M83', collectionName: 'Hurry Up',
+      previewUrl: 'https://preview/102.m4a', trackTimeMillis: 343000, trackExplicitness: 'explicit',
+    },
+  ],
+};
+
+const TIDAL = {
+  tracks: {
+    items: [
+      { id: 201, title: 'Midnight City (Remastered)', artists: [{ name: 'M83' }], album: { title: 'Hurry Up' }, duration: 244, isrc: 'FR6V81141061' },
+    ],
+  },
+};
+
+const SOUNDCLOUD = [
+  { id: 301, title: 'Midnight City', user: { username: 'someone-else' }, duration: 250000, stream_url: 'https://sc/301', publisher_metadata: { isrc: 'fr6v81141061' } },
+  { id: 302, title: 'Midnight City Remix', user: { username: 'dj' }, duration: 300000, stream_url: 'https://sc/302' },
+];
+
+/** Answer provider calls by host; anything in `failing` returns a 500 */
+function mockProviders(failing: string[] = []) {
+  return jest.spyOn(global, 'fetch').mockImplementation(async (input: any) => {
+    const url = String(input);
+    const host = new URL(url).host;
+    if (failing.includes(host)) return new Response('upstream down', { status: 500 });
+    if (host === 'itunes.apple.com') return Response.json(ITUNES);
+    if (host === 'openapi.tidal.com') return Response.json(TIDAL);
+    if (host === 'api.soundcloud.com') return Response.json(SOUNDCLOUD);
+    throw new Error(`Unexpected fetch: ${url}`);
+  });
+}
+
+function connect(tidal: string | null, soundcloud: string | null) {
+  for (const [provider, accessToken] of [['tidal', tidal], ['soundcloud', soundcloud]] as const) {
+    if (accessToken) saveAccount(userId, provider, { accessToken });
+    else disconnect(userId, provider);
+  }
+}
+
+function search(q: string) {
+  return request(app)
+    .get(`/api/tracks/search?q=${encodeURIComponent(q)}`)
+    .set('Authorization', `Bearer ${token}`);
+}
+
+beforeAll(async () => {
+  const res = await request(app)
+    .post('/api/auth/register')
+    .send({ username: 'digger', email: 'digger@test.com', password: 'pass123' });
+  token = res.body.token;
+  userId = res.body.user.id;
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  connect(null, null);
+});
+
+afterAll(() => {
+  try {
+    if (fs.existsSync(TEST_DB_PATH)) fs.unlinkSync(TEST_DB_PATH);
+    if (fs.existsSync(TEST_DB_PATH + '-wal')) fs.unlinkSync(TEST_DB_PATH + '-wal');
+    if (fs.existsSync(TEST_DB_PATH + '-shm')) fs.unlinkSync(TEST_DB_PATH + '-shm');
+  } catch { /* ignore */ }
+});
+
+// ─── GET /api/tracks/search ─────────────────────────────────
+
+describe('GET /api/tracks/search', () => {
+  it('requires auth', async () => {
+    await request(app).get('/api/tracks/search?q=m83').expect(401);
+  });
+
+  it('requires a query', async () => {
+    await search('  ').expect(400);
+  });
+
+  it('searches only iTunes when nothing is connected', async () => {
+    const fetchMock = mockProviders();
+    const res = await search('midnight city').expect(200);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(res.body.providers).toEqual([{ source: 'itunes', status: 'ok', count: 2 }]);
+    expect(res.body.tracks[0]).toEqual({
+      id: '101',
+      title: 'Midnight City',
+      artist: 'M83',
+      album: 'Hurry Up, We\'re Dreaming',
+      albumArt: 'https://art/600x600bb.jpg',
+      previewUrl: 'https://preview/101.m4a',
+      duration: 30,
+      source: 'itunes',
+      sourceId: '101',
+      explicit: false,
+    });
+    expect(res.body.tracks[1].explicit).toBe(true);
+  });
+
+  it('fans out to connected providers and de-duplicates matches', async () => {
+    mockProviders();
+    connect('tidal-token', 'sc-token');
+
+    const res = await search('midnight city').expect(200);
+
+    expect(res.body.providers.map((p: any) => p.source)).toEqual(['itunes', 'tidal', 'soundcloud']);
+    // Tidal's copy wins; iTunes matches it by title/artist, SoundCloud's upload by ISRC
+    expect(res.body.tracks.map((t: any) => `${t.source}:${t.sourceId}`)).toEqual([
+      'tidal:201', 'soundcloud:302', 'itunes:102',
+    ]);
+  });
+
+  it('returns what it can when a provider fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    mockProviders(['openapi.tidal.com']);
+    connect('tidal-token', null);
+
+    const res = await search('midnight city').expect(200);
+
+    expect(res.body.providers).toEqual([
+      { source: 'itunes', status: 'ok', count: 2 },
+      { source: 'tidal', status: 'error', count: 0, error: 'upstream down' },
+    ]);
+    expect(res.body.tracks.map((t: any) => t.sourceId)).toEqual(['101', '102']);
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * Voltage Ledger — Tests
+ *
+ * Coverage:
+ *   applyVoltage    — earns (track_completed, hosting_time) credit and log; spends debit; overdraws are refused
+ *   rewardUpvote    — pays the owner once per voter per track, never for your own
+ *   hasTransaction  — the idempotency check behind the earn rules
+ *   getQueueSlots   — the room's per-user cap plus slots bought in that room
+ *   bumpTrack       — own waiting tracks only, priority up, nothing changes on an overdraw
+ *   buyQueueSlot    — one more slot per purchase
+ */
+
+import path from 'path';
+
+process.env.NODE_ENV = 'test';
+const TEST_DB_PATH = path.join('/tmp', `frequenc_voltage_test_${Date.now()}.db`);
+process.env.DB_PATH = TEST_DB_PATH;
+
+import fs from 'fs';
+import { QueueRepo, VoltageRepo } from '../repositories';
+import { createUsers, createRoom, queueTrack } from './helpers/fixtures';
+import { updateSettings } from '../services/sessionSettings';
+import {
+  applyVoltage,
+  rewardUpvote,
+  hasTransaction,
+  getQueueSlots,
+  getBalance,
+  getHistory,
+  bumpTrack,
+  buyQueueSlot,
+  EARN_RULES,
+  SPEND_RULES,
+} from '../services/voltage';
+
+// ─── Helpers ────────────────────────────────────────────────
+
+const USERS = ['host', 'alice', 'bob', 'carol'];
+
+/** A campfire room with `<room>_a1` (alice's) and `<room>_b1` (bob's) waiting behind host's `<room>_now` */
+function room(): string {
+  const sessionId = createRoom('volt');
+  queueTrack(sessionId, `${sessionId}_now`);
+  queueTrack(sessionId, `${sessionId}_a1`, { added_by_id: 'alice' });
+  queueTrack(sessionId, `${sessionId}_b1`, { added_by_id: 'bob' });
+  QueueRepo.setCurrent(`${sessionId}_now`);
+  return sessionId;
+}
+
+beforeAll(() => {
+  createUsers(...USERS);
+});
+
+beforeEach(() => {
+  for (const id of USERS) VoltageRepo.setBalance(id, 100);
+});
+
+afterAll(() => {
+  try {
+    if (fs.existsSync(TEST_DB_PATH)) fs.unlinkSync(TEST_DB_PATH);
+    if (fs.existsSync(TEST_DB_PATH + '-wal')) fs.unlinkSync(TEST_DB_PATH + '-wal');
+    if (fs.existsSync(TEST_DB_PATH + '-shm')) fs.unlinkSync(TEST_DB_PATH + '-shm');
+  } catch { /* ignore */ }
+});
+
+// ─── applyVoltage ───────────────────────────────────────────
+
+describe('applyVoltage', () => {
+  it('credits a completed track and logs it against the track', () => {
+    const s = room();
+    const tx = applyVoltage('alice', EARN_RULES.trackCompleted, 'track_completed', { sessionId: s, refId: `${s}_a1` });
+
+    expect(tx).toMatchObject({
+      userId: 'alice', sessionId: s, amount: EARN_RULES.trackCompleted,
+      balanceAfter: 100 + EARN_RULES.trackCompleted, reason: 'track_completed', refId: `${s}_a1`,
+    });
+    expect(getBalance('alice')).toBe(100 + EARN_RULES.trackCompleted);
+    expect(getHistory('alice', 1)[0]).toEqual(tx);
+  });
+
+  it('credits hosting time to the host', () => {
+    const s = room();
+    applyVoltage('host', EARN_RULES.hostingTime, 'hosting_time', { sessionId: s });
+    applyVoltage('host', EARN_RULES.hostingTime, 'hosting_time', { sessionId: s });
+
+    expect(getBalance('host')).toBe(100 + 2 * EARN_RULES.hostingTime);
+  });
+
+  it('debits a spend, down to exactly zero', () => {
+    expect(applyVoltage('bob', -100, 'queue_slot')?.balanceAfter).toBe(0);
+    expect(getBalance('bob')).toBe(0);
+  });
+
+  it('refuses an overdraw without touching the balance or the ledger', () => {
+    VoltageRepo.setBalance('carol', SPEND_RULES.queueSlot - 1);
+    const before = getHistory('carol').length;
+
+    expect(applyVoltage('carol', -SPEND_RULES.queueSlot, 'queue_slot')).toBeNull();
+    expect(getBalance('carol')).toBe(SPEND_RULES.queueSlot - 1);
+    expect(getHistory('carol')).toHaveLength(before);
+  });
+
+  it('refuses an unknown user', () => {
+    expect(applyVoltage('nobody', 5, 'track_completed')).toBeNull();
+    expect(getBalance('nobody')).toBeNull();
+  });
+});
+
+// ─── rewardUpvote / hasTransaction ──────────────────────────
+
+describe('rewardUpvote', () => {
+  it('pays the owner once per voter per track', () => {
+    const s = room();
+    const track = QueueRepo.findById(`${s}_a1`)!;
+
+    expect(rewardUpvote(s, track, 'bob')?.amount).toBe(EARN_RULES.upvoteReceived);
+    expect(rewardUpvote(s, track, 'bob')).toBeNull();          // un-vote and vote again
+    expect(rewardUpvote(s, track, 'carol')).not.toBeNull();    // a different voter
+    expect(getBalance('alice')).toBe(100 + 2 * EARN_RULES.upvoteReceived);
+  });
+
+  it('pays again for the same voter on another track', () => {
+    const s = room();
+    rewardUpvote(s, QueueRepo.findById(`${s}_a1`)!, 'bob');
+    queueTrack(s, `${s}_a2`, { added_by_id: 'alice' });
+
+    expect(rewardUpvote(s, QueueRepo.findById(`${s}_a2`)!, 'bob')).not.toBeNull();
+  });
+
+  it('never pays for upvoting your own track', () => {
+    const s = room();
+    expect(rewardUpvote(s, QueueRepo.findById(`${s}_a1`)!, 'alice')).toBeNull();
+    expect(getBalance('alice')).toBe(100);
+  });
+});
+
+describe('hasTransaction', () => {
+  it('matches on user, reason and ref together', () => {
+    const s = room();
+    applyVoltage('alice', EARN_RULES.trackCompleted, 'track_completed', { sessionId: s, refId: `${s}_a1` });
+
+    expect(hasTransaction('alice', 'track_completed', `${s}_a1`)).toBe(true);
+    expect(hasTransaction('alice', 'track_completed', `${s}_b1`)).toBe(false);
+    expect(hasTransaction('alice', 'upvote_received', `${s}_a1`)).toBe(false);
+    expect(hasTransaction('bob', 'track_completed', `${s}_a1`)).toBe(false);
+  });
+});
+
+// ─── Spends ─────────────────────────────────────────────────
+
+describe('getQueueSlots / buyQueueSlot', () => {
+  it("starts at the room's per-user cap and adds one per slot bought", () => {
+    const s = room();
+    updateSettings(s, { maxQueuePerUser: 3 });
+    expect(getQueueSlots('alice', s)).toBe(3);
+
+    const { tx, error } = buyQueueSlot(s, 'alice');
+    expect(error).toBeUndefined();
+    expect(tx?.amount).toBe(-SPEND_RULES.queueSlot);
+    expect(getBalance('alice')).toBe(100 - SPEND_RULES.queueSlot);
+    expect(getQueueSlots('alice', s)).toBe(4);
+  });
+
+  it('only counts slots bought in that room', () => {
+    const s = room();
+    const other = room();
+    buyQueueSlot(other, 'alice');
+
+    expect(getQueueSlots('alice', s)).toBe(getQueueSlots('bob', s));
+  });
+
+  it('refuses an overdraw and an unknown room', () => {
+    const s = room();
+    VoltageRepo.setBalance('alice', SPEND_RULES.queueSlot - 1);
+    const slots = getQueueSlots('alice', s);
+
+    expect(buyQueueSlot(s, 'alice')).toEqual({ error: `Not enough voltage (a slot costs ${SPEND_RULES.queueSlot})` });
+    expect(getQueueSlots('alice', s)).toBe(slots);
+    expect(buyQueueSlot('ses_missing', 'bob')).toEqual({ error: 'Session not found' });
+    expect(getBalance('bob')).toBe(100);
+  });
+});
+
+describe('bumpTrack', () => {
+  it('charges the owner and raises the track a priority tier', () => {
+    const s = room();
+    const { tx, error } = bumpTrack(s, 'alice', `${s}_a1`);
+
+    expect(error).toBeUndefined();
+    expect(tx).toMatchObject({ amount: -SPEND_RULES.priorityBump, reason: 'priority_bump', refId: `${s}_a1` });
+    expect(getBalance('alice')).toBe(100 - SPEND_RULES.priorityBump);
+    expect(QueueRepo.findById(`${s}_a1`)!.priority).toBe(1);
+  });
+
+  it("refuses someone else's track", () => {
+    const s = room();
+    expect(bumpTrack(s, 'bob', `${s}_a1`)).toEqual({ error: 'You can only bump your own tracks' });
+    expect(getBalance('bob')).toBe(100);
+  });
+
+  it('refuses the playing track and tracks from another room', () => {
+    const s = room();
+    const other = room();
+
+    expect(bumpTrack(s, 'host', `${s}_now`)).toEqual({ error: 'Only queued tracks can be bumped' });
+    expect(bumpTrack(s, 'alice', `${other}_a1`)).toEqual({ error: 'Only queued tracks can be bumped' });
+  });
+
+  it('leaves the track alone on an overdraw', () => {
+    const s = room();
+    VoltageRepo.setBalance('alice', SPEND_RULES.priorityBump - 1);
+
+    expect(bumpTrack(s, 'alice', `${s}_a1`)).toEqual({ error: `Not enough voltage (bump costs ${SPEND_RULES.priorityBump})` });
+    expect(QueueRepo.findById(`${s}_a1`)!.priority).toBe(0);
+    expect(getBalance('alice')).toBe(SPEND_RULES.priorityBump - 1);
+  });
+});
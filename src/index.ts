@@ -16,6 +16,9 @@ import { Server } from 'socket.io';
 import cors from 'cors';
 import authRoutes from './routes/authRoutes';
 import sessionRoutes from './routes/sessionRoutes';
+import voltageRoutes from './routes/voltageRoutes';
+import trackRoutes from './routes/trackRoutes';
+import { mountIntegrations } from './integrations';
 import { setupSocketHandlers } from './socketHandler';
 
 const PORT = parseInt(process.env.PORT || '5000', 10);
@@ -26,14 +29,20 @@ const app = express();
 app.use(cors());
 app.use(express.json());
 
+// Optional third-party integrations — mounted only when their env config is set.
+// Before /api/auth so their sub-paths (/api/auth/lastfm, …) are matched first.
+const integrations = mountIntegrations(app);
+
 // Health check
 app.get('/api/health', (_req, res) => {
-  res.json({ status: 'ok', timestamp: new Date().toISOString() });
+  res.json({ status: 'ok', timestamp: new Date().toISOString(), integrations });
 });
 
 // Routes
 app.use('/api/auth', authRoutes);
 app.use('/api/sessions', sessionRoutes);
+app.use('/api/voltage', voltageRoutes);
+app.use('/api/tracks', trackRoutes);
 
 // Search routes (sessions search is on session router, users search here)
 app.get('/api/search/sessions', (req, res) => {
@@ -76,7 +85,11 @@ const io = new Server(httpServer, {
   transports: ['websocket', 'polling'],
 });
 
-setupSocketHandlers(io);
+const socketIntervals = setupSocketHandlers(io);
+httpServer.on('close', () => socketIntervals.forEach(clearInterval));
+
+// REST routes that broadcast (e.g. ending a session) reach sockets via req.app.get('io')
+app.set('io', io);
 
 // ─── Start ──────────────────────────────────────────────────────────────────
 
@@ -86,7 +99,8 @@ httpServer.listen(PORT, '0.0.0.0', () => {
   console.log(`  ╚════════════════════════════════════╝\n`);
   console.log(`  REST API:  http://localhost:${PORT}/api`);
   console.log(`  Socket.io: ws://localhost:${PORT}`);
-  console.log(`  Health:    http://localhost:${PORT}/api/health\n`);
+  console.log(`  Health:    http://localhost:${PORT}/api/health`);
+  console.log(`  Integrations: ${integrations.map((i) => `${i.id} (${i.status})`).join(', ')}\n`);
 });
 
 export { app, httpServer, io };
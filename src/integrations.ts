@@ -0,0 +1,147 @@
+/**
+ * Integrations — optional third-party services
+ *
+ * Each integration declares the env vars it needs, how to turn them into its
+ * routers' config, and the routers it mounts. mountIntegrations() mounts
+ * every integration whose required config is present and returns how each
+ * one fared; GET /api/health reports that list.
+ *
+ *   lastfm     → /api/auth/lastfm, /api/scrobble
+ *   tidal      → /api/auth/tidal
+ *   soundcloud → /api/auth/soundcloud
+ *   genius     → /api/lyrics
+ *
+ * Routers never read process.env themselves — config is passed in, so an
+ * unconfigured integration simply isn't mounted (its routes 404). OAuth
+ * integrations also register how to refresh tokens (services/connectedAccounts).
+ */
+
+import { Router } from 'express';
+import { createLastfmRouter, LastfmConfig } from './routes/authLastfm';
+import { createScrobbleRouter } from './routes/scrobble';
+import { createTidalRouter, createTidalRefresher, TidalConfig } from './routes/authTidal';
+import { createSoundcloudRouter, createSoundcloudRefresher, SoundcloudConfig } from './routes/authSoundcloud';
+import { createLyricsRouter, LyricsConfig } from './routes/lyrics';
+import { setTokenRefresher, isProvider, TokenRefresher } from './services/connectedAccounts';
+
+export type IntegrationEnv = Record<string, string | undefined>;
+
+export interface IntegrationRoute {
+  path: string;
+  router: Router;
+}
+
+export interface Integration<C = any> {
+  id: string;
+  name: string;
+  /** Env vars that must be set (non-empty) before the integration is mounted */
+  requires: string[];
+  /** The routers' config, read from the environment once `requires` is satisfied */
+  config: (env: IntegrationEnv) => C;
+  routes: (config: C) => IntegrationRoute[];
+  /** OAuth providers: how to refresh a user's expired access token */
+  tokenRefresher?: (config: C) => TokenRefresher;
+}
+
+/**
+ *   enabled      → routes are mounted
+ *   unconfigured → required env vars are missing (see missingConfig)
+ *   failed       → config was present but building the routers threw
+ */
+export type IntegrationState = 'enabled' | 'unconfigured' | 'failed';
+
+export interface IntegrationStatus {
+  id: string;
+  name: string;
+  status: IntegrationState;
+  routes: string[];
+  missingConfig: string[];
+  error?: string;
+}
+
+/** Anything that can mount a router at a path (an Express app or router) */
+interface Mountable {
+  use(path: string, router: Router): unknown;
+}
+
+// ─── Registry ───────────────────────────────────────────────
+
+const lastfm: Integration<LastfmConfig> = {
+  id: 'lastfm',
+  name: 'Last.fm',
+  requires: ['LASTFM_API_KEY', 'LASTFM_SHARED_SECRET'],
+  config: (env) => ({ apiKey: env.LASTFM_API_KEY!, sharedSecret: env.LASTFM_SHARED_SECRET! }),
+  routes: (config) => [
+    { path: '/api/auth/lastfm', router: createLastfmRouter(config) },
+    { path: '/api/scrobble', router: createScrobbleRouter(config) },
+  ],
+};
+
+const tidal: Integration<TidalConfig> = {
+  id: 'tidal',
+  name: 'Tidal',
+  // Public (PKCE) clients have no secret
+  requires: ['TIDAL_CLIENT_ID'],
+  config: (env) => ({ clientId: env.TIDAL_CLIENT_ID!, clientSecret: env.TIDAL_CLIENT_SECRET || '' }),
+  routes: (config) => [{ path: '/api/auth/tidal', router: createTidalRouter(config) }],
+  tokenRefresher: createTidalRefresher,
+};
+
+const soundcloud: Integration<SoundcloudConfig> = {
+  id: 'soundcloud',
+  name: 'SoundCloud',
+  requires: ['SOUNDCLOUD_CLIENT_ID', 'SOUNDCLOUD_CLIENT_SECRET'],
+  config: (env) => ({
+    clientId: env.SOUNDCLOUD_CLIENT_ID!,
+    clientSecret: env.SOUNDCLOUD_CLIENT_SECRET!,
+    redirectUri: env.SOUNDCLOUD_REDIRECT_URI || 'http://localhost:5000/api/auth/soundcloud/callback',
+  }),
+  routes: (config) => [{ path: '/api/auth/soundcloud', router: createSoundcloudRouter(config) }],
+  tokenRefresher: createSoundcloudRefresher,
+};
+
+const genius: Integration<LyricsConfig> = {
+  id: 'genius',
+  name: 'Genius',
+  requires: ['GENIUS_CLIENT_ACCESS_TOKEN'],
+  config: (env) => ({ geniusAccessToken: env.GENIUS_CLIENT_ACCESS_TOKEN! }),
+  routes: (config) => [{ path: '/api/lyrics', router: createLyricsRouter(config) }],
+};
+
+export const INTEGRATIONS: Integration[] = [lastfm, tidal, soundcloud, genius];
+
+// ─── Mounting ───────────────────────────────────────────────
+
+/** Required env vars that are unset or empty */
+export function missingConfig(integration: Integration, env: IntegrationEnv): string[] {
+  return integration.requires.filter((key) => !env[key]);
+}
+
+/**
+ * Mount every configured integration on `app`. An integration that fails to
+ * build is reported as failed rather than taking the server down.
+ */
+export function mountIntegrations(
+  app: Mountable,
+  env: IntegrationEnv = process.env,
+  integrations: Integration[] = INTEGRATIONS,
+): IntegrationStatus[] {
+  return integrations.map((integration) => {
+    const { id, name } = integration;
+    const missing = missingConfig(integration, env);
+    if (missing.length > 0) {
+      return { id, name, status: 'unconfigured', routes: [], missingConfig: missing };
+    }
+
+    try {
+      const config = integration.config(env);
+      const routes = integration.routes(config);
+      for (const route of routes) app.use(route.path, route.router);
+      if (integration.tokenRefresher && isProvider(id)) setTokenRefresher(id, integration.tokenRefresher(config));
+      return { id, name, status: 'enabled', routes: routes.map((r) => r.path), missingConfig: [] };
+    } catch (err: any) {
+      console.error(`[Integrations] ${name} failed to start:`, err);
+      return { id, name, status: 'failed', routes: [], missingConfig: [], error: err?.message || String(err) };
+    }
+  });
+}
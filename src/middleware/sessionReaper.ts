@@ -13,6 +13,7 @@
  */
 
 import db from '../database';
+import { clearPlayback } from '../services/playback';
 
 /** Max session lifetime in hours before auto-reap */
 const MAX_AGE_HOURS = parseInt(process.env.SESSION_MAX_AGE_HOURS || '24', 10);
@@ -47,6 +48,7 @@ function reapStaleSessions(): void {
   });
 
   reapTransaction(stale);
+  for (const s of stale) clearPlayback(s.id);
 }
 
 /** Start the periodic reaper. Returns the interval ID for cleanup. */
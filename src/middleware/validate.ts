@@ -5,6 +5,9 @@
  * Strips HTML, enforces length limits, normalizes whitespace.
  */
 
+import { SettingsPatch } from '../services/sessionSettings';
+import { OpenFloorConfig } from '../services/queueOrder';
+
 /** Strip HTML tags — prevents stored XSS in chat, usernames, etc. */
 export function stripHtml(input: string): string {
   return input.replace(/<[^>]*>/g, '');
@@ -59,13 +62,106 @@ export function validatePassword(password: unknown): { valid: boolean; error?: s
 
 /** Validate a room mode string */
 export function validateRoomMode(mode: unknown): { valid: boolean; value: string; error?: string } {
-  const allowed = ['campfire', 'spotlight', 'openFloor', 'open_floor'];
+  const allowed = ['campfire', 'spotlight', 'openFloor', 'open_floor', 'duel'];
   if (typeof mode !== 'string' || !allowed.includes(mode)) {
     return { valid: false, value: '', error: 'Invalid room mode' };
   }
   return { valid: true, value: mode };
 }
 
+/** Validate a skip-vote threshold (fraction of the room, above 0 and at most 1) */
+export function validateSkipThreshold(value: unknown): { valid: boolean; value: number; error?: string } {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0 || value > 1) {
+    return { valid: false, value: 0, error: 'Skip threshold must be a number above 0 and at most 1' };
+  }
+  return { valid: true, value };
+}
+
+/**
+ * Validate a (partial) session settings object. Only settings keys are
+ * looked at, so this can run over a whole request body.
+ */
+export function validateSessionSettings(input: unknown): { valid: boolean; value: SettingsPatch; error?: string } {
+  const body = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>;
+  const value: SettingsPatch = {};
+  const fail = (error: string) => ({ valid: false, value: {}, error });
+
+  if (body.maxQueuePerUser !== undefined) {
+    const n = body.maxQueuePerUser;
+    if (typeof n !== 'number' || !Number.isInteger(n) || n < 1 || n > 50) {
+      return fail('maxQueuePerUser must be a whole number from 1 to 50');
+    }
+    value.maxQueuePerUser = n;
+  }
+
+  if (body.maxTrackDuration !== undefined) {
+    const n = body.maxTrackDuration;
+    if (n !== null && (typeof n !== 'number' || !Number.isInteger(n) || n < 30 || n > 7200)) {
+      return fail('maxTrackDuration must be null or a whole number of seconds from 30 to 7200');
+    }
+    value.maxTrackDuration = n;
+  }
+
+  if (body.skipThreshold !== undefined) {
+    const threshold = validateSkipThreshold(body.skipThreshold);
+    if (!threshold.valid) return fail(threshold.error!);
+    value.skipThreshold = threshold.value;
+  }
+
+  for (const key of ['allowDuplicates', 'chatEnabled', 'explicitFilter', 'weightByListening'] as const) {
+    if (body[key] === undefined) continue;
+    if (typeof body[key] !== 'boolean') return fail(`${key} must be true or false`);
+    value[key] = body[key] as boolean;
+  }
+
+  if (body.openFloor !== undefined) {
+    const openFloor = validateOpenFloorConfig(body.openFloor);
+    if (!openFloor.valid) return fail(openFloor.error!);
+    value.openFloor = openFloor.value;
+  }
+
+  if (body.description !== undefined) {
+    if (typeof body.description !== 'string') return fail('description must be a string');
+    value.description = sanitizeText(body.description, 280);
+  }
+
+  return { valid: true, value };
+}
+
+/** Validate a (partial) open_floor scoring config */
+export function validateOpenFloorConfig(input: unknown): { valid: boolean; value: Partial<OpenFloorConfig>; error?: string } {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { valid: false, value: {}, error: 'openFloor must be an object' };
+  }
+  const body = input as Record<string, unknown>;
+  const value: Partial<OpenFloorConfig> = {};
+
+  const ranges: [keyof OpenFloorConfig, number, number][] = [
+    ['voteHalfLifeMin', 1, 24 * 60],
+    ['ageBoostPerMin', 0, 10],
+    ['maxAgeBoost', 0, 100],
+    ['voterWeight', 0, 10],
+  ];
+  for (const [key, min, max] of ranges) {
+    if (body[key] === undefined) continue;
+    const n = body[key];
+    if (typeof n !== 'number' || !Number.isFinite(n) || n < min || n > max) {
+      return { valid: false, value: {}, error: `openFloor.${key} must be a number from ${min} to ${max}` };
+    }
+    (value as any)[key] = n;
+  }
+
+  if (body.downvoteRemoval !== undefined) {
+    const n = body.downvoteRemoval;
+    if (n !== null && (typeof n !== 'number' || !Number.isInteger(n) || n < 1 || n > 100)) {
+      return { valid: false, value: {}, error: 'openFloor.downvoteRemoval must be null or a whole number from 1 to 100' };
+    }
+    value.downvoteRemoval = n;
+  }
+
+  return { valid: true, value };
+}
+
 /** Validate a join code (6 chars alphanumeric) */
 export function validateJoinCode(code: unknown): { valid: boolean; value: string; error?: string } {
   if (typeof code !== 'string') return { valid: false, value: '', error: 'Join code is required' };
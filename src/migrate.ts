@@ -0,0 +1,19 @@
+/**
+ * Migration CLI — `npm run migrate`
+ *
+ * Opening the database applies any pending migrations (same DB_PATH as the
+ * server, read from .env too); this then lists every migration with the date
+ * it was applied.
+ */
+
+import 'dotenv/config';
+import db from './database';
+import { migrationStatus, schemaVersion } from './migrations';
+
+console.log(`Schema version: ${schemaVersion(db)}\n`);
+for (const m of migrationStatus(db)) {
+  const version = String(m.version).padStart(3, '0');
+  console.log(`  ${version}_${m.name.padEnd(28)} ${m.appliedAt ?? 'pending'}`);
+}
+
+db.close();
@@ -0,0 +1,438 @@
+/**
+ * Schema Migrations
+ *
+ * Ordered, versioned changes to the SQLite schema. The database's
+ * `PRAGMA user_version` is the last version applied; anything above it runs
+ * at startup (database.ts) or from `npm run migrate`, each migration in its
+ * own transaction along with its `schema_migrations` row.
+ *
+ * Databases created before migrations existed start at version 0 with some
+ * of these changes already in place, so migrations are written to be safe
+ * to re-apply: CREATE … IF NOT EXISTS, addColumn(), and data fixes that
+ * check before they act.
+ *
+ * Never edit or reorder a migration that has shipped — add a new one.
+ */
+
+import { Database as DatabaseType } from 'better-sqlite3';
+import { encryptToken } from './tokenCrypto';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: DatabaseType) => void;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  appliedAt: string | null;
+}
+
+/** Add a column unless the table already has it */
+function addColumn(db: DatabaseType, table: string, column: string, definition: string): void {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some((c) => c.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+function hasColumn(db: DatabaseType, table: string, column: string): boolean {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  return columns.some((c) => c.name === column);
+}
+
+// ─── Migrations ──────────────────────────────────────────────
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'initial_schema',
+    up: (db) => db.exec(`
+      CREATE TABLE IF NOT EXISTS users (
+        id TEXT PRIMARY KEY,
+        username TEXT UNIQUE NOT NULL,
+        email TEXT UNIQUE NOT NULL,
+        password_hash TEXT NOT NULL,
+        avatar_url TEXT,
+        sessions_hosted INTEGER DEFAULT 0,
+        tracks_added INTEGER DEFAULT 0,
+        total_listening_time INTEGER DEFAULT 0,
+        voltage_balance INTEGER DEFAULT 100,
+        push_token TEXT,
+        created_at TEXT DEFAULT (datetime('now'))
+      );
+
+      CREATE TABLE IF NOT EXISTS sessions (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        host_id TEXT NOT NULL REFERENCES users(id),
+        description TEXT DEFAULT '',
+        genre TEXT DEFAULT 'Mixed',
+        room_mode TEXT DEFAULT 'campfire',
+        is_public INTEGER DEFAULT 1,
+        is_live INTEGER DEFAULT 1,
+        join_code TEXT UNIQUE NOT NULL,
+        created_at TEXT DEFAULT (datetime('now'))
+      );
+
+      CREATE TABLE IF NOT EXISTS session_listeners (
+        session_id TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+        user_id TEXT NOT NULL REFERENCES users(id),
+        joined_at TEXT DEFAULT (datetime('now')),
+        PRIMARY KEY (session_id, user_id)
+      );
+
+      CREATE TABLE IF NOT EXISTS queue_tracks (
+        id TEXT PRIMARY KEY,
+        session_id TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+        title TEXT NOT NULL,
+        artist TEXT NOT NULL,
+        album TEXT,
+        album_art TEXT,
+        preview_url TEXT,
+        duration INTEGER DEFAULT 30,
+        source TEXT DEFAULT 'itunes',
+        source_id TEXT,
+        added_by_id TEXT NOT NULL REFERENCES users(id),
+        added_by_username TEXT NOT NULL,
+        votes INTEGER DEFAULT 0,
+        voted_by TEXT DEFAULT '{}',
+        status TEXT DEFAULT 'approved',
+        position INTEGER DEFAULT 0,
+        is_current INTEGER DEFAULT 0,
+        added_at TEXT DEFAULT (datetime('now'))
+      );
+
+      CREATE TABLE IF NOT EXISTS chat_messages (
+        id TEXT PRIMARY KEY,
+        session_id TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+        user_id TEXT NOT NULL,
+        username TEXT NOT NULL,
+        text TEXT NOT NULL,
+        type TEXT DEFAULT 'message',
+        timestamp TEXT DEFAULT (datetime('now'))
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_queue_session ON queue_tracks(session_id, position);
+      CREATE INDEX IF NOT EXISTS idx_listeners_session ON session_listeners(session_id);
+      CREATE INDEX IF NOT EXISTS idx_chat_session ON chat_messages(session_id, timestamp);
+    `),
+  },
+  {
+    version: 2,
+    name: 'voltage',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS voltage_transactions (
+          id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          session_id TEXT,
+          amount INTEGER NOT NULL,
+          balance_after INTEGER NOT NULL,
+          reason TEXT NOT NULL,
+          ref_id TEXT,
+          created_at TEXT DEFAULT (datetime('now'))
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_voltage_user ON voltage_transactions(user_id, created_at);
+      `);
+      addColumn(db, 'queue_tracks', 'priority', 'INTEGER DEFAULT 0');
+      addColumn(db, 'queue_tracks', 'powered_by', 'TEXT');
+      addColumn(db, 'queue_tracks', 'powered_at', 'TEXT');
+    },
+  },
+  {
+    version: 3,
+    name: 'forecast_picks',
+    up: (db) => db.exec(`
+      CREATE TABLE IF NOT EXISTS forecast_picks (
+        id TEXT PRIMARY KEY,
+        session_id TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        round_id TEXT NOT NULL,
+        track_id TEXT NOT NULL,
+        status TEXT DEFAULT 'open',
+        points INTEGER DEFAULT 0,
+        picked_at TEXT DEFAULT (datetime('now')),
+        UNIQUE (session_id, user_id, round_id)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_forecast_session ON forecast_picks(session_id, round_id);
+    `),
+  },
+  {
+    version: 4,
+    name: 'session_stats_and_recaps',
+    up: (db) => db.exec(`
+      CREATE TABLE IF NOT EXISTS session_stats (
+        session_id TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        tracks_added INTEGER DEFAULT 0,
+        tracks_played INTEGER DEFAULT 0,
+        reactions INTEGER DEFAULT 0,
+        PRIMARY KEY (session_id, user_id)
+      );
+
+      CREATE TABLE IF NOT EXISTS session_recaps (
+        session_id TEXT PRIMARY KEY REFERENCES sessions(id) ON DELETE CASCADE,
+        ended_by TEXT,
+        ended_at TEXT DEFAULT (datetime('now')),
+        recap TEXT NOT NULL
+      );
+    `),
+  },
+  {
+    version: 5,
+    name: 'session_roles',
+    up: (db) => db.exec(`
+      CREATE TABLE IF NOT EXISTS session_roles (
+        session_id TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        role TEXT NOT NULL,
+        granted_by TEXT,
+        granted_at TEXT DEFAULT (datetime('now')),
+        PRIMARY KEY (session_id, user_id)
+      );
+    `),
+  },
+  {
+    version: 6,
+    name: 'playback_state',
+    up: (db) => db.exec(`
+      CREATE TABLE IF NOT EXISTS playback_state (
+        session_id TEXT PRIMARY KEY REFERENCES sessions(id) ON DELETE CASCADE,
+        track_id TEXT,
+        state TEXT NOT NULL DEFAULT 'stopped',
+        position REAL NOT NULL DEFAULT 0,
+        updated_at INTEGER NOT NULL
+      );
+    `),
+  },
+  {
+    version: 7,
+    name: 'play_history',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS played_tracks (
+          id TEXT PRIMARY KEY,
+          session_id TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+          title TEXT NOT NULL,
+          artist TEXT NOT NULL,
+          album TEXT,
+          album_art TEXT,
+          duration INTEGER,
+          source TEXT,
+          source_id TEXT,
+          added_by_id TEXT,
+          added_by_username TEXT,
+          votes INTEGER DEFAULT 0,
+          outcome TEXT NOT NULL,
+          started_at TEXT,
+          ended_at TEXT DEFAULT (datetime('now'))
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_played_session ON played_tracks(session_id, ended_at);
+      `);
+      addColumn(db, 'queue_tracks', 'started_at', 'TEXT');
+    },
+  },
+  {
+    version: 8,
+    name: 'session_settings',
+    up: (db) => {
+      addColumn(db, 'sessions', 'skip_threshold', 'REAL DEFAULT 0.5');
+      addColumn(db, 'sessions', 'max_queue_per_user', 'INTEGER DEFAULT 5');
+      addColumn(db, 'sessions', 'allow_duplicates', 'INTEGER DEFAULT 0');
+      addColumn(db, 'sessions', 'max_track_duration', 'INTEGER');
+      addColumn(db, 'sessions', 'chat_enabled', 'INTEGER DEFAULT 1');
+      addColumn(db, 'sessions', 'explicit_filter', 'INTEGER DEFAULT 0');
+      addColumn(db, 'sessions', 'weight_by_listening', 'INTEGER DEFAULT 0');
+      addColumn(db, 'sessions', 'open_floor_config', 'TEXT');
+    },
+  },
+  {
+    version: 9,
+    name: 'queue_pins',
+    up: (db) => addColumn(db, 'queue_tracks', 'pinned_at', 'TEXT'),
+  },
+  {
+    version: 10,
+    name: 'track_votes',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS track_votes (
+          track_id TEXT NOT NULL REFERENCES queue_tracks(id) ON DELETE CASCADE,
+          user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          direction INTEGER NOT NULL CHECK (direction IN (1, -1)),
+          voted_at TEXT DEFAULT (datetime('now')),
+          PRIMARY KEY (track_id, user_id)
+        );
+      `);
+
+      // Votes used to be a JSON map in queue_tracks.voted_by, with the net
+      // total cached in queue_tracks.votes. Copy them over and drop both.
+      if (!hasColumn(db, 'queue_tracks', 'voted_by')) return;
+      db.exec(`
+        INSERT OR IGNORE INTO track_votes (track_id, user_id, direction)
+        SELECT qt.id, vote.key, CASE WHEN vote.value > 0 THEN 1 ELSE -1 END
+        FROM queue_tracks qt,
+             json_each(CASE WHEN json_valid(qt.voted_by) THEN qt.voted_by ELSE '{}' END) vote
+        WHERE vote.value != 0 AND vote.key IN (SELECT id FROM users);
+
+        ALTER TABLE queue_tracks DROP COLUMN voted_by;
+        ALTER TABLE queue_tracks DROP COLUMN votes;
+      `);
+    },
+  },
+  {
+    version: 11,
+    name: 'legacy_user_columns',
+    // Columns the code already read before any schema created them
+    up: (db) => {
+      addColumn(db, 'users', 'noise_gate', "TEXT DEFAULT 'medium'");
+      addColumn(db, 'users', 'lastfm_session_key', 'TEXT');
+      addColumn(db, 'users', 'lastfm_username', 'TEXT');
+      addColumn(db, 'users', 'spotify_access_token', 'TEXT');
+      addColumn(db, 'users', 'spotify_username', 'TEXT');
+      addColumn(db, 'users', 'soundcloud_access_token', 'TEXT');
+      addColumn(db, 'users', 'soundcloud_refresh_token', 'TEXT');
+      addColumn(db, 'users', 'tidal_access_token', 'TEXT');
+      addColumn(db, 'users', 'tidal_refresh_token', 'TEXT');
+    },
+  },
+  {
+    version: 12,
+    name: 'track_sources',
+    up: (db) => {
+      addColumn(db, 'queue_tracks', 'isrc', 'TEXT');
+
+      // The equivalent of a song on another provider, keyed by where the song
+      // came from. source_id NULL = searched and found no match.
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS track_sources (
+          origin_source TEXT NOT NULL,
+          origin_key TEXT NOT NULL,
+          source TEXT NOT NULL,
+          source_id TEXT,
+          title TEXT,
+          artist TEXT,
+          album TEXT,
+          album_art TEXT,
+          preview_url TEXT,
+          duration INTEGER,
+          match TEXT CHECK (match IN ('isrc', 'fuzzy')),
+          resolved_at TEXT DEFAULT (datetime('now')),
+          PRIMARY KEY (origin_source, origin_key, source)
+        );
+      `);
+    },
+  },
+  {
+    version: 13,
+    name: 'connected_accounts',
+    up: (db) => {
+      // Tokens are AES-256-GCM ciphertext (tokenCrypto.ts); expires_at is ISO 8601
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS connected_accounts (
+          user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+          provider TEXT NOT NULL,
+          access_token TEXT NOT NULL,
+          refresh_token TEXT,
+          expires_at TEXT,
+          provider_username TEXT,
+          connected_at TEXT DEFAULT (datetime('now')),
+          updated_at TEXT DEFAULT (datetime('now')),
+          PRIMARY KEY (user_id, provider)
+        );
+      `);
+
+      // Tokens used to sit in plaintext columns on users. Encrypt them into
+      // connected_accounts and drop the columns.
+      const legacy = [
+        { provider: 'lastfm', access: 'lastfm_session_key', refresh: null, username: 'lastfm_username' },
+        { provider: 'spotify', access: 'spotify_access_token', refresh: null, username: 'spotify_username' },
+        { provider: 'soundcloud', access: 'soundcloud_access_token', refresh: 'soundcloud_refresh_token', username: null },
+        { provider: 'tidal', access: 'tidal_access_token', refresh: 'tidal_refresh_token', username: null },
+      ];
+      const insert = db.prepare(`
+        INSERT OR IGNORE INTO connected_accounts (user_id, provider, access_token, refresh_token, provider_username)
+        VALUES (?, ?, ?, ?, ?)
+      `);
+
+      for (const { provider, access, refresh, username } of legacy) {
+        if (!hasColumn(db, 'users', access)) continue;
+        const columns = [access, refresh, username].map((c) => c ?? 'NULL').join(', ');
+        const rows = db.prepare(`SELECT id, ${columns} FROM users WHERE ${access} IS NOT NULL AND ${access} != ''`)
+          .raw().all() as [string, string, string | null, string | null][];
+        for (const [userId, accessToken, refreshToken, providerUsername] of rows) {
+          insert.run(userId, provider, encryptToken(accessToken), refreshToken ? encryptToken(refreshToken) : null, providerUsername);
+        }
+        for (const column of [access, refresh, username]) {
+          if (column) db.exec(`ALTER TABLE users DROP COLUMN ${column}`);
+        }
+      }
+    },
+  },
+];
+
+// ─── Runner ──────────────────────────────────────────────────
+
+function ensureMigrationsTable(db: DatabaseType): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT DEFAULT (datetime('now'))
+    );
+  `);
+}
+
+export function schemaVersion(db: DatabaseType): number {
+  return db.pragma('user_version', { simple: true }) as number;
+}
+
+/**
+ * Apply every migration above the database's user_version, in order.
+ * Returns the ones that ran. Throws if the database is from a newer build.
+ */
+export function runMigrations(db: DatabaseType, migrations: Migration[] = MIGRATIONS): Migration[] {
+  const ordered = [...migrations].sort((a, b) => a.version - b.version);
+  ordered.forEach((m, i) => {
+    if (i > 0 && m.version === ordered[i - 1].version) {
+      throw new Error(`Duplicate migration version ${m.version} (${ordered[i - 1].name}, ${m.name})`);
+    }
+  });
+
+  const current = schemaVersion(db);
+  const latest = ordered.length ? ordered[ordered.length - 1].version : 0;
+  if (current > latest) {
+    throw new Error(`Database is at schema version ${current}, newer than this build knows (${latest})`);
+  }
+
+  ensureMigrationsTable(db);
+  const record = db.prepare('INSERT OR REPLACE INTO schema_migrations (version, name) VALUES (?, ?)');
+
+  const pending = ordered.filter((m) => m.version > current);
+  for (const migration of pending) {
+    db.transaction(() => {
+      migration.up(db);
+      record.run(migration.version, migration.name);
+      db.pragma(`user_version = ${migration.version}`);
+    })();
+  }
+  return pending;
+}
+
+/** Every known migration and when it was applied (null = pending) */
+export function migrationStatus(db: DatabaseType, migrations: Migration[] = MIGRATIONS): MigrationStatus[] {
+  ensureMigrationsTable(db);
+  const applied = new Map(
+    (db.prepare('SELECT version, applied_at FROM schema_migrations').all() as { version: number; applied_at: string }[])
+      .map((r) => [r.version, r.applied_at])
+  );
+
+  return [...migrations]
+    .sort((a, b) => a.version - b.version)
+    .map((m) => ({ version: m.version, name: m.name, appliedAt: applied.get(m.version) ?? null }));
+}
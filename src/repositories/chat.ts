@@ -0,0 +1,23 @@
+/**
+ * Chat Repository — queries over `chat_messages`
+ */
+
+import db from '../database';
+import { ChatMessageRow } from './rows';
+
+const latest = db.prepare<[string, number], ChatMessageRow>(
+  'SELECT * FROM chat_messages WHERE session_id = ? ORDER BY timestamp DESC LIMIT ?'
+);
+const insert = db.prepare(`
+  INSERT INTO chat_messages (id, session_id, user_id, username, text, timestamp)
+  VALUES (@id, @session_id, @user_id, @username, @text, @timestamp)
+`);
+
+/** The last `limit` messages, oldest first */
+export function listRecent(sessionId: string, limit = 50): ChatMessageRow[] {
+  return latest.all(sessionId, limit).reverse();
+}
+
+export function insertMessage(message: Omit<ChatMessageRow, 'type'>): void {
+  insert.run(message);
+}
@@ -0,0 +1,49 @@
+/**
+ * Connected Accounts Repository — queries over `connected_accounts`
+ *
+ * Rows hold ciphertext; services/connectedAccounts encrypts and decrypts.
+ */
+
+import db from '../database';
+import { ConnectedAccountRow } from './rows';
+
+const byProvider = db.prepare<[string, string], ConnectedAccountRow>(
+  'SELECT * FROM connected_accounts WHERE user_id = ? AND provider = ?'
+);
+const forUser = db.prepare<[string], ConnectedAccountRow>(
+  'SELECT * FROM connected_accounts WHERE user_id = ? ORDER BY provider'
+);
+const upsert = db.prepare(`
+  INSERT INTO connected_accounts (user_id, provider, access_token, refresh_token, expires_at, provider_username)
+  VALUES (@user_id, @provider, @access_token, @refresh_token, @expires_at, @provider_username)
+  ON CONFLICT (user_id, provider) DO UPDATE SET
+    access_token = excluded.access_token,
+    refresh_token = excluded.refresh_token,
+    expires_at = excluded.expires_at,
+    provider_username = COALESCE(excluded.provider_username, connected_accounts.provider_username),
+    updated_at = datetime('now')
+`);
+const deleteByProvider = db.prepare<[string, string]>(
+  'DELETE FROM connected_accounts WHERE user_id = ? AND provider = ?'
+);
+
+export type ConnectedAccountWrite = Pick<ConnectedAccountRow,
+  'user_id' | 'provider' | 'access_token' | 'refresh_token' | 'expires_at' | 'provider_username'>;
+
+export function find(userId: string, provider: string): ConnectedAccountRow | undefined {
+  return byProvider.get(userId, provider);
+}
+
+export function listForUser(userId: string): ConnectedAccountRow[] {
+  return forUser.all(userId);
+}
+
+/** Connect, or replace the tokens of an existing connection (keeping its username if none is given) */
+export function save(account: ConnectedAccountWrite): void {
+  upsert.run(account);
+}
+
+/** Returns false if the user wasn't connected */
+export function remove(userId: string, provider: string): boolean {
+  return deleteByProvider.run(userId, provider).changes > 0;
+}
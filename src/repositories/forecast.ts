@@ -0,0 +1,79 @@
+/**
+ * Forecast Repository — queries over `forecast_picks`
+ *
+ * A pick moves open → locked → won/lost (or void); see services/forecast.
+ */
+
+import db from '../database';
+import { ForecastPickRow, ForecastStandingRow } from './rows';
+
+const byRound = db.prepare<[string, string, string], ForecastPickRow>(
+  'SELECT * FROM forecast_picks WHERE session_id = ? AND user_id = ? AND round_id = ?'
+);
+const upsert = db.prepare<[string, string, string, string, string]>(`
+  INSERT INTO forecast_picks (id, session_id, user_id, round_id, track_id)
+  VALUES (?, ?, ?, ?, ?)
+  ON CONFLICT (session_id, user_id, round_id) DO UPDATE SET track_id = excluded.track_id, picked_at = datetime('now')
+`);
+const lockOpen = db.prepare<[string, string]>(`
+  UPDATE forecast_picks SET status = 'locked'
+  WHERE session_id = ? AND round_id = ? AND status = 'open'
+`);
+const voidLocked = db.prepare<[string, string]>(`
+  UPDATE forecast_picks SET status = 'void'
+  WHERE session_id = ? AND round_id = ? AND status = 'locked'
+`);
+const lockedOn = db.prepare<[string, string, string | null], { userId: string; username: string }>(`
+  SELECT fp.user_id as userId, u.username
+  FROM forecast_picks fp JOIN users u ON fp.user_id = u.id
+  WHERE fp.session_id = ? AND fp.round_id = ? AND fp.status = 'locked' AND fp.track_id = ?
+`);
+const scoreLocked = db.prepare<[string | null, string | null, number, string, string]>(`
+  UPDATE forecast_picks
+  SET status = CASE WHEN track_id = ? THEN 'won' ELSE 'lost' END,
+      points = CASE WHEN track_id = ? THEN ? ELSE 0 END
+  WHERE session_id = ? AND round_id = ? AND status = 'locked'
+`);
+const standings = db.prepare<[string], ForecastStandingRow>(`
+  SELECT fp.user_id as userId, u.username,
+         SUM(fp.points) as points,
+         SUM(CASE WHEN fp.status = 'won' THEN 1 ELSE 0 END) as correct,
+         COUNT(*) as total
+  FROM forecast_picks fp JOIN users u ON fp.user_id = u.id
+  WHERE fp.session_id = ? AND fp.status IN ('won', 'lost')
+  GROUP BY fp.user_id
+  ORDER BY points DESC, correct DESC, total ASC
+`);
+
+export function findPick(sessionId: string, userId: string, roundId: string): ForecastPickRow | undefined {
+  return byRound.get(sessionId, userId, roundId);
+}
+
+/** Make a pick, or change the track of an existing one */
+export function savePick(pick: Pick<ForecastPickRow, 'id' | 'session_id' | 'user_id' | 'round_id' | 'track_id'>): void {
+  upsert.run(pick.id, pick.session_id, pick.user_id, pick.round_id, pick.track_id);
+}
+
+/** Returns how many open picks were locked */
+export function lockRound(sessionId: string, roundId: string): number {
+  return lockOpen.run(sessionId, roundId).changes;
+}
+
+export function voidRound(sessionId: string, roundId: string): void {
+  voidLocked.run(sessionId, roundId);
+}
+
+/** Who has a locked pick on `trackId` this round */
+export function listPickersOf(sessionId: string, roundId: string, trackId: string | null): { userId: string; username: string }[] {
+  return lockedOn.all(sessionId, roundId, trackId);
+}
+
+/** Settle a round's locked picks: `points` to those on `trackId`, nothing to the rest */
+export function scoreRound(sessionId: string, roundId: string, trackId: string | null, points: number): void {
+  scoreLocked.run(trackId, trackId, points, sessionId, roundId);
+}
+
+/** Best first; only scored picks count */
+export function listStandings(sessionId: string): ForecastStandingRow[] {
+  return standings.all(sessionId);
+}
@@ -0,0 +1,19 @@
+/**
+ * Repositories — typed, prepared-once queries for the core tables
+ *
+ *   import { SessionsRepo, QueueRepo } from '../repositories';
+ *   const session = SessionsRepo.findWithHost(id);   // SessionWithHostRow | undefined
+ */
+
+export * as UsersRepo from './users';
+export * as SessionsRepo from './sessions';
+export * as QueueRepo from './queue';
+export * as ChatRepo from './chat';
+export * as TrackSourcesRepo from './trackSources';
+export * as ConnectedAccountsRepo from './connectedAccounts';
+export * as VoltageRepo from './voltage';
+export * as ForecastRepo from './forecast';
+export * as RolesRepo from './roles';
+export * as PlayHistoryRepo from './playHistory';
+export * as SessionStatsRepo from './sessionStats';
+export * from './rows';
@@ -0,0 +1,63 @@
+/**
+ * Play History Repository — queries over `played_tracks`
+ *
+ * Rows are copied from queue_tracks as tracks leave it (see
+ * services/playHistory).
+ */
+
+import db from '../database';
+import { PlayedTrackRow } from './rows';
+
+const copyCurrent = db.prepare<[string, string]>(`
+  INSERT OR IGNORE INTO played_tracks
+    (id, session_id, title, artist, album, album_art, duration, source, source_id,
+     added_by_id, added_by_username, votes, outcome, started_at)
+  SELECT id, session_id, title, artist, album, album_art, duration, source, source_id,
+         added_by_id, added_by_username,
+         (SELECT COALESCE(SUM(direction), 0) FROM track_votes WHERE track_id = queue_tracks.id), ?, started_at
+  FROM queue_tracks WHERE session_id = ? AND is_current = 1
+`);
+const page = db.prepare<[string, number, number], PlayedTrackRow>(`
+  SELECT * FROM played_tracks WHERE session_id = ?
+  ORDER BY ended_at DESC, rowid DESC
+  LIMIT ? OFFSET ?
+`);
+const countInSession = db.prepare<[string], { n: number }>(
+  'SELECT COUNT(*) as n FROM played_tracks WHERE session_id = ?'
+);
+const lastEndedBy = db.prepare<[string, string], { endedAt: string | null }>(
+  'SELECT MAX(ended_at) as endedAt FROM played_tracks WHERE session_id = ? AND added_by_id = ?'
+);
+const lastStarts = db.prepare<[string, string], { added_by_id: string; startedAt: string }>(`
+  SELECT added_by_id, MAX(started_at) as startedAt FROM (
+    SELECT added_by_id, started_at FROM played_tracks WHERE session_id = ?
+    UNION ALL
+    SELECT added_by_id, started_at FROM queue_tracks WHERE session_id = ? AND is_current = 1
+  )
+  WHERE started_at IS NOT NULL
+  GROUP BY added_by_id
+`);
+
+/** Copy the session's playing track in. Returns false if nothing was playing. */
+export function recordCurrent(sessionId: string, outcome: string): boolean {
+  return copyCurrent.run(outcome, sessionId).changes > 0;
+}
+
+/** Most recent first */
+export function list(sessionId: string, limit: number, offset: number): PlayedTrackRow[] {
+  return page.all(sessionId, limit, offset);
+}
+
+export function count(sessionId: string): number {
+  return countInSession.get(sessionId)!.n;
+}
+
+/** When the last track `userId` added finished playing, or null if none has */
+export function findLastEndedAt(sessionId: string, userId: string): string | null {
+  return lastEndedBy.get(sessionId, userId)?.endedAt ?? null;
+}
+
+/** When each adder's track last started playing, the one playing now included */
+export function listLastStarts(sessionId: string): { added_by_id: string; startedAt: string }[] {
+  return lastStarts.all(sessionId, sessionId);
+}
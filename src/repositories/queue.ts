@@ -0,0 +1,157 @@
+/**
+ * Queue Repository — queries over `queue_tracks`
+ *
+ * Every read comes back as a VotedQueueTrackRow: the track's votes are
+ * aggregated from track_votes in the same query. Play order is decided by
+ * services/queue; reads here are in plain position order.
+ */
+
+import db from '../database';
+import { QueueTrackRow, VotedQueueTrackRow } from './rows';
+
+/** Net votes and the voter map, aggregated from track_votes */
+const VOTED_TRACK = `
+  SELECT queue_tracks.*,
+    (SELECT COALESCE(SUM(direction), 0) FROM track_votes WHERE track_id = queue_tracks.id) AS votes,
+    (SELECT json_group_object(user_id, direction) FROM track_votes WHERE track_id = queue_tracks.id) AS voted_by
+  FROM queue_tracks`;
+
+const byId = db.prepare<[string], VotedQueueTrackRow>(`${VOTED_TRACK} WHERE id = ?`);
+const inSession = db.prepare<[string, string], VotedQueueTrackRow>(`${VOTED_TRACK} WHERE id = ? AND session_id = ?`);
+const current = db.prepare<[string], VotedQueueTrackRow>(
+  `${VOTED_TRACK} WHERE session_id = ? AND is_current = 1 LIMIT 1`
+);
+const all = db.prepare<[string], VotedQueueTrackRow>(`${VOTED_TRACK} WHERE session_id = ? ORDER BY position ASC`);
+const waiting = db.prepare<[string], VotedQueueTrackRow>(
+  `${VOTED_TRACK} WHERE session_id = ? AND is_current = 0 ORDER BY position ASC`
+);
+const approvedWaiting = db.prepare<[string], VotedQueueTrackRow>(
+  `${VOTED_TRACK} WHERE session_id = ? AND is_current = 0 AND status = 'approved' ORDER BY position ASC`
+);
+const pending = db.prepare<[string], VotedQueueTrackRow>(
+  `${VOTED_TRACK} WHERE session_id = ? AND status = 'pending' ORDER BY position ASC`
+);
+const maxPosition = db.prepare<[string], { maxPos: number }>(
+  'SELECT COALESCE(MAX(position), -1) as maxPos FROM queue_tracks WHERE session_id = ?'
+);
+const insert = db.prepare(`
+  INSERT INTO queue_tracks (id, session_id, title, artist, album, album_art, preview_url, duration, source, source_id, isrc, added_by_id, added_by_username, status, position)
+  VALUES (@id, @session_id, @title, @artist, @album, @album_art, @preview_url, @duration, @source, @source_id, @isrc, @added_by_id, @added_by_username, @status, @position)
+`);
+const makeCurrent = db.prepare<[string]>(
+  "UPDATE queue_tracks SET is_current = 1, started_at = datetime('now') WHERE id = ?"
+);
+const approveInSession = db.prepare<[string, string]>(
+  "UPDATE queue_tracks SET status = 'approved' WHERE id = ? AND session_id = ?"
+);
+const poweredWaiting = db.prepare<[string], { n: number }>(
+  'SELECT COUNT(*) as n FROM queue_tracks WHERE session_id = ? AND is_current = 0 AND powered_by IS NOT NULL'
+);
+const incrementPriority = db.prepare<[string]>('UPDATE queue_tracks SET priority = priority + 1 WHERE id = ?');
+const updatePowered = db.prepare<[string | null, string | null, string]>(
+  'UPDATE queue_tracks SET powered_by = ?, powered_at = ? WHERE id = ?'
+);
+const updatePinned = db.prepare<[number, string]>(
+  "UPDATE queue_tracks SET pinned_at = CASE WHEN ? THEN datetime('now') END WHERE id = ?"
+);
+const updatePosition = db.prepare<[number, string]>('UPDATE queue_tracks SET position = ? WHERE id = ?');
+const deleteById = db.prepare<[string]>('DELETE FROM queue_tracks WHERE id = ?');
+const deleteInSession = db.prepare<[string, string]>('DELETE FROM queue_tracks WHERE id = ? AND session_id = ?');
+const deleteCurrent = db.prepare<[string]>('DELETE FROM queue_tracks WHERE session_id = ? AND is_current = 1');
+const deleteAll = db.prepare<[string]>('DELETE FROM queue_tracks WHERE session_id = ?');
+
+export type NewQueueTrack = Pick<QueueTrackRow,
+  'id' | 'session_id' | 'title' | 'artist' | 'album' | 'album_art' | 'preview_url' | 'duration'
+  | 'source' | 'source_id' | 'isrc' | 'added_by_id' | 'added_by_username' | 'status' | 'position'>;
+
+export function findById(trackId: string): VotedQueueTrackRow | undefined {
+  return byId.get(trackId);
+}
+
+export function findInSession(trackId: string, sessionId: string): VotedQueueTrackRow | undefined {
+  return inSession.get(trackId, sessionId);
+}
+
+/** The session's playing track */
+export function findCurrent(sessionId: string): VotedQueueTrackRow | undefined {
+  return current.get(sessionId);
+}
+
+/** The whole queue, the playing track and pending ones included */
+export function listAll(sessionId: string): VotedQueueTrackRow[] {
+  return all.all(sessionId);
+}
+
+/** Everything not playing yet, pending included */
+export function listWaiting(sessionId: string): VotedQueueTrackRow[] {
+  return waiting.all(sessionId);
+}
+
+/** Tracks that can play next (not pending approval) */
+export function listApprovedWaiting(sessionId: string): VotedQueueTrackRow[] {
+  return approvedWaiting.all(sessionId);
+}
+
+/** Spotlight suggestions waiting on the host */
+export function listPending(sessionId: string): VotedQueueTrackRow[] {
+  return pending.all(sessionId);
+}
+
+/** Position for a track added to the end of the queue */
+export function nextPosition(sessionId: string): number {
+  return maxPosition.get(sessionId)!.maxPos + 1;
+}
+
+export function insertTrack(track: NewQueueTrack): void {
+  insert.run(track);
+}
+
+/** Mark a track as playing, stamping started_at */
+export function setCurrent(trackId: string): void {
+  makeCurrent.run(trackId);
+}
+
+export function approve(trackId: string, sessionId: string): void {
+  approveInSession.run(trackId, sessionId);
+}
+
+/** Waiting tracks someone has Phantom-Powered */
+export function countPoweredWaiting(sessionId: string): number {
+  return poweredWaiting.get(sessionId)!.n;
+}
+
+export function bumpPriority(trackId: string): void {
+  incrementPriority.run(trackId);
+}
+
+/** Phantom-Power a track (stamping powered_at now), or clear it with null */
+export function setPoweredBy(trackId: string, userId: string | null): void {
+  updatePowered.run(userId, userId ? new Date().toISOString() : null, trackId);
+}
+
+/** Pin a track to the front of the queue (stamping pinned_at now), or unpin it */
+export function setPinned(trackId: string, pinned: boolean): void {
+  updatePinned.run(pinned ? 1 : 0, trackId);
+}
+
+export function setPosition(trackId: string, position: number): void {
+  updatePosition.run(position, trackId);
+}
+
+export function remove(trackId: string): void {
+  deleteById.run(trackId);
+}
+
+/** Returns false if the track isn't in that session */
+export function removeFromSession(trackId: string, sessionId: string): boolean {
+  return deleteInSession.run(trackId, sessionId).changes > 0;
+}
+
+export function removeCurrent(sessionId: string): void {
+  deleteCurrent.run(sessionId);
+}
+
+/** Empty the session's queue, playing track included */
+export function clear(sessionId: string): void {
+  deleteAll.run(sessionId);
+}
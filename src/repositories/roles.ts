@@ -0,0 +1,59 @@
+/**
+ * Roles Repository — queries over `session_roles`
+ *
+ * Only granted roles are stored: no row means listener, and the host comes
+ * from sessions.host_id (see services/permissions).
+ */
+
+import db from '../database';
+import { SessionRoleRow, MemberRoleRow } from './rows';
+
+const byMember = db.prepare<[string, string], SessionRoleRow>(
+  'SELECT * FROM session_roles WHERE session_id = ? AND user_id = ?'
+);
+const upsert = db.prepare<[string, string, string, string]>(`
+  INSERT INTO session_roles (session_id, user_id, role, granted_by)
+  VALUES (?, ?, ?, ?)
+  ON CONFLICT (session_id, user_id) DO UPDATE SET
+    role = excluded.role, granted_by = excluded.granted_by, granted_at = datetime('now')
+`);
+const deleteByMember = db.prepare<[string, string]>('DELETE FROM session_roles WHERE session_id = ? AND user_id = ?');
+const coHosts = db.prepare<[string], { user_id: string }>(`
+  SELECT sr.user_id FROM session_roles sr
+  JOIN session_listeners sl ON sl.session_id = sr.session_id AND sl.user_id = sr.user_id
+  WHERE sr.session_id = ? AND sr.role = 'co-host'
+  ORDER BY sl.joined_at ASC, sl.rowid ASC
+`);
+const effective = db.prepare<[string], MemberRoleRow>(`
+  SELECT sl.user_id as userId, u.username,
+         CASE WHEN s.host_id = sl.user_id THEN 'host' ELSE COALESCE(sr.role, 'listener') END as role
+  FROM session_listeners sl
+  JOIN users u ON sl.user_id = u.id
+  JOIN sessions s ON s.id = sl.session_id
+  LEFT JOIN session_roles sr ON sr.session_id = sl.session_id AND sr.user_id = sl.user_id
+  WHERE sl.session_id = ?
+  ORDER BY sl.joined_at ASC, sl.rowid ASC
+`);
+
+export function find(sessionId: string, userId: string): SessionRoleRow | undefined {
+  return byMember.get(sessionId, userId);
+}
+
+/** Grant a role, replacing any earlier one */
+export function grant(sessionId: string, userId: string, role: string, grantedBy: string): void {
+  upsert.run(sessionId, userId, role, grantedBy);
+}
+
+export function remove(sessionId: string, userId: string): void {
+  deleteByMember.run(sessionId, userId);
+}
+
+/** Co-hosts who are still members, in the order they joined */
+export function listCoHostIds(sessionId: string): string[] {
+  return coHosts.all(sessionId).map((r) => r.user_id);
+}
+
+/** Every member with their effective role, in the order they joined */
+export function listMemberRoles(sessionId: string): MemberRoleRow[] {
+  return effective.all(sessionId);
+}
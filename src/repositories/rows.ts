@@ -0,0 +1,230 @@
+/**
+ * Row Types — one interface per table, columns exactly as SQLite returns them
+ *
+ * Booleans are INTEGER 0/1 and timestamps are SQLite's UTC
+ * "YYYY-MM-DD HH:MM:SS" text unless noted. Keep these in step with
+ * migrations.ts.
+ */
+
+export interface UserRow {
+  id: string;
+  username: string;
+  email: string;
+  password_hash: string;
+  avatar_url: string | null;
+  sessions_hosted: number;
+  tracks_added: number;
+  total_listening_time: number;
+  voltage_balance: number;
+  push_token: string | null;
+  noise_gate: string;
+  created_at: string;
+}
+
+/** A user's link to an outside service. Tokens are encrypted (see tokenCrypto.ts). */
+export interface ConnectedAccountRow {
+  user_id: string;
+  provider: string;
+  access_token: string;
+  refresh_token: string | null;
+  /** ISO 8601; null = the provider didn't say */
+  expires_at: string | null;
+  provider_username: string | null;
+  connected_at: string;
+  updated_at: string;
+}
+
+export interface SessionRow {
+  id: string;
+  name: string;
+  host_id: string;
+  description: string | null;
+  genre: string;
+  room_mode: string;
+  is_public: number;
+  is_live: number;
+  join_code: string;
+  created_at: string;
+  skip_threshold: number | null;
+  max_queue_per_user: number | null;
+  allow_duplicates: number | null;
+  max_track_duration: number | null;
+  chat_enabled: number | null;
+  explicit_filter: number | null;
+  weight_by_listening: number | null;
+  /** JSON — see OpenFloorConfig */
+  open_floor_config: string | null;
+}
+
+/** A session joined with its host's username */
+export interface SessionWithHostRow extends SessionRow {
+  host_username: string;
+}
+
+/** A session member, as listed in room state and formatted sessions */
+export interface MemberRow {
+  userId: string;
+  username: string;
+  avatarUrl: string | null;
+}
+
+export interface QueueTrackRow {
+  id: string;
+  session_id: string;
+  title: string;
+  artist: string;
+  album: string | null;
+  album_art: string | null;
+  preview_url: string | null;
+  duration: number;
+  source: string;
+  source_id: string | null;
+  isrc: string | null;
+  added_by_id: string;
+  added_by_username: string;
+  status: 'approved' | 'pending';
+  position: number;
+  is_current: number;
+  added_at: string;
+  priority: number;
+  powered_by: string | null;
+  powered_at: string | null;
+  started_at: string | null;
+  pinned_at: string | null;
+}
+
+/** A queue track with its votes aggregated from track_votes */
+export interface VotedQueueTrackRow extends QueueTrackRow {
+  /** Net votes (up − down) */
+  votes: number;
+  /** JSON map of userId → 1 | -1 */
+  voted_by: string;
+}
+
+/** A song's equivalent on another provider (source_id null = no match found) */
+export interface TrackSourceRow {
+  origin_source: string;
+  origin_key: string;
+  source: string;
+  source_id: string | null;
+  title: string | null;
+  artist: string | null;
+  album: string | null;
+  album_art: string | null;
+  preview_url: string | null;
+  duration: number | null;
+  match: 'isrc' | 'fuzzy' | null;
+  resolved_at: string;
+}
+
+export interface ChatMessageRow {
+  id: string;
+  session_id: string;
+  user_id: string;
+  username: string;
+  text: string;
+  type: string;
+  /** ISO 8601 (set by the server, not SQLite) */
+  timestamp: string;
+}
+
+/** A user's membership of a session */
+export interface SessionListenerRow {
+  session_id: string;
+  user_id: string;
+  joined_at: string;
+}
+
+/** A role granted in a session (no row = listener; the host comes from sessions.host_id) */
+export interface SessionRoleRow {
+  session_id: string;
+  user_id: string;
+  role: string;
+  granted_by: string | null;
+  granted_at: string;
+}
+
+/** A member with their effective role, host included */
+export interface MemberRoleRow {
+  userId: string;
+  username: string;
+  role: string;
+}
+
+/** A voltage ledger entry. created_at is ISO 8601 (set by the server, not SQLite). */
+export interface VoltageTransactionRow {
+  id: string;
+  user_id: string;
+  session_id: string | null;
+  amount: number;
+  balance_after: number;
+  reason: string;
+  ref_id: string | null;
+  created_at: string;
+}
+
+export interface ForecastPickRow {
+  id: string;
+  session_id: string;
+  user_id: string;
+  /** The queue track that was playing when the pick was made */
+  round_id: string;
+  track_id: string;
+  status: 'open' | 'locked' | 'won' | 'lost' | 'void';
+  points: number;
+  picked_at: string;
+}
+
+/** One listener's forecast standing in a session */
+export interface ForecastStandingRow {
+  userId: string;
+  username: string;
+  points: number;
+  correct: number;
+  total: number;
+}
+
+/** A track that has left the queue, with the votes it had */
+export interface PlayedTrackRow {
+  id: string;
+  session_id: string;
+  title: string;
+  artist: string;
+  album: string | null;
+  album_art: string | null;
+  duration: number | null;
+  source: string | null;
+  source_id: string | null;
+  added_by_id: string | null;
+  added_by_username: string | null;
+  votes: number;
+  outcome: string;
+  started_at: string | null;
+  ended_at: string;
+}
+
+export interface SessionStatsRow {
+  session_id: string;
+  user_id: string;
+  tracks_added: number;
+  tracks_played: number;
+  reactions: number;
+}
+
+/** One of a session's top contributors, as the recap lists them */
+export interface ContributorRow {
+  userId: string;
+  username: string;
+  tracksAdded: number;
+  tracksPlayed: number;
+  reactions: number;
+}
+
+/** An ended session's recap. ended_at is ISO 8601 (set by the server, not SQLite). */
+export interface SessionRecapRow {
+  session_id: string;
+  ended_by: string | null;
+  ended_at: string;
+  /** JSON — see SessionRecap */
+  recap: string;
+}
@@ -0,0 +1,63 @@
+/**
+ * Session Stats Repository — queries over `session_stats` and `session_recaps`
+ *
+ * session_stats keeps per-member counters while a room runs; the recap built
+ * from them when it ends is stored whole, as JSON, in session_recaps.
+ */
+
+import { Statement } from 'better-sqlite3';
+import db from '../database';
+import { ContributorRow, SessionRecapRow, SessionStatsRow } from './rows';
+
+export type StatCounter = keyof Omit<SessionStatsRow, 'session_id' | 'user_id'>;
+
+const COUNTERS: StatCounter[] = ['tracks_added', 'tracks_played', 'reactions'];
+
+/** One upsert per counter — column names can't be bound as parameters */
+const bumpCounter = Object.fromEntries(COUNTERS.map((stat) => [stat, db.prepare<[string, string, string]>(`
+  INSERT INTO session_stats (session_id, user_id, ${stat})
+  SELECT ?, ?, 1 WHERE EXISTS (SELECT 1 FROM sessions WHERE id = ?)
+  ON CONFLICT (session_id, user_id) DO UPDATE SET ${stat} = ${stat} + 1
+`)])) as Record<StatCounter, Statement<[string, string, string]>>;
+
+const totalsFor = db.prepare<[string], { tracksPlayed: number; reactions: number }>(`
+  SELECT COALESCE(SUM(tracks_played), 0) as tracksPlayed, COALESCE(SUM(reactions), 0) as reactions
+  FROM session_stats WHERE session_id = ?
+`);
+const topContributors = db.prepare<[string, number], ContributorRow>(`
+  SELECT ss.user_id as userId, u.username, ss.tracks_added as tracksAdded,
+         ss.tracks_played as tracksPlayed, ss.reactions
+  FROM session_stats ss JOIN users u ON ss.user_id = u.id
+  WHERE ss.session_id = ? AND (ss.tracks_added > 0 OR ss.tracks_played > 0)
+  ORDER BY ss.tracks_played DESC, ss.tracks_added DESC, ss.reactions DESC
+  LIMIT ?
+`);
+const upsertRecap = db.prepare<[string, string | null, string, string]>(`
+  INSERT OR REPLACE INTO session_recaps (session_id, ended_by, ended_at, recap)
+  VALUES (?, ?, ?, ?)
+`);
+const recapById = db.prepare<[string], SessionRecapRow>('SELECT * FROM session_recaps WHERE session_id = ?');
+
+/** Bump one of a member's counters (ignored for unknown sessions) */
+export function increment(sessionId: string, userId: string, stat: StatCounter): void {
+  bumpCounter[stat].run(sessionId, userId, sessionId);
+}
+
+/** Tracks played and reactions sent across the whole room */
+export function totals(sessionId: string): { tracksPlayed: number; reactions: number } {
+  return totalsFor.get(sessionId)!;
+}
+
+/** Members who added or played anything, most played first */
+export function listTopContributors(sessionId: string, limit: number): ContributorRow[] {
+  return topContributors.all(sessionId, limit);
+}
+
+/** Store a session's recap, replacing any earlier one */
+export function saveRecap(row: SessionRecapRow): void {
+  upsertRecap.run(row.session_id, row.ended_by, row.ended_at, row.recap);
+}
+
+export function findRecap(sessionId: string): SessionRecapRow | undefined {
+  return recapById.get(sessionId);
+}
@@ -0,0 +1,165 @@
+/**
+ * Sessions Repository — queries over `sessions` and `session_listeners`
+ */
+
+import db from '../database';
+import { SessionRow, SessionWithHostRow, MemberRow, SessionListenerRow } from './rows';
+
+const WITH_HOST = `
+  SELECT s.*, u.username as host_username
+  FROM sessions s
+  JOIN users u ON s.host_id = u.id`;
+
+const byId = db.prepare<[string], SessionRow>('SELECT * FROM sessions WHERE id = ?');
+const withHostById = db.prepare<[string], SessionWithHostRow>(`${WITH_HOST} WHERE s.id = ?`);
+const withHostByJoinCode = db.prepare<[string], SessionWithHostRow>(
+  `${WITH_HOST} WHERE UPPER(s.join_code) = UPPER(?)`
+);
+const publicLive = db.prepare<[], SessionWithHostRow>(`
+  ${WITH_HOST}
+  WHERE s.is_public = 1 AND s.is_live = 1
+  ORDER BY s.created_at DESC
+`);
+const liveForMember = db.prepare<[string], SessionWithHostRow>(`
+  ${WITH_HOST}
+  JOIN session_listeners sl ON sl.session_id = s.id
+  WHERE sl.user_id = ? AND s.is_live = 1
+  ORDER BY s.created_at DESC
+`);
+const searchPublicLive = db.prepare<[string, string, string, number], SessionWithHostRow>(`
+  ${WITH_HOST}
+  WHERE s.is_public = 1 AND s.is_live = 1
+    AND (LOWER(s.name) LIKE ? OR LOWER(s.genre) LIKE ? OR LOWER(u.username) LIKE ?)
+  ORDER BY s.created_at DESC
+  LIMIT ?
+`);
+const live = db.prepare<[], SessionRow>('SELECT * FROM sessions WHERE is_live = 1');
+const insert = db.prepare<[string, string, string, string, string, number, string]>(`
+  INSERT INTO sessions (id, name, host_id, genre, room_mode, is_public, join_code)
+  VALUES (?, ?, ?, ?, ?, ?, ?)
+`);
+const updateRoomMode = db.prepare<[string, string]>('UPDATE sessions SET room_mode = ? WHERE id = ?');
+const updateHost = db.prepare<[string, string]>('UPDATE sessions SET host_id = ? WHERE id = ?');
+const markEnded = db.prepare<[string]>('UPDATE sessions SET is_live = 0 WHERE id = ?');
+
+const membersOf = db.prepare<[string], MemberRow>(`
+  SELECT u.id as userId, u.username, u.avatar_url as avatarUrl
+  FROM session_listeners sl
+  JOIN users u ON sl.user_id = u.id
+  WHERE sl.session_id = ?
+`);
+const memberById = db.prepare<[string, string], MemberRow>(`
+  SELECT u.id as userId, u.username, u.avatar_url as avatarUrl
+  FROM session_listeners sl
+  JOIN users u ON sl.user_id = u.id
+  WHERE sl.session_id = ? AND sl.user_id = ?
+`);
+const membershipsByJoin = db.prepare<[string], SessionListenerRow>(
+  'SELECT * FROM session_listeners WHERE session_id = ? ORDER BY joined_at ASC, rowid ASC'
+);
+const memberCount = db.prepare<[string], { n: number }>(
+  'SELECT COUNT(*) as n FROM session_listeners WHERE session_id = ?'
+);
+const memberOf = db.prepare<[string, string], { found: number }>(
+  'SELECT 1 as found FROM session_listeners WHERE session_id = ? AND user_id = ?'
+);
+const insertMember = db.prepare<[string, string]>(
+  'INSERT OR IGNORE INTO session_listeners (session_id, user_id) VALUES (?, ?)'
+);
+const deleteMember = db.prepare<[string, string]>(
+  'DELETE FROM session_listeners WHERE session_id = ? AND user_id = ?'
+);
+
+export function findById(id: string): SessionRow | undefined {
+  return byId.get(id);
+}
+
+export function exists(id: string): boolean {
+  return byId.get(id) !== undefined;
+}
+
+export function findWithHost(id: string): SessionWithHostRow | undefined {
+  return withHostById.get(id);
+}
+
+/** Join codes are matched case-insensitively */
+export function findByJoinCode(joinCode: string): SessionWithHostRow | undefined {
+  return withHostByJoinCode.get(joinCode);
+}
+
+/** Public live rooms, newest first */
+export function listPublicLive(): SessionWithHostRow[] {
+  return publicLive.all();
+}
+
+/** Live rooms the user is a member of, newest first */
+export function listLiveForMember(userId: string): SessionWithHostRow[] {
+  return liveForMember.all(userId);
+}
+
+/** Public live rooms whose name, genre or host matches `q` */
+export function search(q: string, limit = 20): SessionWithHostRow[] {
+  const like = `%${q.toLowerCase()}%`;
+  return searchPublicLive.all(like, like, like, limit);
+}
+
+export function listLive(): SessionRow[] {
+  return live.all();
+}
+
+export function create(session: {
+  id: string;
+  name: string;
+  hostId: string;
+  genre: string;
+  roomMode: string;
+  isPublic: boolean;
+  joinCode: string;
+}): void {
+  insert.run(session.id, session.name, session.hostId, session.genre, session.roomMode, session.isPublic ? 1 : 0, session.joinCode);
+}
+
+export function setRoomMode(id: string, roomMode: string): void {
+  updateRoomMode.run(roomMode, id);
+}
+
+export function setHost(id: string, hostId: string): void {
+  updateHost.run(hostId, id);
+}
+
+/** Take the session off the air (its rows stay for history and the recap) */
+export function end(id: string): void {
+  markEnded.run(id);
+}
+
+// ─── Members ─────────────────────────────────────────────────
+
+export function listMembers(sessionId: string): MemberRow[] {
+  return membersOf.all(sessionId);
+}
+
+export function findMember(sessionId: string, userId: string): MemberRow | undefined {
+  return memberById.get(sessionId, userId);
+}
+
+/** Memberships in the order people joined */
+export function listMembershipsByJoin(sessionId: string): SessionListenerRow[] {
+  return membershipsByJoin.all(sessionId);
+}
+
+export function countMembers(sessionId: string): number {
+  return memberCount.get(sessionId)!.n;
+}
+
+export function isMember(sessionId: string, userId: string): boolean {
+  return memberOf.get(sessionId, userId) !== undefined;
+}
+
+/** No-op if they're already a member */
+export function addMember(sessionId: string, userId: string): void {
+  insertMember.run(sessionId, userId);
+}
+
+export function removeMember(sessionId: string, userId: string): void {
+  deleteMember.run(sessionId, userId);
+}
@@ -0,0 +1,32 @@
+/**
+ * Track Sources Repository — queries over `track_sources`
+ *
+ * The resolver's cache: for a song from one provider (origin), its match on
+ * another provider, or a row with source_id NULL when there was none.
+ */
+
+import db from '../database';
+import { TrackSourceRow } from './rows';
+
+const byOrigin = db.prepare<[string, string, string], TrackSourceRow>(
+  'SELECT * FROM track_sources WHERE origin_source = ? AND origin_key = ? AND source = ?'
+);
+const upsert = db.prepare(`
+  INSERT INTO track_sources (origin_source, origin_key, source, source_id, title, artist, album, album_art, preview_url, duration, match, resolved_at)
+  VALUES (@origin_source, @origin_key, @source, @source_id, @title, @artist, @album, @album_art, @preview_url, @duration, @match, datetime('now'))
+  ON CONFLICT (origin_source, origin_key, source) DO UPDATE SET
+    source_id = excluded.source_id, title = excluded.title, artist = excluded.artist, album = excluded.album,
+    album_art = excluded.album_art, preview_url = excluded.preview_url, duration = excluded.duration,
+    match = excluded.match, resolved_at = excluded.resolved_at
+`);
+
+export type NewTrackSource = Omit<TrackSourceRow, 'resolved_at'>;
+
+export function find(originSource: string, originKey: string, source: string): TrackSourceRow | undefined {
+  return byOrigin.get(originSource, originKey, source);
+}
+
+/** Record a resolution (or a miss), replacing any earlier one */
+export function save(row: NewTrackSource): void {
+  upsert.run(row);
+}
@@ -0,0 +1,46 @@
+/**
+ * Users Repository — queries over `users`
+ *
+ * Statements are prepared once when the module loads (the schema is already
+ * migrated by then — see database.ts).
+ */
+
+import db from '../database';
+import { UserRow } from './rows';
+
+const byId = db.prepare<[string], UserRow>('SELECT * FROM users WHERE id = ?');
+const byEmail = db.prepare<[string], UserRow>('SELECT * FROM users WHERE email = ?');
+const byEmailOrUsername = db.prepare<[string, string], UserRow>(
+  'SELECT * FROM users WHERE email = ? OR username = ?'
+);
+const insert = db.prepare<[string, string, string, string]>(
+  'INSERT INTO users (id, username, email, password_hash) VALUES (?, ?, ?, ?)'
+);
+const bumpSessionsHosted = db.prepare<[string]>('UPDATE users SET sessions_hosted = sessions_hosted + 1 WHERE id = ?');
+const bumpTracksAdded = db.prepare<[string]>('UPDATE users SET tracks_added = tracks_added + 1 WHERE id = ?');
+
+export function findById(id: string): UserRow | undefined {
+  return byId.get(id);
+}
+
+export function findByEmail(email: string): UserRow | undefined {
+  return byEmail.get(email);
+}
+
+/** Anyone already using this email or username */
+export function findByEmailOrUsername(email: string, username: string): UserRow | undefined {
+  return byEmailOrUsername.get(email, username);
+}
+
+export function create(user: { id: string; username: string; email: string; passwordHash: string }): UserRow {
+  insert.run(user.id, user.username, user.email, user.passwordHash);
+  return byId.get(user.id)!;
+}
+
+export function incrementSessionsHosted(id: string): void {
+  bumpSessionsHosted.run(id);
+}
+
+export function incrementTracksAdded(id: string): void {
+  bumpTracksAdded.run(id);
+}
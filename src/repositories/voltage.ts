@@ -0,0 +1,59 @@
+/**
+ * Voltage Repository — queries over `voltage_transactions` and the balance
+ * it caches in users.voltage_balance
+ *
+ * The ledger rules live in services/voltage; write through applyVoltage()
+ * there so the ledger and the balance never disagree.
+ */
+
+import db from '../database';
+import { VoltageTransactionRow } from './rows';
+
+const balanceOf = db.prepare<[string], { voltage_balance: number | null }>(
+  'SELECT voltage_balance FROM users WHERE id = ?'
+);
+const updateBalance = db.prepare<[number, string]>('UPDATE users SET voltage_balance = ? WHERE id = ?');
+const insert = db.prepare(`
+  INSERT INTO voltage_transactions (id, user_id, session_id, amount, balance_after, reason, ref_id, created_at)
+  VALUES (@id, @user_id, @session_id, @amount, @balance_after, @reason, @ref_id, @created_at)
+`);
+const byRef = db.prepare<[string, string, string], { found: number }>(
+  'SELECT 1 as found FROM voltage_transactions WHERE user_id = ? AND reason = ? AND ref_id = ? LIMIT 1'
+);
+const countInSession = db.prepare<[string, string, string], { n: number }>(
+  'SELECT COUNT(*) as n FROM voltage_transactions WHERE user_id = ? AND session_id = ? AND reason = ?'
+);
+const history = db.prepare<[string, number, number], VoltageTransactionRow>(`
+  SELECT * FROM voltage_transactions
+  WHERE user_id = ?
+  ORDER BY created_at DESC, rowid DESC
+  LIMIT ? OFFSET ?
+`);
+
+/** undefined if the user doesn't exist */
+export function findBalance(userId: string): number | undefined {
+  const row = balanceOf.get(userId);
+  return row ? row.voltage_balance ?? 0 : undefined;
+}
+
+export function setBalance(userId: string, balance: number): void {
+  updateBalance.run(balance, userId);
+}
+
+export function insertTransaction(row: VoltageTransactionRow): void {
+  insert.run(row);
+}
+
+export function hasTransaction(userId: string, reason: string, refId: string): boolean {
+  return byRef.get(userId, reason, refId) !== undefined;
+}
+
+/** A user's ledger entries of one kind within a session */
+export function countInSessionByReason(userId: string, sessionId: string, reason: string): number {
+  return countInSession.get(userId, sessionId, reason)!.n;
+}
+
+/** Most recent first */
+export function listForUser(userId: string, limit: number, offset: number): VoltageTransactionRow[] {
+  return history.all(userId, limit, offset);
+}
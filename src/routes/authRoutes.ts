@@ -1,12 +1,14 @@
 /**
- * Auth Routes — POST /api/auth/login, /api/auth/register, GET /api/auth/me
+ * Auth Routes — POST /api/auth/login, /api/auth/register, GET /api/auth/me,
+ * DELETE /api/auth/:provider (disconnect a connected service)
  */
 
 import { Router, Request, Response } from 'express';
 import bcrypt from 'bcryptjs';
 import { v4 as uuid } from 'uuid';
-import db from '../database';
 import { signToken, requireAuth } from '../auth';
+import { UsersRepo, UserRow } from '../repositories';
+import { connectedServices, disconnect, isProvider } from '../services/connectedAccounts';
 
 const router = Router();
 
@@ -20,7 +22,7 @@ router.post('/register', async (req: Request, res: Response) => {
       return;
     }
 
-    const existing = db.prepare('SELECT id FROM users WHERE email = ? OR username = ?').get(email, username);
+    const existing = UsersRepo.findByEmailOrUsername(email, username);
     if (existing) {
       res.status(409).json({ message: 'Email or username already taken' });
       return;
@@ -29,13 +31,8 @@ router.post('/register', async (req: Request, res: Response) => {
     const id = 'usr_' + uuid().slice(0, 12);
     const passwordHash = await bcrypt.hash(password, 10);
 
-    db.prepare(`
-      INSERT INTO users (id, username, email, password_hash)
-      VALUES (?, ?, ?, ?)
-    `).run(id, username, email, passwordHash);
-
+    const user = UsersRepo.create({ id, username, email, passwordHash });
     const token = signToken({ userId: id, username });
-    const user = db.prepare('SELECT * FROM users WHERE id = ?').get(id) as any;
 
     res.status(201).json({
       token,
@@ -57,7 +54,7 @@ router.post('/login', async (req: Request, res: Response) => {
       return;
     }
 
-    const user = db.prepare('SELECT * FROM users WHERE email = ?').get(email) as any;
+    const user = UsersRepo.findByEmail(email);
     if (!user) {
       res.status(401).json({ message: 'Invalid credentials' });
       return;
@@ -84,7 +81,7 @@ router.post('/login', async (req: Request, res: Response) => {
 // GET /api/auth/me
 router.get('/me', requireAuth, (req: Request, res: Response) => {
   const userId = (req as any).userId;
-  const user = db.prepare('SELECT * FROM users WHERE id = ?').get(userId) as any;
+  const user = UsersRepo.findById(userId);
   if (!user) {
     res.status(404).json({ message: 'User not found' });
     return;
@@ -92,17 +89,36 @@ router.get('/me', requireAuth, (req: Request, res: Response) => {
   res.json({ user: formatUser(user) });
 });
 
-function formatUser(row: any) {
+// DELETE /api/auth/:provider — forget the user's tokens for a service
+router.delete('/:provider', requireAuth, (req: Request, res: Response) => {
+  const userId = (req as any).userId;
+  const provider = Array.isArray(req.params.provider) ? req.params.provider[0] : req.params.provider;
+
+  if (!isProvider(provider)) {
+    res.status(404).json({ message: 'Unknown provider' });
+    return;
+  }
+  if (!disconnect(userId, provider)) {
+    res.status(404).json({ message: `${provider} is not connected` });
+    return;
+  }
+
+  const user = UsersRepo.findById(userId);
+  res.json({ message: `${provider} disconnected`, user: user ? formatUser(user) : undefined });
+});
+
+export function formatUser(row: UserRow) {
   return {
     id: row.id,
     username: row.username,
     email: row.email,
     avatarUrl: row.avatar_url || undefined,
-    connectedServices: {},
+    connectedServices: connectedServices(row.id),
     sessionsHosted: row.sessions_hosted,
     tracksAdded: row.tracks_added,
     totalListeningTime: row.total_listening_time,
     voltageBalance: row.voltage_balance,
+    noiseGate: row.noise_gate,
     createdAt: row.created_at,
   };
 }
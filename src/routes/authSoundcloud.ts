@@ -1,132 +1,155 @@
 import { Router } from 'express';
-import db from '../database';
-
-const router = Router();
-
-// 1. GET /api/auth/soundcloud/callback
-router.get('/callback', async (req, res) => {
-    const { code, state, error } = req.query;
-
-    if (error) {
-        console.error('Soundcloud Auth Error:', error);
-        res.redirect('frequenc://auth-error?service=soundcloud');
-        return;
-    }
-
-    if (!code || !state) {
-        res.status(400).send('Missing code or state');
-        return;
-    }
-
-    const userId = state as string; // We passed the JWT/user ID in the state parameter
-    const clientId = process.env.SOUNDCLOUD_CLIENT_ID || 'A6P1OlzNLYo7LrMcTA2TaGWVzM6RHgbw';
-    const clientSecret = process.env.SOUNDCLOUD_CLIENT_SECRET || '';
-    const redirectUri = process.env.SOUNDCLOUD_REDIRECT_URI || 'http://localhost:5000/api/auth/soundcloud/callback';
-
-    try {
-        const params = new URLSearchParams();
-        params.append('client_id', clientId);
-        params.append('client_secret', clientSecret);
-        params.append('grant_type', 'authorization_code');
-        params.append('redirect_uri', redirectUri);
-        params.append('code', code as string);
-
-        // Exchange code for token
-        const tokenRes = await fetch('https://api.soundcloud.com/oauth2/token', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-            body: params.toString(),
+import { requireAuth } from '../auth';
+import { searchSoundcloud } from '../services/trackSearch';
+import { getAccount, getAccessToken, saveAccount, requestTokenGrant, TokenRefresher } from '../services/connectedAccounts';
+import { issueOAuthState, consumeOAuthState } from '../services/oauthState';
+
+export interface SoundcloudConfig {
+    clientId: string;
+    clientSecret: string;
+    redirectUri: string;
+}
+
+const SOUNDCLOUD_AUTHORIZE_URL = 'https://secure.soundcloud.com/authorize';
+const SOUNDCLOUD_TOKEN_URL = 'https://api.soundcloud.com/oauth2/token';
+
+export function createSoundcloudRefresher(config: SoundcloudConfig): TokenRefresher {
+    return (refreshToken) => requestTokenGrant(SOUNDCLOUD_TOKEN_URL, {
+        client_id: config.clientId,
+        client_secret: config.clientSecret,
+        grant_type: 'refresh_token',
+        refresh_token: refreshToken,
+    });
+}
+
+export function createSoundcloudRouter(config: SoundcloudConfig): Router {
+    const router = Router();
+
+    // 1. GET /api/auth/soundcloud/authorize
+    // The app opens the returned URL in a browser; SoundCloud redirects to /callback
+    router.get('/authorize', requireAuth, (req, res) => {
+        const userId = (req as any).userId;
+        const { state, codeChallenge } = issueOAuthState(userId, 'soundcloud');
+
+        const params = new URLSearchParams({
+            client_id: config.clientId,
+            redirect_uri: config.redirectUri,
+            response_type: 'code',
+            code_challenge: codeChallenge,
+            code_challenge_method: 'S256',
+            state,
         });
+        res.json({ url: `${SOUNDCLOUD_AUTHORIZE_URL}?${params}` });
+    });
 
-        if (!tokenRes.ok) {
-            const errorText = await tokenRes.text();
-            console.error('Failed to exchange SC token:', errorText);
+    // 2. GET /api/auth/soundcloud/callback
+    router.get('/callback', async (req, res) => {
+        const { code, state, error } = req.query;
+
+        if (error) {
+            console.error('Soundcloud Auth Error:', error);
             res.redirect('frequenc://auth-error?service=soundcloud');
             return;
         }
 
-        const tokenData = (await tokenRes.json()) as any;
-        const accessToken = tokenData.access_token;
-        const refreshToken = tokenData.refresh_token;
-
-        // Save tokens to DB
-        db.prepare(`
-      UPDATE users 
-      SET soundcloud_access_token = ?, soundcloud_refresh_token = ?
-      WHERE id = ?
-    `).run(accessToken, refreshToken, userId);
-
-        // Redirect back to mobile app
-        res.redirect('frequenc://auth-success?service=soundcloud');
-    } catch (err) {
-        console.error('SoundCloud callback error:', err);
-        res.status(500).send('Internal Server Error');
-    }
-});
-
-// 2. GET /api/auth/soundcloud/searchproxy
-// Useful to proxy search if SC CORS prevents direct fetch from mobile (often true for SC)
-router.get('/search', async (req, res) => {
-    const q = req.query.q as string;
-    const userId = (req as any).userId;
-
-    if (!q) {
-        res.status(400).json({ message: 'Missing q parameter' });
-        return;
-    }
-
-    const user = db.prepare('SELECT soundcloud_access_token FROM users WHERE id = ?').get(userId) as any;
-    if (!user || !user.soundcloud_access_token) {
-        res.status(401).json({ message: 'SoundCloud not connected' });
-        return;
-    }
-
-    try {
-        const scRes = await fetch(`https://api.soundcloud.com/tracks?q=${encodeURIComponent(q)}&limit=20`, {
-            headers: {
-                Authorization: `OAuth ${user.soundcloud_access_token}`
+        if (!code || !state) {
+            res.status(400).send('Missing code or state');
+            return;
+        }
+
+        // Only a state we issued from /authorize (unexpired, unused) says who's connecting
+        const flow = consumeOAuthState(String(state), 'soundcloud');
+        if (!flow) {
+            res.status(400).send('Invalid or expired state');
+            return;
+        }
+
+        const { userId, codeVerifier } = flow;
+        const { clientId, clientSecret, redirectUri } = config;
+
+        try {
+            const params = new URLSearchParams();
+            params.append('client_id', clientId);
+            params.append('client_secret', clientSecret);
+            params.append('grant_type', 'authorization_code');
+            params.append('redirect_uri', redirectUri);
+            params.append('code', code as string);
+            params.append('code_verifier', codeVerifier);
+
+            // Exchange code for token
+            const tokenRes = await fetch(SOUNDCLOUD_TOKEN_URL, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+                body: params.toString(),
+            });
+
+            if (!tokenRes.ok) {
+                const errorText = await tokenRes.text();
+                console.error('Failed to exchange SC token:', errorText);
+                res.redirect('frequenc://auth-error?service=soundcloud');
+                return;
             }
-        });
 
-        if (!scRes.ok) throw new Error(await scRes.text());
-
-        // Process and return matching our Track type format
-        const data = await scRes.json() as any[];
-
-        const tracks = data.map((t: any) => ({
-            id: t.id.toString(),
-            title: t.title,
-            artist: t.user?.username || 'Unknown Artist',
-            album: '', // SC tracks don't always have albums mapped easily
-            albumArt: t.artwork_url || t.user?.avatar_url,
-            previewUrl: t.stream_url, // SC gives stream URL!
-            duration: Math.floor(t.duration / 1000), // ms to s
-            source: 'soundcloud',
-            sourceId: t.id.toString()
-        }));
-
-        res.json({ tracks });
-
-    } catch (e: any) {
-        res.status(500).json({ message: e.message || 'Error fetching from SoundCloud' });
-    }
-});
-
-// 3. GET /api/auth/soundcloud/stream/:id
-// Gets fresh stream URL
-router.get('/stream/:id', async (req, res) => {
-    const { id } = req.params;
-    const userId = (req as any).userId;
-
-    const user = db.prepare('SELECT soundcloud_access_token FROM users WHERE id = ?').get(userId) as any;
-    if (!user || !user.soundcloud_access_token) {
-        res.status(401).json({ message: 'SoundCloud not connected' });
-        return;
-    }
-
-    // Usually SC stream url requires auth attached
-    const streamUrl = `https://api.soundcloud.com/tracks/${id}/stream?oauth_token=${user.soundcloud_access_token}`;
-    res.json({ url: streamUrl });
-});
-
-export default router;
+            const tokenData = (await tokenRes.json()) as any;
+
+            // Save tokens to DB
+            saveAccount(userId, 'soundcloud', {
+                accessToken: tokenData.access_token,
+                refreshToken: tokenData.refresh_token || undefined,
+                expiresIn: tokenData.expires_in || undefined,
+            });
+
+            // Redirect back to mobile app
+            res.redirect('frequenc://auth-success?service=soundcloud');
+        } catch (err) {
+            console.error('SoundCloud callback error:', err);
+            res.status(500).send('Internal Server Error');
+        }
+    });
+
+    // 3. GET /api/auth/soundcloud/searchproxy
+    // Useful to proxy search if SC CORS prevents direct fetch from mobile (often true for SC)
+    router.get('/search', requireAuth, async (req, res) => {
+        const q = req.query.q as string;
+        const userId = (req as any).userId;
+
+        if (!q) {
+            res.status(400).json({ message: 'Missing q parameter' });
+            return;
+        }
+
+        if (!getAccount(userId, 'soundcloud')) {
+            res.status(401).json({ message: 'SoundCloud not connected' });
+            return;
+        }
+
+        try {
+            // Process and return matching our Track type format
+            const tracks = await searchSoundcloud(userId, q);
+            res.json({ tracks });
+
+        } catch (e: any) {
+            res.status(500).json({ message: e.message || 'Error fetching from SoundCloud' });
+        }
+    });
+
+    // 4. GET /api/auth/soundcloud/stream/:id
+    // Gets fresh stream URL
+    router.get('/stream/:id', requireAuth, async (req, res) => {
+        const { id } = req.params;
+        const userId = (req as any).userId;
+
+        // Refreshed first if it has expired, since the URL carries it
+        const accessToken = await getAccessToken(userId, 'soundcloud');
+        if (!accessToken) {
+            res.status(401).json({ message: 'SoundCloud not connected' });
+            return;
+        }
+
+        // Usually SC stream url requires auth attached
+        const streamUrl = `https://api.soundcloud.com/tracks/${id}/stream?oauth_token=${accessToken}`;
+        res.json({ url: streamUrl });
+    });
+
+    return router;
+}
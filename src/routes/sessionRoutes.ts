@@ -6,13 +6,31 @@
  * GET    /api/sessions/mine     — User's rooms
  * GET    /api/sessions/discover — Discovery feed
  * GET    /api/sessions/:id      — Get one
+ * PATCH  /api/sessions/:id      — Update room settings (host / co-host)
  * POST   /api/sessions/join     — Join by code
+ * POST   /api/sessions/:id/end   — End (host only; `handoffTo` passes the room on instead)
+ * GET    /api/sessions/:id/recap — Recap of an ended session
+ * GET    /api/sessions/:id/history — Played tracks, newest first (?limit=&offset=)
+ * GET    /api/sessions/:id/forecast/leaderboard — Forecast game standings
+ * PUT    /api/sessions/:id/queue/:trackId/position — Move a queued track ({ toIndex })
+ * PUT    /api/sessions/:id/queue/:trackId/pin      — Pin / unpin ({ pinned })
+ * DELETE /api/sessions/:id/queue/:trackId          — Remove a queued track
+ * GET    /api/sessions/:id/roles          — Members with their roles
+ * PUT    /api/sessions/:id/roles/:userId  — Grant a role ({ role })
+ * DELETE /api/sessions/:id/roles/:userId  — Revoke back to listener
  */
 
 import { Router, Request, Response } from 'express';
 import { v4 as uuid } from 'uuid';
-import db from '../database';
 import { requireAuth } from '../auth';
+import { getLeaderboard } from '../services/forecast';
+import { endSession, getRecap, transferHost } from '../services/sessionLifecycle';
+import { can, listRoles, setRole, SessionRole } from '../services/permissions';
+import { getOrderedQueue, broadcastQueue, moveTrack, removeTrack, pinTrack } from '../services/queue';
+import { getPlayHistory, countPlayHistory } from '../services/playHistory';
+import { settingsFromRow, updateSettings } from '../services/sessionSettings';
+import { validateSessionSettings } from '../middleware/validate';
+import { SessionsRepo, QueueRepo, UsersRepo, SessionWithHostRow, VotedQueueTrackRow } from '../repositories';
 
 const router = Router();
 
@@ -28,61 +46,45 @@ router.post('/', (req: Request, res: Response) => {
     return;
   }
 
+  // Any settings can be given up front too
+  const settings = validateSessionSettings(req.body);
+  if (!settings.valid) {
+    res.status(400).json({ message: settings.error });
+    return;
+  }
+
   const id = 'ses_' + uuid().slice(0, 12);
   const joinCode = generateJoinCode();
 
-  db.prepare(`
-    INSERT INTO sessions (id, name, host_id, genre, room_mode, is_public, join_code)
-    VALUES (?, ?, ?, ?, ?, ?, ?)
-  `).run(id, name, userId, genre || 'Mixed', roomMode || 'campfire', isPublic !== false ? 1 : 0, joinCode);
+  SessionsRepo.create({
+    id,
+    name,
+    hostId: userId,
+    genre: genre || 'Mixed',
+    roomMode: roomMode || 'campfire',
+    isPublic: isPublic !== false,
+    joinCode,
+  });
+  updateSettings(id, settings.value);
 
-  db.prepare('INSERT INTO session_listeners (session_id, user_id) VALUES (?, ?)').run(id, userId);
-  db.prepare('UPDATE users SET sessions_hosted = sessions_hosted + 1 WHERE id = ?').run(userId);
+  SessionsRepo.addMember(id, userId);
+  UsersRepo.incrementSessionsHosted(userId);
 
   const session = getSessionById(id, username);
   res.status(201).json({ session });
 });
 
 router.get('/', (_req: Request, res: Response) => {
-  const rows = db.prepare(`
-    SELECT s.*, u.username as host_username
-    FROM sessions s
-    JOIN users u ON s.host_id = u.id
-    WHERE s.is_public = 1 AND s.is_live = 1
-    ORDER BY s.created_at DESC
-  `).all() as any[];
-
-  const sessions = rows.map((r) => formatSession(r));
-  res.json({ sessions });
+  res.json({ sessions: SessionsRepo.listPublicLive().map(formatSession) });
 });
 
 router.get('/mine', (req: Request, res: Response) => {
   const userId = (req as any).userId;
-
-  const rows = db.prepare(`
-    SELECT s.*, u.username as host_username
-    FROM sessions s
-    JOIN users u ON s.host_id = u.id
-    JOIN session_listeners sl ON sl.session_id = s.id
-    WHERE sl.user_id = ? AND s.is_live = 1
-    ORDER BY s.created_at DESC
-  `).all(userId) as any[];
-
-  const sessions = rows.map((r) => formatSession(r));
-  res.json({ sessions });
+  res.json({ sessions: SessionsRepo.listLiveForMember(userId).map(formatSession) });
 });
 
 router.get('/discover', (_req: Request, res: Response) => {
-  const rows = db.prepare(`
-    SELECT s.*, u.username as host_username
-    FROM sessions s
-    JOIN users u ON s.host_id = u.id
-    WHERE s.is_public = 1 AND s.is_live = 1
-    ORDER BY s.created_at DESC
-  `).all() as any[];
-
-  const sessions = rows.map((r) => formatSession(r));
-  res.json({ sessions });
+  res.json({ sessions: SessionsRepo.listPublicLive().map(formatSession) });
 });
 
 router.get('/:id', (req: Request, res: Response) => {
@@ -96,6 +98,185 @@ router.get('/:id', (req: Request, res: Response) => {
   res.json({ session });
 });
 
+router.patch('/:id', (req: Request, res: Response) => {
+  const userId = (req as any).userId;
+  const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+
+  if (!SessionsRepo.exists(id)) {
+    res.status(404).json({ message: 'Session not found' });
+    return;
+  }
+  if (!can(id, userId, 'manage-settings')) {
+    res.status(403).json({ message: 'Only the host or a co-host can change room settings' });
+    return;
+  }
+
+  const patch = validateSessionSettings(req.body);
+  if (!patch.valid) {
+    res.status(400).json({ message: patch.error });
+    return;
+  }
+  if (Object.keys(patch.value).length === 0) {
+    res.status(400).json({ message: 'No settings to update' });
+    return;
+  }
+
+  const settings = updateSettings(id, patch.value);
+  req.app.get('io')?.to(id).emit('settings-updated', { sessionId: id, settings });
+  res.json({ session: getSessionById(id) });
+});
+
+router.post('/:id/end', (req: Request, res: Response) => {
+  const userId = (req as any).userId;
+  const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+  const { handoffTo } = req.body || {};
+
+  const session = SessionsRepo.findById(id);
+  if (!session) {
+    res.status(404).json({ message: 'Session not found' });
+    return;
+  }
+  if (session.host_id !== userId) {
+    res.status(403).json({ message: 'Only the host can end the session' });
+    return;
+  }
+  if (!session.is_live) {
+    res.status(409).json({ message: 'Session has already ended' });
+    return;
+  }
+
+  const io = req.app.get('io');
+
+  if (handoffTo) {
+    if (!transferHost(io, id, handoffTo, 'handoff')) {
+      res.status(400).json({ message: 'That user is not in this session' });
+      return;
+    }
+    res.json({ message: 'Host handed off', session: getSessionById(id) });
+    return;
+  }
+
+  const recap = endSession(io, id, userId);
+  res.json({ message: 'Session ended', recap });
+});
+
+router.get('/:id/recap', (req: Request, res: Response) => {
+  const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+  const recap = getRecap(id);
+  if (!recap) {
+    res.status(404).json({ message: 'No recap for this session' });
+    return;
+  }
+  res.json({ recap });
+});
+
+router.get('/:id/history', (req: Request, res: Response) => {
+  const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+  if (!SessionsRepo.exists(id)) {
+    res.status(404).json({ message: 'Session not found' });
+    return;
+  }
+
+  const limit = Math.min(Math.max(parseInt(req.query.limit as string, 10) || 20, 1), 100);
+  const offset = Math.max(parseInt(req.query.offset as string, 10) || 0, 0);
+
+  res.json({
+    tracks: getPlayHistory(id, limit, offset),
+    total: countPlayHistory(id),
+    limit,
+    offset,
+  });
+});
+
+router.get('/:id/forecast/leaderboard', (req: Request, res: Response) => {
+  const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+  if (!SessionsRepo.exists(id)) {
+    res.status(404).json({ message: 'Session not found' });
+    return;
+  }
+  res.json({ leaderboard: getLeaderboard(id) });
+});
+
+router.put('/:id/queue/:trackId/position', (req: Request, res: Response) => {
+  manageQueue(req, res, (id, userId, trackId) => moveTrack(id, userId, trackId, req.body?.toIndex));
+});
+
+router.put('/:id/queue/:trackId/pin', (req: Request, res: Response) => {
+  manageQueue(req, res, (id, userId, trackId) => pinTrack(id, userId, trackId, req.body?.pinned !== false));
+});
+
+router.delete('/:id/queue/:trackId', (req: Request, res: Response) => {
+  manageQueue(req, res, (id, userId, trackId) => {
+    const error = removeTrack(req.app.get('io'), id, userId, trackId);
+    if (!error) req.app.get('io')?.to(id).emit('track-removed', { trackId, removedBy: userId });
+    return error;
+  });
+});
+
+/** Shared shape of the queue routes: run the change, broadcast, return the new order */
+function manageQueue(
+  req: Request,
+  res: Response,
+  change: (id: string, userId: string, trackId: string) => { status: number; message: string } | null,
+) {
+  const userId = (req as any).userId;
+  const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+  const trackId = Array.isArray(req.params.trackId) ? req.params.trackId[0] : req.params.trackId;
+
+  if (!SessionsRepo.exists(id)) {
+    res.status(404).json({ message: 'Session not found' });
+    return;
+  }
+
+  const error = change(id, userId, trackId);
+  if (error) {
+    res.status(error.status).json({ message: error.message });
+    return;
+  }
+
+  const io = req.app.get('io');
+  if (io) broadcastQueue(io, id);
+  res.json({ queue: getOrderedQueue(id).map(formatQueueTrack) });
+}
+
+router.get('/:id/roles', (req: Request, res: Response) => {
+  const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+  if (!SessionsRepo.exists(id)) {
+    res.status(404).json({ message: 'Session not found' });
+    return;
+  }
+  res.json({ roles: listRoles(id) });
+});
+
+router.put('/:id/roles/:userId', (req: Request, res: Response) => {
+  updateRole(req, res, req.body?.role);
+});
+
+router.delete('/:id/roles/:userId', (req: Request, res: Response) => {
+  updateRole(req, res, 'listener');
+});
+
+function updateRole(req: Request, res: Response, role: SessionRole) {
+  const actorId = (req as any).userId;
+  const id = Array.isArray(req.params.id) ? req.params.id[0] : req.params.id;
+  const targetId = Array.isArray(req.params.userId) ? req.params.userId[0] : req.params.userId;
+
+  if (!SessionsRepo.exists(id)) {
+    res.status(404).json({ message: 'Session not found' });
+    return;
+  }
+
+  const error = setRole(id, actorId, targetId, role);
+  if (error) {
+    res.status(error.status).json({ message: error.message });
+    return;
+  }
+
+  const roles = listRoles(id);
+  req.app.get('io')?.to(id).emit('roles-updated', { sessionId: id, roles });
+  res.json({ roles });
+}
+
 router.post('/join', (req: Request, res: Response) => {
   const userId = (req as any).userId;
   const username = (req as any).username;
@@ -106,39 +287,22 @@ router.post('/join', (req: Request, res: Response) => {
     return;
   }
 
-  const row = db.prepare(`
-    SELECT s.*, u.username as host_username
-    FROM sessions s
-    JOIN users u ON s.host_id = u.id
-    WHERE UPPER(s.join_code) = UPPER(?)
-  `).get(joinCode) as any;
+  const row = SessionsRepo.findByJoinCode(joinCode);
 
   if (!row) {
     res.status(404).json({ message: 'No room found with that code' });
     return;
   }
 
-  db.prepare(`
-    INSERT OR IGNORE INTO session_listeners (session_id, user_id) VALUES (?, ?)
-  `).run(row.id, userId);
+  SessionsRepo.addMember(row.id, userId);
 
   const session = getSessionById(row.id, username);
   res.json({ session });
 });
 
 router.get('/search/sessions', (req: Request, res: Response) => {
-  const q = (req.query.q as string || '').toLowerCase();
-  const rows = db.prepare(`
-    SELECT s.*, u.username as host_username
-    FROM sessions s
-    JOIN users u ON s.host_id = u.id
-    WHERE s.is_public = 1 AND s.is_live = 1
-      AND (LOWER(s.name) LIKE ? OR LOWER(s.genre) LIKE ? OR LOWER(u.username) LIKE ?)
-    ORDER BY s.created_at DESC
-    LIMIT 20
-  `).all(`%${q}%`, `%${q}%`, `%${q}%`) as any[];
-
-  res.json({ sessions: rows.map(formatSession) });
+  const q = req.query.q as string || '';
+  res.json({ sessions: SessionsRepo.search(q).map(formatSession) });
 });
 
 function generateJoinCode(): string {
@@ -151,36 +315,14 @@ function generateJoinCode(): string {
 }
 
 function getSessionById(id: string, _username?: string) {
-  const row = db.prepare(`
-    SELECT s.*, u.username as host_username
-    FROM sessions s
-    JOIN users u ON s.host_id = u.id
-    WHERE s.id = ?
-  `).get(id) as any;
-
-  if (!row) return null;
-  return formatSession(row);
+  const row = SessionsRepo.findWithHost(id);
+  return row ? formatSession(row) : null;
 }
 
-function formatSession(row: any) {
-  const listeners = db.prepare(`
-    SELECT u.id as userId, u.username, u.avatar_url as avatarUrl
-    FROM session_listeners sl
-    JOIN users u ON sl.user_id = u.id
-    WHERE sl.session_id = ?
-  `).all(row.id) as any[];
-
-  const queueRows = db.prepare(`
-    SELECT * FROM queue_tracks
-    WHERE session_id = ? AND is_current = 0
-    ORDER BY position ASC
-  `).all(row.id) as any[];
-
-  const currentTrackRow = db.prepare(`
-    SELECT * FROM queue_tracks
-    WHERE session_id = ? AND is_current = 1
-    LIMIT 1
-  `).get(row.id) as any;
+function formatSession(row: SessionWithHostRow) {
+  const listeners = SessionsRepo.listMembers(row.id);
+  const queueRows = QueueRepo.listWaiting(row.id);
+  const currentTrackRow = QueueRepo.findCurrent(row.id);
 
   return {
     id: row.id,
@@ -193,7 +335,8 @@ function formatSession(row: any) {
     isPublic: row.is_public === 1,
     isLive: row.is_live === 1,
     joinCode: row.join_code,
-    listeners: listeners.map((l: any) => ({
+    settings: settingsFromRow(row),
+    listeners: listeners.map((l) => ({
       userId: l.userId,
       username: l.username,
       avatarUrl: l.avatarUrl || undefined,
@@ -204,7 +347,7 @@ function formatSession(row: any) {
   };
 }
 
-function formatQueueTrack(row: any) {
+function formatQueueTrack(row: VotedQueueTrackRow & { score?: number }) {
   return {
     id: row.id,
     title: row.title,
@@ -215,11 +358,17 @@ function formatQueueTrack(row: any) {
     duration: row.duration,
     source: row.source,
     sourceId: row.source_id || undefined,
+    isrc: row.isrc || undefined,
     addedBy: { userId: row.added_by_id, username: row.added_by_username },
     addedById: row.added_by_id,
     addedAt: row.added_at,
     votes: row.votes,
     votedBy: JSON.parse(row.voted_by || '{}'),
+    priority: row.priority || 0,
+    poweredBy: row.powered_by || undefined,
+    pinned: !!row.pinned_at,
+    score: row.score ?? undefined,
+    startedAt: row.started_at || undefined,
     status: row.status,
   };
 }
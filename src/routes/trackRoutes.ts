@@ -0,0 +1,56 @@
+/**
+ * Track Routes — finding tracks to queue, and playing queued ones
+ *
+ * GET /api/tracks/search?q=              — Search iTunes plus the user's connected providers (?limit=)
+ * GET /api/tracks/:queueTrackId/playable — Where the caller should play a queued track from (room members only)
+ */
+
+import { Router, Request, Response } from 'express';
+import { requireAuth } from '../auth';
+import { searchTracks } from '../services/trackSearch';
+import { resolvePlayable } from '../services/trackResolver';
+import { QueueRepo, SessionsRepo } from '../repositories';
+
+const router = Router();
+
+router.use(requireAuth);
+
+router.get('/search', async (req: Request, res: Response) => {
+  const userId = (req as any).userId;
+  const q = ((req.query.q as string) || '').trim();
+  const limit = Math.min(Math.max(parseInt(req.query.limit as string, 10) || 20, 1), 50);
+
+  if (!q) {
+    res.status(400).json({ message: 'Missing q parameter' });
+    return;
+  }
+
+  res.json(await searchTracks(userId, q, limit));
+});
+
+router.get('/:queueTrackId/playable', async (req: Request, res: Response) => {
+  const userId = (req as any).userId;
+  const trackId = Array.isArray(req.params.queueTrackId) ? req.params.queueTrackId[0] : req.params.queueTrackId;
+
+  const track = QueueRepo.findById(trackId);
+  if (!track) {
+    res.status(404).json({ message: 'Track not found' });
+    return;
+  }
+
+  const session = SessionsRepo.findById(track.session_id);
+  if (session?.host_id !== userId && !SessionsRepo.isMember(track.session_id, userId)) {
+    res.status(403).json({ message: 'You are not in this session' });
+    return;
+  }
+
+  const playable = await resolvePlayable(track, userId);
+  if (!playable) {
+    res.status(404).json({ message: 'No playable source for this track' });
+    return;
+  }
+
+  res.json({ trackId: track.id, playable });
+});
+
+export default router;
@@ -0,0 +1,29 @@
+/**
+ * Voltage Routes — the authenticated user's ledger
+ *
+ * GET /api/voltage/history — Balance + transactions, newest first (?limit=&offset=)
+ */
+
+import { Router, Request, Response } from 'express';
+import { requireAuth } from '../auth';
+import { getBalance, getHistory } from '../services/voltage';
+
+const router = Router();
+
+router.use(requireAuth);
+
+router.get('/history', (req: Request, res: Response) => {
+  const userId = (req as any).userId;
+  const limit = Math.min(Math.max(parseInt(req.query.limit as string, 10) || 50, 1), 100);
+  const offset = Math.max(parseInt(req.query.offset as string, 10) || 0, 0);
+
+  const balance = getBalance(userId);
+  if (balance === null) {
+    res.status(404).json({ message: 'User not found' });
+    return;
+  }
+
+  res.json({ balance, transactions: getHistory(userId, limit, offset) });
+});
+
+export default router;
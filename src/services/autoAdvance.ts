@@ -0,0 +1,93 @@
+/**
+ * Auto-Advance — the server moves the room on when a track runs out
+ *
+ * Each playing room has one timer set for when the current track should end
+ * (queue_tracks.duration minus the clock's expected position, plus a small
+ * grace so on-time clients usually get there first). Pausing cancels it;
+ * resuming, seeking or changing track re-arms it from the new position.
+ *
+ * Client `track-ended` reports are checked against the room clock: one that
+ * arrives well before the current track should have ended (a player that
+ * skipped ahead, or a tampered client farming track_completed voltage) is
+ * refused, and the reporter gets a resync instead. They're also
+ * de-duplicated: with a trackId they only count for the track that's
+ * actually current, and without one (older clients) they're ignored right
+ * after the room has just advanced.
+ */
+
+import { getPlayback, expectedPosition, trackDuration } from './playback';
+
+/** Seconds past the expected end before the server advances on its own */
+const ADVANCE_GRACE_SEC = parseFloat(process.env.AUTO_ADVANCE_GRACE_SECONDS || '2');
+
+/** How many seconds before the room clock's end a track-ended report still counts */
+const END_REPORT_TOLERANCE_SEC = parseFloat(process.env.TRACK_END_TOLERANCE_SECONDS || '3');
+
+/** Legacy track-ended reports this soon after an advance are treated as duplicates */
+const DUPLICATE_WINDOW_MS = 5 * 1000;
+
+const timers: Record<string, ReturnType<typeof setTimeout>> = {};
+const lastAdvancedAt: Record<string, number> = {};
+
+/**
+ * (Re)arm the room's timer from its current playback state. `onDue` gets the
+ * track ID the timer was set for, so the caller can check it's still current.
+ */
+export function scheduleAdvance(sessionId: string, onDue: (trackId: string) => void): void {
+  cancelAdvance(sessionId);
+
+  const ps = getPlayback(sessionId);
+  if (!ps?.trackId || ps.state !== 'playing') return;
+
+  const duration = trackDuration(ps.trackId);
+  if (!duration) return;   // Unknown length — rely on clients
+
+  const trackId = ps.trackId;
+  const remaining = Math.max(0, duration - expectedPosition(ps));
+  timers[sessionId] = setTimeout(() => {
+    delete timers[sessionId];
+    onDue(trackId);
+  }, (remaining + ADVANCE_GRACE_SEC) * 1000);
+}
+
+export function cancelAdvance(sessionId: string): void {
+  if (timers[sessionId]) clearTimeout(timers[sessionId]);
+  delete timers[sessionId];
+}
+
+export function hasScheduledAdvance(sessionId: string): boolean {
+  return !!timers[sessionId];
+}
+
+/** Note that the room just moved to a new track */
+export function markAdvanced(sessionId: string): void {
+  lastAdvancedAt[sessionId] = Date.now();
+}
+
+/** Did the room advance within the duplicate window? */
+export function advancedRecently(sessionId: string): boolean {
+  return Date.now() - (lastAdvancedAt[sessionId] || 0) < DUPLICATE_WINDOW_MS;
+}
+
+/**
+ * Should a listener's `track-ended` report move the room on? Only if it's for
+ * the current track, isn't a duplicate, and the room clock agrees the track
+ * is (nearly) over. Tracks of unknown length can't be checked, so their
+ * reports are trusted.
+ */
+export function acceptEndReport(sessionId: string, trackId?: string, now = Date.now()): boolean {
+  if (!trackId && advancedRecently(sessionId)) return false;
+
+  const ps = getPlayback(sessionId);
+  if (!ps?.trackId || (trackId && trackId !== ps.trackId)) return false;
+
+  const duration = trackDuration(ps.trackId);
+  if (!duration) return true;
+  return expectedPosition(ps, now) >= duration - END_REPORT_TOLERANCE_SEC;
+}
+
+/** Forget everything about a room (it ended) */
+export function clearAdvance(sessionId: string): void {
+  cancelAdvance(sessionId);
+  delete lastAdvancedAt[sessionId];
+}
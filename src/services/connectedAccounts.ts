@@ -0,0 +1,195 @@
+/**
+ * Connected Accounts — a user's tokens for outside services
+ *
+ *   lastfm     → session key (never expires)
+ *   spotify    → access token
+ *   soundcloud → OAuth access + refresh tokens
+ *   tidal      → OAuth access + refresh tokens
+ *
+ * Tokens are encrypted at rest (tokenCrypto.ts). Provider calls go through
+ * providerFetch(), which refreshes an access token that has expired — or
+ * that the provider answers 401 to — and retries once. Refreshing needs the
+ * provider's client credentials, so each OAuth integration registers its
+ * refresher when it's mounted (see integrations.ts).
+ */
+
+import { ConnectedAccountsRepo, ConnectedAccountRow } from '../repositories';
+import { encryptToken, decryptToken } from '../tokenCrypto';
+
+export type Provider = 'lastfm' | 'spotify' | 'soundcloud' | 'tidal';
+
+export const PROVIDERS: Provider[] = ['lastfm', 'spotify', 'soundcloud', 'tidal'];
+
+export interface ConnectedAccount {
+  provider: Provider;
+  accessToken: string;
+  refreshToken: string | null;
+  /** ms since epoch; null = unknown (refresh only on a 401) */
+  expiresAt: number | null;
+  username: string | null;
+}
+
+/** What a token endpoint hands back */
+export interface TokenGrant {
+  accessToken: string;
+  refreshToken?: string;
+  /** Seconds from now */
+  expiresIn?: number;
+  username?: string;
+}
+
+export type TokenRefresher = (refreshToken: string) => Promise<TokenGrant>;
+
+/** Refresh this long before the provider's stated expiry */
+const EXPIRY_MARGIN_MS = 60 * 1000;
+
+const refreshers: Partial<Record<Provider, TokenRefresher>> = {};
+
+/** Refreshes in flight, so parallel calls for one account share a single refresh */
+const refreshing = new Map<string, Promise<ConnectedAccount | null>>();
+
+export function isProvider(value: string): value is Provider {
+  return (PROVIDERS as string[]).includes(value);
+}
+
+// ─── Storage ────────────────────────────────────────────────
+
+function fromRow(row: ConnectedAccountRow): ConnectedAccount | null {
+  try {
+    return {
+      provider: row.provider as Provider,
+      accessToken: decryptToken(row.access_token),
+      refreshToken: row.refresh_token ? decryptToken(row.refresh_token) : null,
+      expiresAt: row.expires_at ? Date.parse(row.expires_at) : null,
+      username: row.provider_username,
+    };
+  } catch (err: any) {
+    // Encrypted under a different TOKEN_ENCRYPTION_KEY — as good as disconnected
+    console.error(`[Accounts] Can't decrypt ${row.provider} tokens for ${row.user_id}:`, err.message);
+    return null;
+  }
+}
+
+export function getAccount(userId: string, provider: Provider): ConnectedAccount | null {
+  const row = ConnectedAccountsRepo.find(userId, provider);
+  return row ? fromRow(row) : null;
+}
+
+/** Providers the user has usable tokens for */
+export function connectedProviders(userId: string): Provider[] {
+  return ConnectedAccountsRepo.listForUser(userId)
+    .filter((row) => isProvider(row.provider) && fromRow(row))
+    .map((row) => row.provider as Provider);
+}
+
+/** Every provider with whether the user is connected — for the user profile */
+export function connectedServices(userId: string): Record<Provider, { connected: boolean; username?: string }> {
+  const rows = ConnectedAccountsRepo.listForUser(userId);
+  const services = {} as Record<Provider, { connected: boolean; username?: string }>;
+  for (const provider of PROVIDERS) {
+    const row = rows.find((r) => r.provider === provider);
+    services[provider] = { connected: !!row, username: row?.provider_username || undefined };
+  }
+  return services;
+}
+
+/**
+ * Store a fresh grant. A grant without a refresh token keeps the one already
+ * stored (providers don't always rotate it).
+ */
+export function saveAccount(userId: string, provider: Provider, grant: TokenGrant): ConnectedAccount {
+  const refreshToken = grant.refreshToken ?? getAccount(userId, provider)?.refreshToken ?? null;
+  const expiresAt = grant.expiresIn ? Date.now() + grant.expiresIn * 1000 : null;
+
+  ConnectedAccountsRepo.save({
+    user_id: userId,
+    provider,
+    access_token: encryptToken(grant.accessToken),
+    refresh_token: refreshToken ? encryptToken(refreshToken) : null,
+    expires_at: expiresAt ? new Date(expiresAt).toISOString() : null,
+    provider_username: grant.username ?? null,
+  });
+  return getAccount(userId, provider)!;
+}
+
+/** Forget a user's tokens for a provider. Returns false if they weren't connected. */
+export function disconnect(userId: string, provider: Provider): boolean {
+  return ConnectedAccountsRepo.remove(userId, provider);
+}
+
+// ─── Refresh ────────────────────────────────────────────────
+
+export function setTokenRefresher(provider: Provider, refresher: TokenRefresher | null): void {
+  if (refresher) refreshers[provider] = refresher;
+  else delete refreshers[provider];
+}
+
+function isExpired(account: ConnectedAccount): boolean {
+  return account.expiresAt !== null && account.expiresAt - EXPIRY_MARGIN_MS <= Date.now();
+}
+
+/** Trade the refresh token for new tokens. Null if the provider can't or won't. */
+async function refresh(userId: string, account: ConnectedAccount): Promise<ConnectedAccount | null> {
+  const refresher = refreshers[account.provider];
+  if (!refresher || !account.refreshToken) return null;
+
+  const key = `${userId}:${account.provider}`;
+  const inFlight = refreshing.get(key);
+  if (inFlight) return inFlight;
+
+  const attempt = refresher(account.refreshToken)
+    .then((grant) => saveAccount(userId, account.provider, grant))
+    .catch((err) => {
+      console.error(`[Accounts] ${account.provider} refresh failed for ${userId}:`, err?.message || err);
+      return null;
+    })
+    .finally(() => refreshing.delete(key));
+
+  refreshing.set(key, attempt);
+  return attempt;
+}
+
+/** A usable access token — refreshed first if it has expired — or null if not connected */
+export async function getAccessToken(userId: string, provider: Provider): Promise<string | null> {
+  const account = getAccount(userId, provider);
+  if (!account) return null;
+  if (isExpired(account)) return (await refresh(userId, account))?.accessToken ?? account.accessToken;
+  return account.accessToken;
+}
+
+/**
+ * Call a provider API as `userId`. `request` gets the access token; a 401
+ * response triggers one refresh-and-retry. Throws if the user isn't connected.
+ */
+export async function providerFetch(
+  userId: string,
+  provider: Provider,
+  request: (accessToken: string) => Promise<Response>,
+): Promise<Response> {
+  const accessToken = await getAccessToken(userId, provider);
+  if (!accessToken) throw new Error(`${provider} not connected`);
+
+  const res = await request(accessToken);
+  if (res.status !== 401) return res;
+
+  const account = getAccount(userId, provider);
+  const refreshed = account && account.accessToken === accessToken ? await refresh(userId, account) : account;
+  return refreshed && refreshed.accessToken !== accessToken ? request(refreshed.accessToken) : res;
+}
+
+/** POST a form to an OAuth token endpoint and read the grant */
+export async function requestTokenGrant(
+  url: string,
+  params: Record<string, string>,
+  headers: Record<string, string> = {},
+): Promise<TokenGrant> {
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded', ...headers },
+    body: new URLSearchParams(params).toString(),
+  });
+  if (!res.ok) throw new Error(await res.text());
+
+  const data = await res.json() as any;
+  return { accessToken: data.access_token, refreshToken: data.refresh_token || undefined, expiresIn: data.expires_in || undefined };
+}
@@ -0,0 +1,152 @@
+/**
+ * Track Duels — head-to-head voting for `duel` rooms
+ *
+ * While a track plays, the server pairs the top two queued candidates and
+ * opens a timed duel. Listeners pick a side with `duel-vote`; when the timer
+ * runs out (or the current track ends first) the duel resolves and the winner
+ * takes the next slot. The loser stays in the queue for a later duel.
+ *
+ * State lives in memory like playback state — a restart just opens a fresh
+ * duel on the next track change.
+ *
+ * Events (to the session room):
+ *   duel-started  → { duelId, tracks: [a, b], endsAt }
+ *   duel-tally    → { duelId, tally: { [trackId]: votes }, totalVotes }
+ *   duel-resolved → { duelId, winnerId, tally, cancelled? }
+ */
+
+import { Server } from 'socket.io';
+import { v4 as uuid } from 'uuid';
+import { formatQueueTrack } from '../routes/sessionRoutes';
+import { VotedQueueTrackRow } from '../repositories';
+
+/** How long each duel stays open for votes */
+export const DUEL_DURATION_MS = 30 * 1000;
+
+interface Duel {
+  id: string;
+  trackIds: [string, string];
+  /** userId → trackId they voted for */
+  votes: Map<string, string>;
+  endsAt: number;
+  timer?: ReturnType<typeof setTimeout>;
+  winnerId?: string;
+}
+
+const activeDuels: Record<string, Duel> = {};
+
+/**
+ * Open a duel between two queued tracks. `onResolved` runs after the winner is
+ * decided (the queue order changes, so the caller re-broadcasts it).
+ */
+export function openDuel(
+  io: Server,
+  sessionId: string,
+  a: VotedQueueTrackRow,
+  b: VotedQueueTrackRow,
+  onResolved?: () => void,
+): void {
+  clearDuel(sessionId);
+
+  const duel: Duel = {
+    id: 'duel_' + uuid().slice(0, 12),
+    trackIds: [a.id, b.id],
+    votes: new Map(),
+    endsAt: Date.now() + DUEL_DURATION_MS,
+  };
+  duel.timer = setTimeout(() => {
+    resolveDuel(io, sessionId);
+    onResolved?.();
+  }, DUEL_DURATION_MS);
+  activeDuels[sessionId] = duel;
+
+  io.to(sessionId).emit('duel-started', {
+    duelId: duel.id,
+    tracks: [formatQueueTrack(a), formatQueueTrack(b)],
+    endsAt: duel.endsAt,
+  });
+}
+
+/** Record (or change) a listener's pick. Returns an error message if the vote was refused. */
+export function castDuelVote(io: Server, sessionId: string, userId: string, trackId: string, duelId?: string): string | null {
+  const duel = activeDuels[sessionId];
+  if (!duel || duel.winnerId) return 'No duel is open';
+  if (duelId && duelId !== duel.id) return 'That duel has closed';
+  if (!duel.trackIds.includes(trackId)) return 'That track is not in the duel';
+
+  duel.votes.set(userId, trackId);
+
+  const tally = tallyDuel(duel);
+  io.to(sessionId).emit('duel-tally', { duelId: duel.id, tally, totalVotes: duel.votes.size });
+  return null;
+}
+
+/**
+ * Close voting and pick the winner. Ties go to the track that was ahead in
+ * the queue. No-op if there's no open duel.
+ */
+export function resolveDuel(io: Server, sessionId: string): string | null {
+  const duel = activeDuels[sessionId];
+  if (!duel) return null;
+  if (duel.winnerId) return duel.winnerId;
+
+  if (duel.timer) clearTimeout(duel.timer);
+
+  const tally = tallyDuel(duel);
+  const [a, b] = duel.trackIds;
+  duel.winnerId = tally[b] > tally[a] ? b : a;
+
+  io.to(sessionId).emit('duel-resolved', { duelId: duel.id, winnerId: duel.winnerId, tally });
+  return duel.winnerId;
+}
+
+/** Cancel an open duel without a winner (e.g. the room left duel mode) */
+export function cancelDuel(io: Server, sessionId: string): void {
+  const duel = activeDuels[sessionId];
+  if (!duel) return;
+
+  if (!duel.winnerId) {
+    io.to(sessionId).emit('duel-resolved', {
+      duelId: duel.id,
+      winnerId: null,
+      tally: tallyDuel(duel),
+      cancelled: true,
+    });
+  }
+  clearDuel(sessionId);
+}
+
+export function clearDuel(sessionId: string): void {
+  const duel = activeDuels[sessionId];
+  if (duel?.timer) clearTimeout(duel.timer);
+  delete activeDuels[sessionId];
+}
+
+export function hasDuel(sessionId: string): boolean {
+  return !!activeDuels[sessionId];
+}
+
+/** Winner waiting for the next slot, if the current duel has resolved */
+export function getDuelWinner(sessionId: string): string | null {
+  return activeDuels[sessionId]?.winnerId ?? null;
+}
+
+/** Snapshot for the room-state payload */
+export function getDuelState(sessionId: string) {
+  const duel = activeDuels[sessionId];
+  if (!duel) return null;
+  return {
+    duelId: duel.id,
+    trackIds: duel.trackIds,
+    endsAt: duel.endsAt,
+    tally: tallyDuel(duel),
+    totalVotes: duel.votes.size,
+    winnerId: duel.winnerId ?? null,
+  };
+}
+
+function tallyDuel(duel: Duel): Record<string, number> {
+  const tally: Record<string, number> = { [duel.trackIds[0]]: 0, [duel.trackIds[1]]: 0 };
+  for (const trackId of duel.votes.values()) tally[trackId]++;
+  return tally;
+}
@@ -0,0 +1,127 @@
+/**
+ * Forecast Game — predict which queued track plays next
+ *
+ * A round is keyed by the track playing when the pick was made. Each listener
+ * gets one pick per round (they can change it until the round locks). When
+ * the track ends, advanceTrack locks the round's picks, then scores them
+ * against the track it actually moved to — in open_floor the top-scoring
+ * track, in duel rooms the duel winner.
+ *
+ * Correct picks earn leaderboard points plus a small voltage reward.
+ *
+ * Only rooms where votes decide what plays next run the game. In campfire
+ * and spotlight the broadcast queue order *is* the play order, so a pick
+ * would be a sure thing. Duel rooms take picks only while a duel is open,
+ * since its winner is known the moment it resolves. A round is voided (no
+ * points either way) if the room switched modes, or if the next track got
+ * there by a pin or power move rather than by votes.
+ */
+
+import { v4 as uuid } from 'uuid';
+import db from '../database';
+import { applyVoltage, EARN_RULES, VoltageTransaction } from './voltage';
+import { getDuelState, getDuelWinner } from './duels';
+import { SessionsRepo, QueueRepo, ForecastRepo } from '../repositories';
+
+/** Leaderboard points for a correct pick */
+export const FORECAST_POINTS = 10;
+
+export interface ForecastPick {
+  id: string;
+  roundId: string;
+  trackId: string;
+}
+
+export interface ForecastResult {
+  roundId: string;
+  trackId: string | null;
+  winners: { userId: string; username: string }[];
+  transactions: VoltageTransaction[];
+}
+
+/** Does this room pick its next track by votes (and so run the game)? */
+export function isForecastRoom(sessionId: string): boolean {
+  const mode = SessionsRepo.findById(sessionId)?.room_mode;
+  return mode === 'open_floor' || mode === 'openFloor' || mode === 'duel';
+}
+
+/** Was the track that played next still up to the votes when the round locked? */
+function decidedByVotes(sessionId: string, nextTrackId: string | null): boolean {
+  if (!isForecastRoom(sessionId)) return false;
+  if (!nextTrackId) return true;   // The queue ran dry — nobody could have picked it
+
+  const next = QueueRepo.findById(nextTrackId);
+  if (next?.pinned_at || next?.powered_by) return false;
+  return SessionsRepo.findById(sessionId)?.room_mode !== 'duel' || getDuelWinner(sessionId) === nextTrackId;
+}
+
+/**
+ * Record or change a pick for the current round. Returns an error message
+ * if the pick was refused.
+ */
+export function submitPick(sessionId: string, userId: string, trackId: string): { pick?: ForecastPick; error?: string } {
+  if (!isForecastRoom(sessionId)) return { error: 'Forecasts only run in Open Floor and Duel rooms' };
+
+  const current = QueueRepo.findCurrent(sessionId);
+  if (!current) return { error: 'Nothing is playing — wait for the next round' };
+
+  const track = QueueRepo.findInSession(trackId, sessionId);
+  if (!track || track.is_current || track.status !== 'approved') return { error: 'You can only pick a queued track' };
+
+  if (SessionsRepo.findById(sessionId)?.room_mode === 'duel') {
+    const duel = getDuelState(sessionId);
+    if (!duel || duel.winnerId) return { error: 'Picks open with the next duel' };
+    if (!duel.trackIds.includes(trackId)) return { error: 'Pick one of the tracks in the duel' };
+  }
+
+  const existing = ForecastRepo.findPick(sessionId, userId, current.id);
+
+  if (existing && existing.status !== 'open') return { error: 'Picks for this round are locked' };
+
+  const id = existing?.id || 'fc_' + uuid().slice(0, 12);
+  ForecastRepo.savePick({ id, session_id: sessionId, user_id: userId, round_id: current.id, track_id: trackId });
+
+  return { pick: { id, roundId: current.id, trackId } };
+}
+
+/** Stop accepting changes for a round. Returns how many picks were locked. */
+export function lockPicks(sessionId: string, roundId: string): number {
+  return ForecastRepo.lockRound(sessionId, roundId);
+}
+
+/**
+ * Score a locked round against the track that actually played next
+ * (null if the queue ran dry — everyone loses). Returns null, voiding the
+ * picks, when the votes didn't decide what played (see the header).
+ */
+export function scorePicks(sessionId: string, roundId: string, nextTrackId: string | null): ForecastResult | null {
+  if (!decidedByVotes(sessionId, nextTrackId)) {
+    ForecastRepo.voidRound(sessionId, roundId);
+    return null;
+  }
+
+  return db.transaction((): ForecastResult => {
+    const winners = ForecastRepo.listPickersOf(sessionId, roundId, nextTrackId);
+    ForecastRepo.scoreRound(sessionId, roundId, nextTrackId, FORECAST_POINTS);
+
+    const transactions: VoltageTransaction[] = [];
+    for (const w of winners) {
+      const tx = applyVoltage(w.userId, EARN_RULES.forecastWin, 'forecast_win', { sessionId, refId: roundId });
+      if (tx) transactions.push(tx);
+    }
+
+    return { roundId, trackId: nextTrackId, winners, transactions };
+  })();
+}
+
+/** Per-session standings, best first */
+export function getLeaderboard(sessionId: string) {
+  return ForecastRepo.listStandings(sessionId).map((r, i) => ({
+    rank: i + 1,
+    userId: r.userId,
+    username: r.username,
+    points: r.points,
+    correct: r.correct,
+    total: r.total,
+  }));
+}
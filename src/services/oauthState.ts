@@ -0,0 +1,92 @@
+/**
+ * OAuth State — CSRF-safe `state` values for provider authorization flows
+ *
+ * An authorize endpoint (requireAuth) calls issueOAuthState() and sends the
+ * user to the provider with the returned state and PKCE challenge. The
+ * provider redirects back to our callback with the state, and
+ * consumeOAuthState() tells us which user started the flow — and hands back
+ * the PKCE verifier for the token exchange.
+ *
+ * A state is HMAC-signed (so forged or altered ones are rejected outright),
+ * bound to one user and provider, expires after OAUTH_STATE_TTL_MS and can
+ * be used once. Pending flows live in memory; a restart just means the user
+ * taps "connect" again.
+ */
+
+import crypto from 'crypto';
+import { Provider } from './connectedAccounts';
+
+const STATE_SECRET = process.env.JWT_SECRET || 'frequenc_dev_secret_change_in_prod';
+
+/** How long a user has to finish authorizing with the provider */
+export const OAUTH_STATE_TTL_MS = 10 * 60 * 1000;
+
+export interface IssuedOAuthState {
+  state: string;
+  /** PKCE S256 challenge for the authorize URL */
+  codeChallenge: string;
+}
+
+interface PendingFlow {
+  userId: string;
+  provider: Provider;
+  codeVerifier: string;
+  expiresAt: number;
+}
+
+/** nonce → flow, deleted when consumed */
+const pending = new Map<string, PendingFlow>();
+
+function base64url(buf: Buffer): string {
+  return buf.toString('base64url');
+}
+
+function sign(payload: string): string {
+  // Labelled so a state signature can't double as any other HMAC on this secret
+  return base64url(crypto.createHmac('sha256', STATE_SECRET).update(`oauth-state:${payload}`).digest());
+}
+
+function pruneExpired(now: number): void {
+  for (const [nonce, flow] of pending) {
+    if (flow.expiresAt <= now) pending.delete(nonce);
+  }
+}
+
+/** Start an authorization flow for `userId` with `provider` */
+export function issueOAuthState(userId: string, provider: Provider): IssuedOAuthState {
+  const now = Date.now();
+  pruneExpired(now);
+
+  const nonce = base64url(crypto.randomBytes(24));
+  const codeVerifier = base64url(crypto.randomBytes(32));
+  pending.set(nonce, { userId, provider, codeVerifier, expiresAt: now + OAUTH_STATE_TTL_MS });
+
+  const payload = `${provider}.${nonce}`;
+  return {
+    state: `${payload}.${sign(payload)}`,
+    codeChallenge: base64url(crypto.createHash('sha256').update(codeVerifier).digest()),
+  };
+}
+
+/**
+ * Finish a flow. Returns who started it and the PKCE verifier, or null if the
+ * state is forged, for another provider, expired or already used.
+ */
+export function consumeOAuthState(
+  state: string,
+  provider: Provider,
+): { userId: string; codeVerifier: string } | null {
+  const [stateProvider, nonce, signature] = state.split('.');
+  if (!stateProvider || !nonce || !signature) return null;
+
+  const expected = Buffer.from(sign(`${stateProvider}.${nonce}`));
+  const given = Buffer.from(signature);
+  if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) return null;
+
+  const flow = pending.get(nonce);
+  if (!flow || flow.provider !== provider || stateProvider !== provider) return null;
+
+  pending.delete(nonce);
+  if (flow.expiresAt <= Date.now()) return null;
+  return { userId: flow.userId, codeVerifier: flow.codeVerifier };
+}
@@ -0,0 +1,111 @@
+/**
+ * Session Roles & Permissions
+ *
+ * Every permission check for room actions goes through can(). The host is
+ * whoever sessions.host_id points at; everyone else's role comes from
+ * session_roles, defaulting to 'listener' when they have no row.
+ *
+ *   host      → everything
+ *   co-host   → run the room (playback, skip, queue moderation, mode, settings, roles) — first in line to inherit it
+ *   moderator → skip, queue moderation, chat
+ *   listener  → chat; vote to skip outside spotlight
+ *   muted     → listen only
+ */
+
+import { SessionsRepo, RolesRepo } from '../repositories';
+
+// ─── Types ───────────────────────────────────────────────────
+
+export type SessionRole = 'host' | 'co-host' | 'moderator' | 'listener' | 'muted';
+
+export type SessionAction =
+  | 'skip'              // skip outright
+  | 'vote-skip'
+  | 'moderate-queue'    // approve/reject, deny power moves
+  | 'change-mode'
+  | 'manage-settings'
+  | 'playback'
+  | 'chat'
+  | 'manage-roles';
+
+/** Roles that can be granted (host changes hands through handoff/succession instead) */
+export const GRANTABLE_ROLES: SessionRole[] = ['co-host', 'moderator', 'listener', 'muted'];
+
+const ROLE_PERMISSIONS: Record<SessionRole, SessionAction[]> = {
+  host: ['skip', 'vote-skip', 'moderate-queue', 'change-mode', 'manage-settings', 'playback', 'chat', 'manage-roles'],
+  'co-host': ['skip', 'vote-skip', 'moderate-queue', 'change-mode', 'manage-settings', 'playback', 'chat', 'manage-roles'],
+  moderator: ['skip', 'vote-skip', 'moderate-queue', 'chat'],
+  listener: ['chat'],
+  muted: [],
+};
+
+// ─── Checks ──────────────────────────────────────────────────
+
+export function getRole(sessionId: string, userId: string): SessionRole {
+  if (SessionsRepo.findById(sessionId)?.host_id === userId) return 'host';
+  return (RolesRepo.find(sessionId, userId)?.role as SessionRole | undefined) || 'listener';
+}
+
+/** Can this user perform this action in this session? */
+export function can(sessionId: string, userId: string, action: SessionAction): boolean {
+  const role = getRole(sessionId, userId);
+  if (ROLE_PERMISSIONS[role].includes(action)) return true;
+
+  // Listeners can vote to skip everywhere except Spotlight, where the host curates
+  if (action === 'vote-skip' && role === 'listener') {
+    const session = SessionsRepo.findById(sessionId);
+    return !!session && session.room_mode !== 'spotlight';
+  }
+  return false;
+}
+
+// ─── Granting ────────────────────────────────────────────────
+
+/**
+ * Change a member's role on behalf of `actorId`. Returns null on success or
+ * an HTTP-style error. Co-hosts manage moderators and mutes; only the host
+ * appoints or removes co-hosts.
+ */
+export function setRole(
+  sessionId: string,
+  actorId: string,
+  targetId: string,
+  role: SessionRole,
+): { status: number; message: string } | null {
+  if (!GRANTABLE_ROLES.includes(role)) return { status: 400, message: 'Invalid role' };
+
+  const actorRole = getRole(sessionId, actorId);
+  if (!ROLE_PERMISSIONS[actorRole].includes('manage-roles')) {
+    return { status: 403, message: 'You cannot manage roles in this session' };
+  }
+
+  if (!SessionsRepo.isMember(sessionId, targetId)) return { status: 404, message: 'That user is not in this session' };
+
+  const targetRole = getRole(sessionId, targetId);
+  if (targetRole === 'host') return { status: 403, message: "The host's role can't be changed" };
+  if (actorRole !== 'host' && (role === 'co-host' || targetRole === 'co-host')) {
+    return { status: 403, message: 'Only the host can appoint or remove co-hosts' };
+  }
+
+  if (role === 'listener') {
+    RolesRepo.remove(sessionId, targetId);
+  } else {
+    RolesRepo.grant(sessionId, targetId, role, actorId);
+  }
+  return null;
+}
+
+/** Drop any stored role (e.g. they became host, or left the session) */
+export function clearRole(sessionId: string, userId: string): void {
+  RolesRepo.remove(sessionId, userId);
+}
+
+/** Co-hosts in the order they joined the session */
+export function getCoHosts(sessionId: string): string[] {
+  return RolesRepo.listCoHostIds(sessionId);
+}
+
+/** Every member with their effective role, for room-state / roles-updated */
+export function listRoles(sessionId: string): { userId: string; username: string; role: SessionRole }[] {
+  return RolesRepo.listMemberRoles(sessionId).map((r) => ({ ...r, role: r.role as SessionRole }));
+}
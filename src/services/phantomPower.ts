@@ -0,0 +1,100 @@
+/**
+ * Phantom Power — spend voltage to jump a queued track to the front
+ *
+ * A listener powers one of their own waiting tracks and it plays ahead of
+ * everything but pins (see getOrderedQueue). PHANTOM_POWER_LIMITS caps how
+ * many moves a listener gets per room (refunded ones don't count) and how
+ * many powered tracks can wait at once. The host or a queue moderator can
+ * deny a move, pulling the track back into the normal order — refunded by
+ * default.
+ *
+ * The socket handlers broadcast the outcome and send the pushes.
+ */
+
+import db from '../database';
+import { can } from './permissions';
+import { getOrderedQueue } from './queue';
+import { applyVoltage, countTransactions, SPEND_RULES, PHANTOM_POWER_LIMITS, VoltageTransaction } from './voltage';
+import { QueueRepo, VotedQueueTrackRow } from '../repositories';
+
+export interface PowerMove {
+  track: VotedQueueTrackRow;
+  tx: VoltageTransaction;
+  /** Owners of the tracks it jumped ahead of (not the user who powered it) */
+  displacedUserIds: string[];
+}
+
+export interface PowerMoveDenial {
+  track: VotedQueueTrackRow;
+  /** The refund, if one was given */
+  tx: VoltageTransaction | null;
+}
+
+/** Either the move that was made or why it was refused — never neither */
+export type PowerResult = { move: PowerMove; error?: undefined } | { move?: undefined; error: string };
+
+/** Power moves a user has spent in a session, net of refunds */
+export function powerMovesUsed(userId: string, sessionId: string): number {
+  return countTransactions(userId, sessionId, 'phantom_power')
+    - countTransactions(userId, sessionId, 'phantom_power_refund');
+}
+
+/**
+ * Spend voltage to power `trackId`. Returns an error message if the move was
+ * refused (nothing is charged then).
+ */
+export function powerTrack(sessionId: string, userId: string, trackId: string): PowerResult {
+  const track = QueueRepo.findInSession(trackId, sessionId);
+
+  if (!track || track.is_current || track.status !== 'approved') return { error: 'Only queued tracks can be powered' };
+  if (track.added_by_id !== userId) return { error: 'You can only power your own tracks' };
+  if (track.powered_by) return { error: 'That track is already powered' };
+
+  if (powerMovesUsed(userId, sessionId) >= PHANTOM_POWER_LIMITS.perUser) {
+    return { error: `You've used all ${PHANTOM_POWER_LIMITS.perUser} power moves in this room` };
+  }
+  if (QueueRepo.countPoweredWaiting(sessionId) >= PHANTOM_POWER_LIMITS.activeInRoom) {
+    return { error: 'Too many power moves waiting — try again after one plays' };
+  }
+
+  const before = getOrderedQueue(sessionId);
+  const ahead = before.slice(0, before.findIndex((r) => r.id === trackId));
+
+  const tx = db.transaction(() => {
+    const debit = applyVoltage(userId, -SPEND_RULES.phantomPower, 'phantom_power', { sessionId, refId: trackId });
+    if (debit) QueueRepo.setPoweredBy(trackId, userId);
+    return debit;
+  })();
+  if (!tx) return { error: `Not enough voltage (Phantom Power costs ${SPEND_RULES.phantomPower})` };
+
+  // Pins (and earlier power moves) stay ahead; everyone else just lost a place
+  const after = getOrderedQueue(sessionId).map((r) => r.id);
+  const newIndex = after.indexOf(trackId);
+  const displacedUserIds = [...new Set(
+    ahead.filter((r) => after.indexOf(r.id) > newIndex).map((r) => r.added_by_id),
+  )].filter((id) => id !== userId);
+
+  return { move: { track: QueueRepo.findById(trackId)!, tx, displacedUserIds } };
+}
+
+/**
+ * Pull a powered track back into the normal order, refunding its owner unless
+ * `refund` is false. Null if `actorId` can't moderate the queue or the track
+ * isn't a waiting powered track.
+ */
+export function denyPowerMove(sessionId: string, actorId: string, trackId: string, refund = true): PowerMoveDenial | null {
+  if (!can(sessionId, actorId, 'moderate-queue')) return null;
+
+  const track = QueueRepo.findInSession(trackId, sessionId);
+  if (!track?.powered_by || track.is_current) return null;
+  const poweredBy = track.powered_by;
+
+  const tx = db.transaction(() => {
+    QueueRepo.setPoweredBy(trackId, null);
+    return refund
+      ? applyVoltage(poweredBy, SPEND_RULES.phantomPower, 'phantom_power_refund', { sessionId, refId: trackId })
+      : null;
+  })();
+
+  return { track, tx };
+}
@@ -0,0 +1,52 @@
+/**
+ * Play History — what a session has played
+ *
+ * When a track finishes or is skipped, advanceTrack moves its row from
+ * queue_tracks into played_tracks along with who added it, the votes it had
+ * and when it started/ended. Ending the session records whatever was still
+ * playing as `ended`. Feeds GET /api/sessions/:id/history and the
+ * "recently played" part of room-state.
+ */
+
+import { PlayHistoryRepo, PlayedTrackRow } from '../repositories';
+
+export type PlayOutcome = 'completed' | 'skipped' | 'ended';
+
+/** How many tracks room-state includes as recently played */
+export const RECENTLY_PLAYED_COUNT = 5;
+
+/**
+ * Copy the session's current track into history. Call inside the same
+ * transaction that removes it from the queue. Returns false if nothing was
+ * playing.
+ */
+export function recordPlay(sessionId: string, outcome: PlayOutcome): boolean {
+  return PlayHistoryRepo.recordCurrent(sessionId, outcome);
+}
+
+/** Played tracks, most recent first */
+export function getPlayHistory(sessionId: string, limit: number, offset = 0) {
+  return PlayHistoryRepo.list(sessionId, limit, offset).map(formatPlayedTrack);
+}
+
+export function countPlayHistory(sessionId: string): number {
+  return PlayHistoryRepo.count(sessionId);
+}
+
+function formatPlayedTrack(row: PlayedTrackRow) {
+  return {
+    id: row.id,
+    title: row.title,
+    artist: row.artist,
+    album: row.album || undefined,
+    albumArt: row.album_art || undefined,
+    duration: row.duration,
+    source: row.source,
+    sourceId: row.source_id || undefined,
+    addedBy: { userId: row.added_by_id, username: row.added_by_username },
+    votes: row.votes,
+    outcome: row.outcome as PlayOutcome,
+    startedAt: row.started_at || undefined,
+    endedAt: row.ended_at,
+  };
+}
@@ -0,0 +1,125 @@
+/**
+ * Room Playback State
+ *
+ * What each session is playing and where it is. Reads come from an
+ * in-memory map; every write goes through to the playback_state table so a
+ * restart doesn't desync the room. On boot, restorePlayback() reloads live
+ * sessions and reconciles them against queue_tracks.is_current (the queue is
+ * the source of truth for *which* track is playing).
+ *
+ * Shared between the socket handlers that drive playback and the REST routes
+ * that end sessions.
+ */
+
+import db from '../database';
+
+export interface PlaybackState {
+  state: 'playing' | 'paused' | 'stopped';
+  position: number;      // seconds into the track
+  timestamp: number;     // Date.now() when position was recorded
+  trackId?: string;
+}
+
+const roomPlaybackState: Record<string, PlaybackState> = {};
+
+export function getPlayback(sessionId: string): PlaybackState | undefined {
+  return roomPlaybackState[sessionId];
+}
+
+export function setPlayback(sessionId: string, state: PlaybackState): void {
+  roomPlaybackState[sessionId] = state;
+
+  db.prepare(`
+    INSERT INTO playback_state (session_id, track_id, state, position, updated_at)
+    VALUES (?, ?, ?, ?, ?)
+    ON CONFLICT (session_id) DO UPDATE SET
+      track_id = excluded.track_id, state = excluded.state,
+      position = excluded.position, updated_at = excluded.updated_at
+  `).run(sessionId, state.trackId || null, state.state, state.position, state.timestamp);
+}
+
+export function clearPlayback(sessionId: string): void {
+  delete roomPlaybackState[sessionId];
+  db.prepare('DELETE FROM playback_state WHERE session_id = ?').run(sessionId);
+}
+
+/** Duration in seconds of a queue track, if known */
+export function trackDuration(trackId?: string): number | null {
+  if (!trackId) return null;
+  const row = db.prepare('SELECT duration FROM queue_tracks WHERE id = ?').get(trackId) as any;
+  return row?.duration || null;
+}
+
+/**
+ * Where the room should be at `now`: a playing room's position is carried
+ * forward by the time elapsed since it was recorded, capped at the track's
+ * duration. This is the server clock every listener is measured against.
+ */
+export function expectedPosition(ps: PlaybackState, now = Date.now()): number {
+  if (ps.state !== 'playing') return ps.position;
+  const elapsed = Math.max(0, (now - ps.timestamp) / 1000);
+  const duration = trackDuration(ps.trackId);
+  return duration ? Math.min(ps.position + elapsed, duration) : ps.position + elapsed;
+}
+
+/**
+ * Clean up a client-supplied position: non-numbers fall back to `fallback`,
+ * and the result is kept within [0, duration].
+ */
+export function sanitizePosition(trackId: string | undefined, position: unknown, fallback = 0): number {
+  const value = typeof position === 'number' && Number.isFinite(position) ? position : fallback;
+  const duration = trackDuration(trackId);
+  return Math.max(0, duration ? Math.min(value, duration) : value);
+}
+
+/** Playback as of `now`, for clients (re)joining or resyncing mid-track */
+export function getPlaybackSnapshot(sessionId: string, now = Date.now()): PlaybackState {
+  const ps = roomPlaybackState[sessionId];
+  if (!ps) return { state: 'stopped', position: 0, timestamp: now };
+  return { ...ps, position: expectedPosition(ps, now), timestamp: now };
+}
+
+/** Sessions whose playback is currently running */
+export function getPlayingSessions(): string[] {
+  return Object.keys(roomPlaybackState).filter((id) => roomPlaybackState[id].state === 'playing');
+}
+
+/**
+ * Reload persisted playback for live sessions. Rows whose track no longer
+ * matches the session's current track are reset to the start of whatever is
+ * current (or dropped if nothing is). Returns how many rooms were restored.
+ */
+export function restorePlayback(): number {
+  const rows = db.prepare(`
+    SELECT ps.*, qt.id as current_id
+    FROM playback_state ps
+    JOIN sessions s ON s.id = ps.session_id
+    LEFT JOIN queue_tracks qt ON qt.session_id = ps.session_id AND qt.is_current = 1
+    WHERE s.is_live = 1
+  `).all() as any[];
+
+  let restored = 0;
+  for (const row of rows) {
+    if (!row.current_id) {
+      clearPlayback(row.session_id);
+      continue;
+    }
+
+    if (row.track_id === row.current_id) {
+      roomPlaybackState[row.session_id] = {
+        state: row.state,
+        position: row.position,
+        timestamp: row.updated_at,
+        trackId: row.track_id,
+      };
+    } else {
+      setPlayback(row.session_id, { state: 'paused', position: 0, timestamp: Date.now(), trackId: row.current_id });
+    }
+    restored++;
+  }
+
+  // Dead sessions' rows are never needed again
+  db.prepare('DELETE FROM playback_state WHERE session_id IN (SELECT id FROM sessions WHERE is_live = 0)').run();
+
+  return restored;
+}
@@ -0,0 +1,72 @@
+/**
+ * Playback Clock — the server's view of where each room should be
+ *
+ * The server owns the clock: expected position is derived from the room's
+ * PlaybackState (see expectedPosition). Playing rooms get a `playback:tick`
+ * heartbeat every few seconds, and listeners report their own position with
+ * `playback:report`; anyone drifting past the threshold gets a targeted
+ * `playback:resync` with the position they should jump to.
+ *
+ * Events:
+ *   playback:tick   → room   { trackId, state, position, serverTime }
+ *   playback:resync → socket { trackId, state, position, serverTime, drift }
+ */
+
+import { Server } from 'socket.io';
+import { getPlayback, getPlayingSessions, getPlaybackSnapshot } from './playback';
+
+/** Heartbeat interval in seconds */
+const TICK_INTERVAL_SEC = parseInt(process.env.PLAYBACK_TICK_SECONDS || '5', 10);
+
+/** How far (seconds) a listener may drift before being corrected */
+export const DRIFT_THRESHOLD_SEC = parseFloat(process.env.PLAYBACK_DRIFT_SECONDS || '2');
+
+export interface PlaybackSync {
+  trackId: string | null;
+  state: 'playing' | 'paused' | 'stopped';
+  position: number;
+  serverTime: number;
+}
+
+/** The room's clock as a wire payload */
+export function clockFor(sessionId: string, now = Date.now()): PlaybackSync {
+  const ps = getPlaybackSnapshot(sessionId, now);
+  return { trackId: ps.trackId ?? null, state: ps.state, position: ps.position, serverTime: now };
+}
+
+/**
+ * Compare a listener's reported position against the room clock. Returns the
+ * correction to send them, or null if they're close enough (or the room has
+ * nothing to sync to).
+ */
+export function checkDrift(
+  sessionId: string,
+  reported: { position: number; trackId?: string },
+  now = Date.now(),
+): (PlaybackSync & { drift: number | null }) | null {
+  const ps = getPlayback(sessionId);
+  if (!ps?.trackId || ps.state === 'stopped') return null;
+
+  const clock = clockFor(sessionId, now);
+
+  // Wrong track entirely — always resync (drift is meaningless)
+  if (reported.trackId && reported.trackId !== ps.trackId) {
+    return { ...clock, drift: null };
+  }
+
+  const drift = reported.position - clock.position;
+  if (Math.abs(drift) <= DRIFT_THRESHOLD_SEC) return null;
+  return { ...clock, drift };
+}
+
+/** Start the per-room heartbeat. Returns the interval ID for cleanup. */
+export function startPlaybackClock(io: Server): ReturnType<typeof setInterval> {
+  return setInterval(() => {
+    const now = Date.now();
+    for (const sessionId of getPlayingSessions()) {
+      // Nobody listening, nothing to tick
+      if (!io.sockets.adapter.rooms.get(sessionId)?.size) continue;
+      io.to(sessionId).emit('playback:tick', clockFor(sessionId, now));
+    }
+  }, TICK_INTERVAL_SEC * 1000);
+}
@@ -0,0 +1,197 @@
+/**
+ * Queue — play order and queue management for a session's waiting tracks
+ *
+ * Shared by the socket handlers and the REST routes. moveTrack, removeTrack
+ * and pinTrack back the `queue:*` socket events and their REST equivalents;
+ * they return null on success or an HTTP-style error.
+ */
+
+import { Server } from 'socket.io';
+import db from '../database';
+import { formatQueueTrack } from '../routes/sessionRoutes';
+import { can } from './permissions';
+import { openDuel, cancelDuel, hasDuel, getDuelWinner, getDuelState } from './duels';
+import { getSettings, DEFAULT_SETTINGS } from './sessionSettings';
+import { orderCampfire, orderOpenFloor, isDownvotedOut, parseSqliteTime, CampfireContext } from './queueOrder';
+import { SessionsRepo, QueueRepo, PlayHistoryRepo, VotedQueueTrackRow } from '../repositories';
+
+type QueueError = { status: number; message: string };
+
+/** A waiting track in play order — open_floor rows carry their score */
+export type OrderedTrack = VotedQueueTrackRow & { score?: number };
+
+// ─── Ordering ────────────────────────────────────────────────
+
+/**
+ * Get the ordered queue for a session, respecting the room mode.
+ *
+ * - campfire:   Round-robin by user (user A → user B → user A → …), then position within each user;
+ *               whoever played least recently goes first each round (see orderCampfire).
+ * - open_floor: Score-ranked (votes that fade with age, plus a waiting boost — see
+ *               scoreOpenFloor), position tiebreaker. Each row carries its `score`.
+ * - spotlight:  Position order (host curates).
+ * - duel:       Position order; the top two are paired into duels and a resolved
+ *               winner jumps to the front, ahead of everything but pins.
+ *
+ * In every mode, tracks the host pinned go first (earliest pin first), then
+ * Phantom-Powered tracks (earliest power move first), then tracks bumped with
+ * voltage float above un-bumped ones (higher priority first; the mode's order
+ * is kept within a tier).
+ */
+export function getOrderedQueue(sessionId: string): OrderedTrack[] {
+  const ordered = orderByMode(sessionId);
+
+  const pinned = ordered
+    .filter((r) => r.pinned_at)
+    .sort((a, b) => a.pinned_at!.localeCompare(b.pinned_at!));
+
+  const powered = ordered
+    .filter((r) => !r.pinned_at && r.powered_at)
+    .sort((a, b) => a.powered_at!.localeCompare(b.powered_at!));
+
+  // Array.prototype.sort is stable, so this keeps the mode order within each tier
+  const rest = ordered
+    .filter((r) => !r.pinned_at && !r.powered_at)
+    .sort((a, b) => (b.priority || 0) - (a.priority || 0));
+
+  const unpinned = [...powered, ...rest];
+
+  // Duel rooms: the resolved winner has earned the next slot (after any pins)
+  const winnerId = getDuelWinner(sessionId);
+  const winnerIdx = winnerId ? unpinned.findIndex((r) => r.id === winnerId) : -1;
+  if (winnerIdx > 0) unpinned.unshift(...unpinned.splice(winnerIdx, 1));
+
+  return [...pinned, ...unpinned];
+}
+
+function orderByMode(sessionId: string): OrderedTrack[] {
+  const mode = SessionsRepo.findById(sessionId)?.room_mode || 'campfire';
+  const rows = QueueRepo.listApprovedWaiting(sessionId);
+
+  if (mode === 'campfire') return orderCampfire(rows, campfireContext(sessionId));
+
+  if (mode === 'openFloor' || mode === 'open_floor') {
+    const config = getSettings(sessionId)?.openFloor ?? DEFAULT_SETTINGS.openFloor;
+    return orderOpenFloor(rows, Date.now(), config);
+  }
+
+  // spotlight / duel: position order (host manages via approve/reject and queue:move)
+  return rows;
+}
+
+/** Who played when (and joined when) — the inputs campfire fairness needs */
+function campfireContext(sessionId: string): CampfireContext {
+  const lastPlayedAt: Record<string, number> = {};
+  for (const p of PlayHistoryRepo.listLastStarts(sessionId)) lastPlayedAt[p.added_by_id] = parseSqliteTime(p.startedAt);
+
+  const joinedAt: Record<string, number> = {};
+  for (const m of SessionsRepo.listMembershipsByJoin(sessionId)) joinedAt[m.user_id] = parseSqliteTime(m.joined_at);
+
+  return {
+    now: Date.now(),
+    lastPlayedAt,
+    joinedAt,
+    weightByListening: getSettings(sessionId)?.weightByListening ?? false,
+  };
+}
+
+export function broadcastQueue(io: Server, sessionId: string): void {
+  const ordered = getOrderedQueue(sessionId);
+  io.to(sessionId).emit('queue-updated', ordered.map(formatQueueTrack));
+}
+
+/** Duel rooms: once something is playing and no duel is open, pair the top two candidates */
+export function maybeStartDuel(io: Server, sessionId: string): void {
+  if (SessionsRepo.findById(sessionId)?.room_mode !== 'duel' || hasDuel(sessionId)) return;
+  if (!QueueRepo.findCurrent(sessionId)) return;
+
+  const [a, b] = getOrderedQueue(sessionId);
+  if (!a || !b) return;
+
+  openDuel(io, sessionId, a, b, () => broadcastQueue(io, sessionId));
+}
+
+// ─── Management ──────────────────────────────────────────────
+
+function getWaitingTrack(sessionId: string, trackId: string): VotedQueueTrackRow | undefined {
+  const track = QueueRepo.findInSession(trackId, sessionId);
+  return track && !track.is_current ? track : undefined;
+}
+
+/**
+ * Move a track to `toIndex` in the play order. Positions of the ordered
+ * tracks are rewritten to match, reusing the same position values so pending
+ * spotlight tracks keep their place. In spotlight/duel rooms the order is
+ * position, so the move is exact; in campfire and open_floor the mode's own
+ * ordering (turns, votes) still comes first and position only breaks ties —
+ * pin a track to force it next.
+ */
+export function moveTrack(sessionId: string, actorId: string, trackId: string, toIndex: number): QueueError | null {
+  if (!can(sessionId, actorId, 'moderate-queue')) return { status: 403, message: 'You cannot reorder this queue' };
+  if (!Number.isInteger(toIndex) || toIndex < 0) return { status: 400, message: 'toIndex must be a whole number ≥ 0' };
+
+  const ordered = getOrderedQueue(sessionId);
+  const from = ordered.findIndex((r) => r.id === trackId);
+  if (from === -1) return { status: 404, message: 'Track is not waiting in this queue' };
+
+  const positions = ordered.map((r) => r.position).sort((a, b) => a - b);
+  const [moved] = ordered.splice(from, 1);
+  ordered.splice(Math.min(toIndex, ordered.length), 0, moved);
+
+  db.transaction(() => {
+    ordered.forEach((row, i) => QueueRepo.setPosition(row.id, positions[i]));
+  })();
+  return null;
+}
+
+/**
+ * Take a waiting track out of the queue. Curators can remove anything;
+ * everyone else only their own tracks. (The playing track is skipped, not removed.)
+ */
+export function removeTrack(io: Server | undefined, sessionId: string, actorId: string, trackId: string): QueueError | null {
+  const track = getWaitingTrack(sessionId, trackId);
+  if (!track) return { status: 404, message: 'Track is not waiting in this queue' };
+  if (track.added_by_id !== actorId && !can(sessionId, actorId, 'moderate-queue')) {
+    return { status: 403, message: 'You can only remove your own tracks' };
+  }
+
+  deleteWaitingTrack(io, sessionId, trackId);
+  return null;
+}
+
+/**
+ * open_floor: drop a waiting track once its net downvotes reach the room's
+ * downvoteRemoval. Returns true if it was removed.
+ */
+export function removeIfDownvoted(io: Server | undefined, sessionId: string, trackId: string): boolean {
+  const mode = SessionsRepo.findById(sessionId)?.room_mode;
+  if (mode !== 'open_floor' && mode !== 'openFloor') return false;
+
+  const config = getSettings(sessionId)?.openFloor ?? DEFAULT_SETTINGS.openFloor;
+  const track = getWaitingTrack(sessionId, trackId);
+  if (!track || !isDownvotedOut(track.voted_by, config)) return false;
+
+  deleteWaitingTrack(io, sessionId, trackId);
+  return true;
+}
+
+function deleteWaitingTrack(io: Server | undefined, sessionId: string, trackId: string): void {
+  QueueRepo.remove(trackId);
+
+  // A duel can't go on without one of its tracks
+  if (io && getDuelState(sessionId)?.trackIds.includes(trackId)) {
+    cancelDuel(io, sessionId);
+    maybeStartDuel(io, sessionId);
+  }
+}
+
+/** Pin a waiting track to the front of the queue (or unpin it) */
+export function pinTrack(sessionId: string, actorId: string, trackId: string, pinned: boolean): QueueError | null {
+  if (!can(sessionId, actorId, 'moderate-queue')) return { status: 403, message: 'You cannot pin tracks in this queue' };
+
+  const track = getWaitingTrack(sessionId, trackId);
+  if (!track || track.status !== 'approved') return { status: 404, message: 'Track is not waiting in this queue' };
+
+  QueueRepo.setPinned(trackId, pinned);
+  return null;
+}
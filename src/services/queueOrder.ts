@@ -0,0 +1,162 @@
+/**
+ * Queue Ordering — pure ordering algorithms (no DB access)
+ *
+ * Kept separate from services/queue so they can be unit-tested with plain
+ * rows and a context object; services/queue gathers the context from the
+ * database and calls in.
+ */
+
+/** SQLite's datetime('now') is UTC "YYYY-MM-DD HH:MM:SS" */
+export function parseSqliteTime(value: string): number {
+  return Date.parse(value.replace(' ', 'T') + 'Z');
+}
+
+// ─── Campfire ────────────────────────────────────────────────
+
+export interface CampfireTrack {
+  id: string;
+  added_by_id: string;
+  position: number;
+}
+
+export interface CampfireContext {
+  /** Date.now() the order is computed at */
+  now: number;
+  /** When each user's most recent track started playing (ms), from play history + the current track */
+  lastPlayedAt: Record<string, number>;
+  /** When each user joined the session (ms), for listening-time weighting */
+  joinedAt?: Record<string, number>;
+  /** Give longer-standing listeners a head start (see LISTENING_WEIGHT_CAP_MS) */
+  weightByListening?: boolean;
+}
+
+/** Listening time that earns the full 2× wait credit when weighting is on */
+export const LISTENING_WEIGHT_CAP_MS = 60 * 60 * 1000;
+
+/**
+ * Round-robin with fairness: one track per contributor per round, each
+ * contributor's own tracks in position order. The order of contributors
+ * within every round is:
+ *
+ *   1. people who haven't had a track play yet (earliest queued first),
+ *   2. then everyone else, whoever has waited longest since their last track
+ *      started goes first — so the person who just played goes last and the
+ *      round's starting point rotates as tracks play.
+ *
+ * With `weightByListening`, waits are scaled by up to 2× for people who've
+ * been in the room longer, and first-timers are ordered by listening time.
+ */
+export function orderCampfire<T extends CampfireTrack>(rows: T[], ctx: CampfireContext): T[] {
+  const byUser = new Map<string, T[]>();
+  for (const row of [...rows].sort((a, b) => a.position - b.position)) {
+    if (!byUser.has(row.added_by_id)) byUser.set(row.added_by_id, []);
+    byUser.get(row.added_by_id)!.push(row);
+  }
+
+  const listening = (userId: string) =>
+    ctx.joinedAt?.[userId] !== undefined ? Math.max(0, ctx.now - ctx.joinedAt[userId]) : 0;
+
+  const weightedWait = (userId: string) => {
+    const wait = ctx.now - ctx.lastPlayedAt[userId];
+    if (!ctx.weightByListening) return wait;
+    return wait * (1 + Math.min(listening(userId) / LISTENING_WEIGHT_CAP_MS, 1));
+  };
+
+  const firstPosition = (userId: string) => byUser.get(userId)![0].position;
+
+  const users = [...byUser.keys()].sort((a, b) => {
+    const aPlayed = ctx.lastPlayedAt[a] !== undefined;
+    const bPlayed = ctx.lastPlayedAt[b] !== undefined;
+    if (aPlayed !== bPlayed) return aPlayed ? 1 : -1;
+
+    if (aPlayed) {
+      const diff = weightedWait(b) - weightedWait(a);
+      if (diff !== 0) return diff;
+    } else if (ctx.weightByListening) {
+      const diff = listening(b) - listening(a);
+      if (diff !== 0) return diff;
+    }
+    return firstPosition(a) - firstPosition(b);
+  });
+
+  const result: T[] = [];
+  for (let round = 0; result.length < rows.length; round++) {
+    for (const userId of users) {
+      const track = byUser.get(userId)![round];
+      if (track) result.push(track);
+    }
+  }
+  return result;
+}
+
+// ─── Open Floor ──────────────────────────────────────────────
+
+export interface OpenFloorTrack {
+  id: string;
+  position: number;
+  added_at: string;
+  /** JSON map of userId → 1 | -1 */
+  voted_by: string | null;
+}
+
+/** Per-room open_floor tuning (stored in the session's settings) */
+export interface OpenFloorConfig {
+  /** Minutes for a track's net votes to lose half their weight */
+  voteHalfLifeMin: number;
+  /** Points a track gains per minute it has waited… */
+  ageBoostPerMin: number;
+  /** …up to this many */
+  maxAgeBoost: number;
+  /** Points per distinct voter, up or down — engagement counts a little */
+  voterWeight: number;
+  /** Net downvotes that take a waiting track out of the queue (null = never) */
+  downvoteRemoval: number | null;
+}
+
+export const DEFAULT_OPEN_FLOOR_CONFIG: OpenFloorConfig = {
+  voteHalfLifeMin: 20,
+  ageBoostPerMin: 0.1,
+  maxAgeBoost: 3,
+  voterWeight: 0.1,
+  downvoteRemoval: 3,
+};
+
+export function tallyVotes(votedBy: string | null): { up: number; down: number; net: number; voters: number } {
+  const votes = Object.values(JSON.parse(votedBy || '{}')) as number[];
+  const up = votes.filter((v) => v > 0).length;
+  const down = votes.filter((v) => v < 0).length;
+  return { up, down, net: up - down, voters: up + down };
+}
+
+/**
+ * A waiting track's open_floor score:
+ *
+ *   net votes × ½^(age / voteHalfLifeMin)      — early popularity fades
+ *   + min(age × ageBoostPerMin, maxAgeBoost)   — waiting earns a little
+ *   + voters × voterWeight                     — so does being talked about
+ *
+ * so a track that was popular early can't sit on top forever and new
+ * additions don't sit at the bottom forever.
+ */
+export function scoreOpenFloor(track: OpenFloorTrack, now: number, config: OpenFloorConfig): number {
+  const { net, voters } = tallyVotes(track.voted_by);
+  const ageMin = Math.max(0, (now - parseSqliteTime(track.added_at)) / 60000);
+
+  const votes = net * Math.pow(0.5, ageMin / config.voteHalfLifeMin);
+  const ageBoost = Math.min(ageMin * config.ageBoostPerMin, config.maxAgeBoost);
+  const engagement = voters * config.voterWeight;
+
+  return Math.round((votes + ageBoost + engagement) * 100) / 100;
+}
+
+/** Highest score first, queue position breaking ties. Each row comes back with its `score`. */
+export function orderOpenFloor<T extends OpenFloorTrack>(rows: T[], now: number, config: OpenFloorConfig): (T & { score: number })[] {
+  return rows
+    .map((row) => ({ ...row, score: scoreOpenFloor(row, now, config) }))
+    .sort((a, b) => b.score - a.score || a.position - b.position);
+}
+
+/** Should this track be dropped for downvotes? */
+export function isDownvotedOut(votedBy: string | null, config: OpenFloorConfig): boolean {
+  return config.downvoteRemoval !== null && tallyVotes(votedBy).net <= -config.downvoteRemoval;
+}
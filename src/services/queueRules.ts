@@ -0,0 +1,169 @@
+/**
+ * Queue Rules — what add-to-queue accepts
+ *
+ * Every rule returns a structured rejection the client can show as-is and
+ * branch on by `code`:
+ *
+ *   INVALID_TRACK    → missing title/artist
+ *   QUEUE_FULL       → the room's queue is at MAX_QUEUE_LENGTH
+ *   USER_QUEUE_LIMIT → you already have your slots' worth of tracks waiting (+ slots)
+ *   COOLDOWN         → one of your tracks is playing or just finished and others are waiting (+ retryAfter seconds)
+ *   TRACK_TOO_LONG   → over the room's maxTrackDuration (+ maxDuration)
+ *   EXPLICIT_TRACK   → the room filters explicit tracks
+ *   DUPLICATE_TRACK  → already queued or playing (+ existingTrackId)
+ *
+ * Whoever curates the queue (host, co-host, moderator) skips the per-user cap
+ * and the cooldown; the rest apply to everyone.
+ */
+
+import { QueueRepo, PlayHistoryRepo } from '../repositories';
+import { getSettings, DEFAULT_SETTINGS } from './sessionSettings';
+import { getQueueSlots } from './voltage';
+import { parseSqliteTime } from './queueOrder';
+
+export type QueueRuleCode =
+  | 'INVALID_TRACK'
+  | 'QUEUE_FULL'
+  | 'USER_QUEUE_LIMIT'
+  | 'COOLDOWN'
+  | 'TRACK_TOO_LONG'
+  | 'EXPLICIT_TRACK'
+  | 'DUPLICATE_TRACK';
+
+export interface QueueRejection {
+  code: QueueRuleCode;
+  message: string;
+  [detail: string]: unknown;
+}
+
+/** A track as add-to-queue sends it — a search result. It comes from the client, so check it before use. */
+export interface IncomingTrack {
+  title: string;
+  artist: string;
+  album?: string;
+  albumArt?: string;
+  previewUrl?: string;
+  duration?: number;
+  source?: string;
+  sourceId?: string;
+  isrc?: string;
+  explicit?: boolean;
+}
+
+/** Most tracks a room's queue can hold (including the current one) */
+export const MAX_QUEUE_LENGTH = parseInt(process.env.QUEUE_MAX_LENGTH || '100', 10);
+
+/** Seconds after one of your tracks finishes playing before you can add another */
+export const POST_PLAY_COOLDOWN_SEC = parseInt(process.env.QUEUE_COOLDOWN_SECONDS || '60', 10);
+
+/**
+ * Lowercase, drop bracketed extras ("(feat. X)", "[Remastered]") and
+ * " - Remastered 2011"-style suffixes, and strip punctuation, so the same
+ * song from different sources compares equal.
+ */
+export function normalizeTrackText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/\s*[([][^)\]]*[)\]]/g, '')
+    .replace(/\s+-\s+.*(remaster|version|edit|mix|live|mono|stereo).*$/, '')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+/** Does it at least have a title and an artist? */
+function isIncomingTrack(track: unknown): track is IncomingTrack {
+  const t = track as Partial<IncomingTrack> | null | undefined;
+  return !!t && typeof t.title === 'string' && !!t.title.trim()
+    && typeof t.artist === 'string' && !!t.artist.trim();
+}
+
+/** Check a track against the room's rules. Returns null if it can be added. */
+export function checkQueueRules(
+  sessionId: string,
+  userId: string,
+  track: unknown,
+  opts: { isCurator?: boolean } = {},
+): QueueRejection | null {
+  if (!isIncomingTrack(track)) {
+    return { code: 'INVALID_TRACK', message: 'A track needs a title and an artist' };
+  }
+
+  const settings = getSettings(sessionId) ?? DEFAULT_SETTINGS;
+  const queued = QueueRepo.listAll(sessionId);
+
+  if (queued.length >= MAX_QUEUE_LENGTH) {
+    return { code: 'QUEUE_FULL', message: `The queue is full (${MAX_QUEUE_LENGTH} tracks)` };
+  }
+
+  if (!opts.isCurator) {
+    const waiting = queued.filter((t) => t.added_by_id === userId && !t.is_current).length;
+    const slots = getQueueSlots(userId, sessionId);
+    if (waiting >= slots) {
+      return {
+        code: 'USER_QUEUE_LIMIT',
+        message: `Queue limit reached (${slots} tracks) — buy an extra slot with voltage`,
+        slots,
+      };
+    }
+
+    // The cooldown only matters when someone else is waiting for a turn
+    const othersWaiting = queued.some((t) => t.added_by_id !== userId && !t.is_current);
+    const retryAfter = othersWaiting ? cooldownRemaining(sessionId, userId) : 0;
+    if (retryAfter > 0) {
+      return {
+        code: 'COOLDOWN',
+        message: `You just had a turn — you can add another track in ${retryAfter}s`,
+        retryAfter,
+      };
+    }
+  }
+
+  if (settings.maxTrackDuration && typeof track.duration === 'number' && track.duration > settings.maxTrackDuration) {
+    return {
+      code: 'TRACK_TOO_LONG',
+      message: `Tracks in this room can be at most ${Math.floor(settings.maxTrackDuration / 60)} min`,
+      maxDuration: settings.maxTrackDuration,
+    };
+  }
+
+  if (settings.explicitFilter && track.explicit === true) {
+    return { code: 'EXPLICIT_TRACK', message: 'This room does not allow explicit tracks' };
+  }
+
+  if (!settings.allowDuplicates) {
+    const title = normalizeTrackText(track.title);
+    const artist = normalizeTrackText(track.artist);
+    const existing = queued.find((t) =>
+      (track.sourceId && t.source_id === String(track.sourceId) && t.source === (track.source || 'itunes'))
+      || (normalizeTrackText(t.title) === title && normalizeTrackText(t.artist) === artist)
+    );
+    if (existing) {
+      return {
+        code: 'DUPLICATE_TRACK',
+        message: existing.is_current ? 'That track is playing right now' : 'That track is already in the queue',
+        existingTrackId: existing.id,
+      };
+    }
+  }
+
+  return null;
+}
+
+/** Seconds left on a user's post-play cooldown (0 if none) */
+function cooldownRemaining(sessionId: string, userId: string): number {
+  if (POST_PLAY_COOLDOWN_SEC <= 0) return 0;
+  const now = Date.now();
+
+  const lastEndedAt = PlayHistoryRepo.findLastEndedAt(sessionId, userId);
+  let endedMs = lastEndedAt ? parseSqliteTime(lastEndedAt) : 0;
+
+  // A track of theirs that's still playing hasn't ended yet — at the earliest it ends now
+  const current = QueueRepo.findCurrent(sessionId);
+  if (current?.added_by_id === userId) {
+    const startedMs = current.started_at ? parseSqliteTime(current.started_at) : now;
+    endedMs = Math.max(endedMs, now, startedMs + (current.duration || 0) * 1000);
+  }
+  if (!endedMs) return 0;
+
+  return Math.max(0, Math.ceil(POST_PLAY_COOLDOWN_SEC - (now - endedMs) / 1000));
+}
@@ -0,0 +1,211 @@
+/**
+ * Session Lifecycle — ending rooms, host handoff and succession, recaps
+ *
+ * Shared by the `end-session` socket event and POST /api/sessions/:id/end.
+ *
+ * Ending a session marks it not-live, records the playing track in history,
+ * clears its queue and playback state, broadcasts `session-ended` with a
+ * recap, and push-notifies listeners. The recap is persisted in
+ * session_recaps so it can be fetched afterwards.
+ *
+ * Recap numbers come from session_stats, which the socket handlers bump as
+ * the room runs (tracks added/played, reactions sent).
+ *
+ * Host succession (when the host quits or stays disconnected past the grace
+ * period): the longest-joined co-host who's in the room, otherwise the
+ * longest-joined listener who is.
+ */
+
+import { Server } from 'socket.io';
+import db from '../database';
+import { SessionsRepo, QueueRepo, SessionStatsRepo } from '../repositories';
+import { clearPlayback } from './playback';
+import { clearDuel } from './duels';
+import { clearAdvance } from './autoAdvance';
+import { resetSkipVotes } from './skipVotes';
+import { recordPlay } from './playHistory';
+import { sendPush, sendPushToSession } from './pushNotifications';
+import { clearRole, getCoHosts } from './permissions';
+
+export type SessionStat = SessionStatsRepo.StatCounter;
+
+export interface SessionRecap {
+  sessionId: string;
+  name: string;
+  hostId: string;
+  hostUsername: string;
+  startedAt: string;
+  endedAt: string;
+  durationMinutes: number;
+  tracksPlayed: number;
+  reactionsCount: number;
+  listenersCount: number;
+  topContributors: {
+    userId: string;
+    username: string;
+    tracksAdded: number;
+    tracksPlayed: number;
+    reactions: number;
+  }[];
+}
+
+/** How many contributors make the recap */
+const TOP_CONTRIBUTORS = 3;
+
+// ─── Stats ───────────────────────────────────────────────────
+
+/** Bump one of a user's counters for a session (ignored for unknown sessions) */
+export function recordStat(sessionId: string, userId: string, stat: SessionStat): void {
+  SessionStatsRepo.increment(sessionId, userId, stat);
+}
+
+function buildRecap(sessionId: string, endedAt: string): SessionRecap | null {
+  const session = SessionsRepo.findWithHost(sessionId);
+  if (!session) return null;
+
+  const totals = SessionStatsRepo.totals(sessionId);
+
+  // created_at is SQLite's UTC "YYYY-MM-DD HH:MM:SS"
+  const startedMs = Date.parse(session.created_at.replace(' ', 'T') + 'Z');
+
+  return {
+    sessionId,
+    name: session.name,
+    hostId: session.host_id,
+    hostUsername: session.host_username,
+    startedAt: session.created_at,
+    endedAt,
+    durationMinutes: Number.isNaN(startedMs) ? 0 : Math.max(0, Math.round((Date.parse(endedAt) - startedMs) / 60000)),
+    tracksPlayed: totals.tracksPlayed,
+    reactionsCount: totals.reactions,
+    listenersCount: SessionsRepo.countMembers(sessionId),
+    topContributors: SessionStatsRepo.listTopContributors(sessionId, TOP_CONTRIBUTORS),
+  };
+}
+
+// ─── Ending ──────────────────────────────────────────────────
+
+/**
+ * End a live session. `io` is optional so this also works outside a running
+ * socket server; without it nobody is notified in real time.
+ */
+export function endSession(io: Server | undefined, sessionId: string, endedBy: string): SessionRecap | null {
+  const endedAt = new Date().toISOString();
+
+  const recap = db.transaction((): SessionRecap | null => {
+    const built = buildRecap(sessionId, endedAt);
+    if (!built) return null;
+
+    SessionStatsRepo.saveRecap({ session_id: sessionId, ended_by: endedBy, ended_at: endedAt, recap: JSON.stringify(built) });
+    SessionsRepo.end(sessionId);
+    recordPlay(sessionId, 'ended');
+    QueueRepo.clear(sessionId);
+
+    return built;
+  })();
+  if (!recap) return null;
+
+  clearPlayback(sessionId);
+  clearAdvance(sessionId);
+  resetSkipVotes(sessionId);
+  clearDuel(sessionId);
+
+  if (io) {
+    io.to(sessionId).emit('session-ended', { sessionId, endedBy, recap });
+    io.in(sessionId).socketsLeave(sessionId);
+  }
+
+  sendPushToSession(sessionId, {
+    title: 'Session ended',
+    body: `"${recap.name}" has ended — ${recap.tracksPlayed} track${recap.tracksPlayed === 1 ? '' : 's'} played`,
+    data: { type: 'session-ended', sessionId },
+    priority: 'critical',
+  }, [endedBy]).catch((err) => console.error('[Session] end push error:', err));
+
+  console.log(`[Session] Ended ${sessionId} (by ${endedBy})`);
+  return recap;
+}
+
+export function getRecap(sessionId: string): SessionRecap | null {
+  const row = SessionStatsRepo.findRecap(sessionId);
+  return row ? JSON.parse(row.recap) : null;
+}
+
+// ─── Host Handoff ────────────────────────────────────────────
+
+/**
+ * Make another listener the host. Returns false if they aren't a member of
+ * the session (or the session doesn't exist).
+ */
+export function transferHost(io: Server | undefined, sessionId: string, newHostId: string, reason: string): boolean {
+  const session = SessionsRepo.findById(sessionId);
+  if (!session) return false;
+
+  const member = SessionsRepo.findMember(sessionId, newHostId);
+  if (!member || session.host_id === newHostId) return false;
+
+  // A co-host who takes over is simply the host now
+  SessionsRepo.setHost(sessionId, newHostId);
+  clearRole(sessionId, newHostId);
+
+  io?.to(sessionId).emit('host-changed', {
+    sessionId,
+    hostId: newHostId,
+    hostUsername: member.username,
+    previousHostId: session.host_id,
+    reason,
+  });
+
+  sendPush([newHostId], {
+    title: "You're the host now",
+    body: `You're now hosting "${session.name}"`,
+    data: { type: 'host-changed', sessionId },
+    priority: 'normal',
+  }).catch((err) => console.error('[Session] host push error:', err));
+
+  console.log(`[Session] Host of ${sessionId}: ${session.host_id} → ${newHostId} (${reason})`);
+  return true;
+}
+
+// ─── Host Succession ─────────────────────────────────────────
+
+/**
+ * Who should take over from the current host. `activeUserIds` are the users
+ * with a socket in the room right now. With `includeInactive`, falls back to
+ * members who aren't connected (used when the host quits outright and the
+ * room needs *someone* to own it).
+ */
+export function pickSuccessor(
+  sessionId: string,
+  activeUserIds: string[],
+  opts: { includeInactive?: boolean } = {},
+): string | null {
+  const session = SessionsRepo.findById(sessionId);
+  if (!session) return null;
+
+  const members = SessionsRepo.listMembershipsByJoin(sessionId)
+    .map((m) => m.user_id)
+    .filter((id) => id !== session.host_id);
+
+  const active = members.filter((id) => activeUserIds.includes(id));
+  const coHosts = getCoHosts(sessionId);
+
+  const activeCoHost = coHosts.find((id) => active.includes(id));
+  if (activeCoHost) return activeCoHost;
+  if (active.length > 0) return active[0];
+  if (!opts.includeInactive) return null;
+
+  return coHosts[0] ?? members[0] ?? null;
+}
+
+/** Hand the room to the next host in line. Returns the new host's ID, or null if nobody qualifies. */
+export function migrateHost(
+  io: Server | undefined,
+  sessionId: string,
+  activeUserIds: string[],
+  reason: 'quit' | 'disconnect',
+): string | null {
+  const successor = pickSuccessor(sessionId, activeUserIds, { includeInactive: reason === 'quit' });
+  if (!successor) return null;
+  return transferHost(io, sessionId, successor, reason) ? successor : null;
+}
@@ -0,0 +1,102 @@
+/**
+ * Session Settings — per-room knobs the host (or a co-host) can change
+ *
+ * Stored as columns on `sessions`; this module maps them to a typed object
+ * for PATCH /api/sessions/:id, room-state and `settings-updated`.
+ *
+ *   maxQueuePerUser   → pending tracks per listener before buying extra slots
+ *   allowDuplicates   → whether the same song can be queued twice
+ *   maxTrackDuration  → longest track (seconds) allowed in the queue; null = no limit
+ *   skipThreshold     → fraction of the room needed to vote a track off
+ *   chatEnabled       → whether listeners can chat
+ *   explicitFilter    → keep explicit tracks out of the queue
+ *   weightByListening → campfire: longer-standing listeners get their turn sooner
+ *   openFloor         → open_floor scoring + downvote removal (see scoreOpenFloor)
+ *   description       → shown on the room card
+ */
+
+import db from '../database';
+import { OpenFloorConfig, DEFAULT_OPEN_FLOOR_CONFIG } from './queueOrder';
+import { SessionsRepo, SessionRow } from '../repositories';
+
+export interface SessionSettings {
+  maxQueuePerUser: number;
+  allowDuplicates: boolean;
+  maxTrackDuration: number | null;
+  skipThreshold: number;
+  chatEnabled: boolean;
+  explicitFilter: boolean;
+  weightByListening: boolean;
+  openFloor: OpenFloorConfig;
+  description: string;
+}
+
+/** A partial update — openFloor can itself be partial */
+export type SettingsPatch = Partial<Omit<SessionSettings, 'openFloor'>> & { openFloor?: Partial<OpenFloorConfig> };
+
+export const DEFAULT_SETTINGS: SessionSettings = {
+  maxQueuePerUser: 5,
+  allowDuplicates: false,
+  maxTrackDuration: null,
+  skipThreshold: 0.5,
+  chatEnabled: true,
+  explicitFilter: false,
+  weightByListening: false,
+  openFloor: DEFAULT_OPEN_FLOOR_CONFIG,
+  description: '',
+};
+
+/** Settings from a sessions row (missing columns fall back to the defaults) */
+export function settingsFromRow(row: SessionRow): SessionSettings {
+  return {
+    maxQueuePerUser: row.max_queue_per_user ?? DEFAULT_SETTINGS.maxQueuePerUser,
+    allowDuplicates: row.allow_duplicates != null ? row.allow_duplicates === 1 : DEFAULT_SETTINGS.allowDuplicates,
+    maxTrackDuration: row.max_track_duration ?? DEFAULT_SETTINGS.maxTrackDuration,
+    skipThreshold: row.skip_threshold ?? DEFAULT_SETTINGS.skipThreshold,
+    chatEnabled: row.chat_enabled != null ? row.chat_enabled === 1 : DEFAULT_SETTINGS.chatEnabled,
+    explicitFilter: row.explicit_filter != null ? row.explicit_filter === 1 : DEFAULT_SETTINGS.explicitFilter,
+    weightByListening: row.weight_by_listening != null ? row.weight_by_listening === 1 : DEFAULT_SETTINGS.weightByListening,
+    openFloor: { ...DEFAULT_OPEN_FLOOR_CONFIG, ...JSON.parse(row.open_floor_config || '{}') },
+    description: row.description || DEFAULT_SETTINGS.description,
+  };
+}
+
+/** A session's settings, or null if it doesn't exist */
+export function getSettings(sessionId: string): SessionSettings | null {
+  const row = SessionsRepo.findById(sessionId);
+  return row ? settingsFromRow(row) : null;
+}
+
+/** Apply an already-validated partial update. Returns the full settings afterwards. */
+export function updateSettings(sessionId: string, patch: SettingsPatch): SessionSettings | null {
+  const columns: Record<keyof SessionSettings, string> = {
+    maxQueuePerUser: 'max_queue_per_user',
+    allowDuplicates: 'allow_duplicates',
+    maxTrackDuration: 'max_track_duration',
+    skipThreshold: 'skip_threshold',
+    chatEnabled: 'chat_enabled',
+    explicitFilter: 'explicit_filter',
+    weightByListening: 'weight_by_listening',
+    openFloor: 'open_floor_config',
+    description: 'description',
+  };
+
+  // openFloor is patched key-by-key on top of what the room already has
+  if (patch.openFloor) {
+    const current = getSettings(sessionId);
+    patch = { ...patch, openFloor: { ...(current?.openFloor ?? DEFAULT_OPEN_FLOOR_CONFIG), ...patch.openFloor } };
+  }
+
+  const keys = (Object.keys(patch) as (keyof SessionSettings)[]).filter((k) => k in columns);
+  if (keys.length > 0) {
+    const sets = keys.map((k) => `${columns[k]} = ?`).join(', ');
+    const values = keys.map((k) => {
+      const v = patch[k];
+      if (typeof v === 'boolean') return v ? 1 : 0;
+      return v !== null && typeof v === 'object' ? JSON.stringify(v) : v;
+    });
+    db.prepare(`UPDATE sessions SET ${sets} WHERE id = ?`).run(...values, sessionId);
+  }
+
+  return getSettings(sessionId);
+}
@@ -0,0 +1,73 @@
+/**
+ * Skip Voting — listeners vote the current track off instead of skipping it
+ *
+ * Each room collects votes against its current track. Once the votes reach
+ * the session's skip_threshold (a fraction of the users with a socket in the
+ * room, rounded up) the track is skipped. Votes reset whenever the track
+ * changes. Hosts, co-hosts and moderators skip directly and never need a vote.
+ *
+ * State lives in memory — a restart just starts a fresh tally.
+ *
+ * Event (to the session room):
+ *   skip-tally → { trackId, votes, needed, threshold }
+ */
+
+import { getSettings, DEFAULT_SETTINGS } from './sessionSettings';
+
+export interface SkipTally {
+  trackId: string;
+  votes: number;
+  needed: number;
+  threshold: number;
+}
+
+interface SkipVotes {
+  trackId: string;
+  voters: Set<string>;
+}
+
+const roomVotes: Record<string, SkipVotes> = {};
+
+export function getSkipThreshold(sessionId: string): number {
+  return getSettings(sessionId)?.skipThreshold ?? DEFAULT_SETTINGS.skipThreshold;
+}
+
+/** Votes needed to skip with `activeCount` people in the room (always at least 1) */
+export function votesNeeded(threshold: number, activeCount: number): number {
+  return Math.max(1, Math.ceil(threshold * activeCount));
+}
+
+/**
+ * Add a vote against `trackId`. A vote for a track that's no longer current
+ * starts a fresh tally for it — callers check the track is current first.
+ */
+export function castSkipVote(sessionId: string, userId: string, trackId: string, activeCount: number): SkipTally {
+  if (roomVotes[sessionId]?.trackId !== trackId) {
+    roomVotes[sessionId] = { trackId, voters: new Set() };
+  }
+  roomVotes[sessionId].voters.add(userId);
+  return getSkipTally(sessionId, activeCount)!;
+}
+
+/** Current tally, or null if nobody has voted on this track */
+export function getSkipTally(sessionId: string, activeCount: number): SkipTally | null {
+  const votes = roomVotes[sessionId];
+  if (!votes) return null;
+
+  const threshold = getSkipThreshold(sessionId);
+  return {
+    trackId: votes.trackId,
+    votes: votes.voters.size,
+    needed: votesNeeded(threshold, activeCount),
+    threshold,
+  };
+}
+
+/** Drop a voter who left the room. Returns true if they had voted. */
+export function withdrawSkipVote(sessionId: string, userId: string): boolean {
+  return roomVotes[sessionId]?.voters.delete(userId) ?? false;
+}
+
+export function resetSkipVotes(sessionId: string): void {
+  delete roomVotes[sessionId];
+}
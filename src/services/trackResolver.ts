@@ -0,0 +1,178 @@
+/**
+ * Track Resolver — playing a queued track from whatever the listener has
+ *
+ * A track added from Tidal can't play for someone with only SoundCloud or
+ * iTunes previews. For each provider the listener can play from (best first,
+ * see SOURCE_PREFERENCE), the resolver looks for the same song there:
+ *
+ *   1. the track's own source, if the listener has it        → 'original'
+ *   2. a search hit with the same ISRC                         → 'isrc'
+ *   3. same normalized title, matching artist, similar length  → 'fuzzy'
+ *
+ * Matches and misses are cached in track_sources per origin song (its
+ * source + sourceId), so the next room that queues it skips the search.
+ * Misses are retried after MISS_TTL_HOURS; provider errors aren't cached.
+ *
+ * A fallback can be shorter than the room's track (an iTunes preview is 30s).
+ * That listener's player runs out early, but the room keeps going: advances
+ * follow the room clock, not their track-ended (see autoAdvance).
+ */
+
+import { TrackSourcesRepo, QueueTrackRow, TrackSourceRow } from '../repositories';
+import { connectedProviders, Provider } from './connectedAccounts';
+import { normalizeTrackText } from './queueRules';
+import { parseSqliteTime } from './queueOrder';
+import {
+  searchItunes, searchTidal, searchSoundcloud, SearchTrack, TrackSource, SOURCE_PREFERENCE,
+} from './trackSearch';
+
+export type MatchKind = 'original' | 'isrc' | 'fuzzy';
+
+/** Where a listener should play a queued track from */
+export interface PlayableSource {
+  source: TrackSource;
+  sourceId: string;
+  title: string;
+  artist: string;
+  album?: string;
+  albumArt?: string;
+  previewUrl?: string;
+  duration: number;
+  match: MatchKind;
+}
+
+/** The fields of a queued track that matching looks at */
+export type MatchableTrack = Pick<QueueTrackRow, 'title' | 'artist' | 'duration' | 'source' | 'isrc'>;
+
+/** How long a "no match" result is trusted before searching again */
+export const MISS_TTL_HOURS = parseInt(process.env.TRACK_RESOLVE_MISS_TTL_HOURS || '24', 10);
+
+/** Lengths further apart than this (seconds) aren't the same recording */
+const DURATION_TOLERANCE_SEC = 5;
+
+// ─── Matching ───────────────────────────────────────────────
+
+/** Sources a listener with these connections can play from, best first. iTunes previews need no account. */
+export function playableSources(connected: Provider[]): TrackSource[] {
+  return SOURCE_PREFERENCE.filter((source) => source === 'itunes' || (connected as string[]).includes(source));
+}
+
+function artistsMatch(a: string, b: string): boolean {
+  const na = normalizeTrackText(a);
+  const nb = normalizeTrackText(b);
+  return na === nb || na.includes(nb) || nb.includes(na);
+}
+
+/** iTunes durations are the 30s preview, so they say nothing about the recording */
+function durationsAgree(a: { source: string; duration: number }, b: { source: string; duration: number }): boolean {
+  if (a.source === 'itunes' || b.source === 'itunes') return true;
+  return Math.abs(a.duration - b.duration) <= DURATION_TOLERANCE_SEC;
+}
+
+/** The best candidate for `track` — an ISRC match beats any fuzzy one — or null */
+export function findMatch(track: MatchableTrack, candidates: SearchTrack[]): { track: SearchTrack; match: 'isrc' | 'fuzzy' } | null {
+  if (track.isrc) {
+    const isrc = track.isrc.toUpperCase();
+    const byIsrc = candidates.find((c) => c.isrc?.toUpperCase() === isrc);
+    if (byIsrc) return { track: byIsrc, match: 'isrc' };
+  }
+
+  const title = normalizeTrackText(track.title);
+  const fuzzy = candidates.find((c) => normalizeTrackText(c.title) === title
+    && artistsMatch(c.artist, track.artist)
+    && durationsAgree(c, track));
+  return fuzzy ? { track: fuzzy, match: 'fuzzy' } : null;
+}
+
+// ─── Resolution ─────────────────────────────────────────────
+
+/** Cache key for the song a queue row came from */
+function originKey(track: Pick<QueueTrackRow, 'title' | 'artist' | 'source_id'>): string {
+  return track.source_id || `${normalizeTrackText(track.title)}|${normalizeTrackText(track.artist)}`;
+}
+
+function searchOn(source: TrackSource, userId: string, q: string): Promise<SearchTrack[]> {
+  if (source === 'tidal') return searchTidal(userId, q, 10);
+  if (source === 'soundcloud') return searchSoundcloud(userId, q, 10);
+  return searchItunes(q, 10);
+}
+
+function fromCache(row: TrackSourceRow): PlayableSource {
+  return {
+    source: row.source as TrackSource,
+    sourceId: row.source_id!,
+    title: row.title || '',
+    artist: row.artist || '',
+    album: row.album || undefined,
+    albumArt: row.album_art || undefined,
+    previewUrl: row.preview_url || undefined,
+    duration: row.duration ?? 30,
+    match: row.match!,
+  };
+}
+
+/** `track`'s equivalent on `source`, from the cache or a fresh search */
+async function resolveOn(track: QueueTrackRow, source: TrackSource, userId: string): Promise<PlayableSource | null> {
+  const key = originKey(track);
+  const cached = TrackSourcesRepo.find(track.source, key, source);
+  if (cached?.source_id) return fromCache(cached);
+  if (cached && Date.now() - parseSqliteTime(cached.resolved_at) < MISS_TTL_HOURS * 3600 * 1000) return null;
+
+  let candidates: SearchTrack[];
+  try {
+    candidates = await searchOn(source, userId, `${normalizeTrackText(track.title)} ${track.artist}`);
+  } catch (err: any) {
+    console.error(`[TrackResolver] ${source} search failed:`, err?.message || err);
+    return null;
+  }
+
+  const found = findMatch(track, candidates);
+  TrackSourcesRepo.save({
+    origin_source: track.source,
+    origin_key: key,
+    source,
+    source_id: found?.track.sourceId ?? null,
+    title: found?.track.title ?? null,
+    artist: found?.track.artist ?? null,
+    album: found?.track.album || null,
+    album_art: found?.track.albumArt ?? null,
+    preview_url: found?.track.previewUrl || null,
+    duration: found?.track.duration ?? null,
+    match: found?.match ?? null,
+  });
+
+  if (!found) return null;
+  const { title, artist, album, albumArt, previewUrl, duration } = found.track;
+  return {
+    source, sourceId: found.track.sourceId, title, artist,
+    album: album || undefined, albumArt, previewUrl: previewUrl || undefined, duration, match: found.match,
+  };
+}
+
+/**
+ * The best source `userId` can play `track` from, or null if none of their
+ * providers has it.
+ */
+export async function resolvePlayable(track: QueueTrackRow, userId: string): Promise<PlayableSource | null> {
+  const sources = playableSources(connectedProviders(userId));
+
+  if ((sources as string[]).includes(track.source) && track.source_id) {
+    return {
+      source: track.source as TrackSource,
+      sourceId: track.source_id,
+      title: track.title,
+      artist: track.artist,
+      album: track.album || undefined,
+      albumArt: track.album_art || undefined,
+      previewUrl: track.preview_url || undefined,
+      duration: track.duration,
+      match: 'original',
+    };
+  }
+
+  for (const source of sources) {
+    const playable = await resolveOn(track, source, userId);
+    if (playable) return playable;
+  }
+  return null;
+}
@@ -0,0 +1,182 @@
+/**
+ * Track Search — one query across every provider a user can play from
+ *
+ *   itunes     → always (public Search API; plays the 30s preview)
+ *   tidal      → when the user has connected Tidal
+ *   soundcloud → when the user has connected SoundCloud
+ *
+ * Providers are queried in parallel; one that errors or times out is
+ * reported in `providers` and the rest still return. Results come back in
+ * the shape add-to-queue accepts, merged by rank and de-duplicated across
+ * providers (same ISRC, or same normalized title + artist).
+ */
+
+import { normalizeTrackText } from './queueRules';
+import { providerFetch, connectedProviders } from './connectedAccounts';
+
+export type TrackSource = 'itunes' | 'tidal' | 'soundcloud';
+
+/** A search hit, ready to send as `track` in add-to-queue */
+export interface SearchTrack {
+  id: string;
+  title: string;
+  artist: string;
+  album: string;
+  albumArt?: string;
+  previewUrl: string;
+  duration: number;
+  source: TrackSource;
+  sourceId: string;
+  explicit?: boolean;
+  isrc?: string;
+}
+
+export interface ProviderResult {
+  source: TrackSource;
+  status: 'ok' | 'error';
+  count: number;
+  error?: string;
+}
+
+export interface TrackSearchResult {
+  tracks: SearchTrack[];
+  providers: ProviderResult[];
+}
+
+/** How long to wait on any one provider before counting it as failed */
+export const PROVIDER_TIMEOUT_MS = parseInt(process.env.TRACK_SEARCH_TIMEOUT_MS || '5000', 10);
+
+/** Most playable first: full streams, then previews. Wins duplicate search hits. */
+export const SOURCE_PREFERENCE: TrackSource[] = ['tidal', 'soundcloud', 'itunes'];
+
+// ─── Providers ──────────────────────────────────────────────
+
+/** Parse a provider response, throwing its body on an error status */
+async function readJson(res: Response): Promise<any> {
+  if (!res.ok) throw new Error(await res.text());
+  return res.json();
+}
+
+export async function searchItunes(q: string, limit = 20): Promise<SearchTrack[]> {
+  const data = await readJson(await fetch(
+    `https://itunes.apple.com/search?term=${encodeURIComponent(q)}&media=music&entity=song&limit=${limit}`,
+    { signal: AbortSignal.timeout(PROVIDER_TIMEOUT_MS) },
+  ));
+
+  return (data.results || [])
+    .filter((t: any) => t.previewUrl)
+    .map((t: any) => ({
+      id: t.trackId.toString(),
+      title: t.trackName,
+      artist: t.artistName,
+      album: t.collectionName || '',
+      albumArt: t.artworkUrl100?.replace('100x100bb', '600x600bb'),
+      previewUrl: t.previewUrl,
+      duration: 30, // What plays is the preview, not the full track
+      source: 'itunes',
+      sourceId: t.trackId.toString(),
+      explicit: t.trackExplicitness === 'explicit',
+    }));
+}
+
+/** Search Tidal as `userId` (who must have connected Tidal) */
+export async function searchTidal(userId: string, q: string, limit = 20): Promise<SearchTrack[]> {
+  const data = await readJson(await providerFetch(userId, 'tidal', (accessToken) => fetch(
+    `https://openapi.tidal.com/search?query=${encodeURIComponent(q)}&offset=0&limit=${limit}&type=TRACKS`,
+    { headers: { Authorization: `Bearer ${accessToken}` }, signal: AbortSignal.timeout(PROVIDER_TIMEOUT_MS) },
+  )));
+
+  return (data.tracks?.items || []).map((t: any) => ({
+    id: t.id.toString(),
+    title: t.title,
+    artist: t.artists?.map((a: any) => a.name).join(', ') || 'Unknown Artist',
+    album: t.album?.title || '',
+    albumArt: t.album?.cover ? `https://resources.tidal.com/images/${t.album.cover.replace(/-/g, '/')}/320x320.jpg` : undefined,
+    previewUrl: '', // Fetched freshly just-in-time for playback via getStreamUrl
+    duration: t.duration,
+    source: 'tidal',
+    sourceId: t.id.toString(),
+    explicit: t.explicit,
+    isrc: t.isrc || undefined,
+  }));
+}
+
+/** Search SoundCloud as `userId` (who must have connected SoundCloud) */
+export async function searchSoundcloud(userId: string, q: string, limit = 20): Promise<SearchTrack[]> {
+  const data = await readJson(await providerFetch(userId, 'soundcloud', (accessToken) => fetch(
+    `https://api.soundcloud.com/tracks?q=${encodeURIComponent(q)}&limit=${limit}`,
+    { headers: { Authorization: `OAuth ${accessToken}` }, signal: AbortSignal.timeout(PROVIDER_TIMEOUT_MS) },
+  )));
+
+  return (data as any[]).map((t: any) => ({
+    id: t.id.toString(),
+    title: t.title,
+    artist: t.user?.username || 'Unknown Artist',
+    album: '', // SC tracks don't always have albums mapped easily
+    albumArt: t.artwork_url || t.user?.avatar_url,
+    previewUrl: t.stream_url, // SC gives stream URL!
+    duration: Math.floor(t.duration / 1000), // ms to s
+    source: 'soundcloud',
+    sourceId: t.id.toString(),
+    isrc: t.publisher_metadata?.isrc || undefined,
+  }));
+}
+
+// ─── Merging ────────────────────────────────────────────────
+
+/**
+ * Merge per-provider result lists by rank (every provider's #1, then every
+ * #2, …; preferred providers first within a rank) and drop later copies of a
+ * song already taken — matched by ISRC or by normalized title + artist.
+ */
+export function mergeResults(lists: SearchTrack[][]): SearchTrack[] {
+  const ordered = [...lists].sort((a, b) => preference(a) - preference(b));
+  const seen = new Set<string>();
+  const merged: SearchTrack[] = [];
+
+  const longest = Math.max(0, ...ordered.map((l) => l.length));
+  for (let rank = 0; rank < longest; rank++) {
+    for (const list of ordered) {
+      const track = list[rank];
+      if (!track) continue;
+
+      const keys = [`text:${normalizeTrackText(track.title)}|${normalizeTrackText(track.artist)}`];
+      if (track.isrc) keys.push(`isrc:${track.isrc.toUpperCase()}`);
+      if (keys.some((k) => seen.has(k))) continue;
+
+      keys.forEach((k) => seen.add(k));
+      merged.push(track);
+    }
+  }
+  return merged;
+}
+
+function preference(list: SearchTrack[]): number {
+  return list.length > 0 ? SOURCE_PREFERENCE.indexOf(list[0].source) : SOURCE_PREFERENCE.length;
+}
+
+// ─── Search ─────────────────────────────────────────────────
+
+/** Search every provider `userId` can play from */
+export async function searchTracks(userId: string, q: string, limit = 20): Promise<TrackSearchResult> {
+  const connected = connectedProviders(userId);
+
+  const searches: [TrackSource, Promise<SearchTrack[]>][] = [['itunes', searchItunes(q, limit)]];
+  if (connected.includes('tidal')) searches.push(['tidal', searchTidal(userId, q, limit)]);
+  if (connected.includes('soundcloud')) searches.push(['soundcloud', searchSoundcloud(userId, q, limit)]);
+
+  const settled = await Promise.allSettled(searches.map(([, search]) => search));
+
+  const lists: SearchTrack[][] = [];
+  const providers: ProviderResult[] = settled.map((result, i) => {
+    const source = searches[i][0];
+    if (result.status === 'fulfilled') {
+      lists.push(result.value);
+      return { source, status: 'ok', count: result.value.length };
+    }
+    console.error(`[TrackSearch] ${source} failed:`, result.reason?.message || result.reason);
+    return { source, status: 'error', count: 0, error: result.reason?.message || 'Search failed' };
+  });
+
+  return { tracks: mergeResults(lists).slice(0, limit), providers };
+}
@@ -0,0 +1,31 @@
+/**
+ * Track Votes — one row per (track, voter) in track_votes
+ *
+ * Casting a vote is a single upsert (or a delete when the same vote is cast
+ * again), so concurrent votes on the same track can't overwrite each other.
+ * QueueRepo aggregates the counts into every track it reads (`votes`,
+ * `voted_by`).
+ */
+
+import db from '../database';
+
+export type VoteDirection = 1 | -1;
+
+/**
+ * Cast a vote on a track. Voting the same way twice withdraws it; voting the
+ * other way changes it. Returns the voter's vote afterwards (0 = none).
+ */
+export function castTrackVote(trackId: string, userId: string, direction: VoteDirection): VoteDirection | 0 {
+  return db.transaction(() => {
+    const withdrawn = db.prepare(
+      'DELETE FROM track_votes WHERE track_id = ? AND user_id = ? AND direction = ?'
+    ).run(trackId, userId, direction).changes > 0;
+    if (withdrawn) return 0;
+
+    db.prepare(`
+      INSERT INTO track_votes (track_id, user_id, direction) VALUES (?, ?, ?)
+      ON CONFLICT (track_id, user_id) DO UPDATE SET direction = excluded.direction, voted_at = datetime('now')
+    `).run(trackId, userId, direction);
+    return direction;
+  })();
+}
@@ -0,0 +1,205 @@
+/**
+ * Voltage Ledger — earn/spend rules for users.voltage_balance
+ *
+ * Every balance change goes through applyVoltage(), which writes a row to
+ * voltage_transactions and updates the cached balance together. Callers that
+ * also touch the queue wrap both in db.transaction() — better-sqlite3 nests
+ * the inner transaction as a savepoint, so the whole thing commits or rolls
+ * back as one.
+ *
+ * Earn:
+ *   - track_completed  → your track played to the end
+ *   - upvote_received  → someone upvoted your track (once per voter per track)
+ *   - hosting_time     → hosting a room with listeners in it
+ *   - forecast_win     → correctly predicted the next track
+ *
+ * Spend:
+ *   - priority_bump    → move your queued track up one priority tier
+ *   - queue_slot       → one extra pending-track slot in a session
+ *   - phantom_power    → jump your queued track to the front (host can deny + refund)
+ *
+ * Phantom Power has its own module (phantomPower.ts); the other spends live
+ * at the bottom of this one.
+ */
+
+import { v4 as uuid } from 'uuid';
+import db from '../database';
+import { VoltageRepo, VoltageTransactionRow, SessionsRepo, QueueRepo, QueueTrackRow } from '../repositories';
+import { getSettings, DEFAULT_SETTINGS } from './sessionSettings';
+
+// ─── Types ───────────────────────────────────────────────────
+
+export type VoltageReason =
+  | 'track_completed'
+  | 'upvote_received'
+  | 'hosting_time'
+  | 'forecast_win'
+  | 'priority_bump'
+  | 'queue_slot'
+  | 'phantom_power'
+  | 'phantom_power_refund';
+
+/** What a spend bought, or why it was refused */
+export type SpendResult = { tx: VoltageTransaction; error?: undefined } | { tx?: undefined; error: string };
+
+export interface VoltageTransaction {
+  id: string;
+  userId: string;
+  sessionId?: string;
+  amount: number;
+  balanceAfter: number;
+  reason: VoltageReason;
+  refId?: string;
+  createdAt: string;
+}
+
+// ─── Rules ───────────────────────────────────────────────────
+
+export const EARN_RULES = {
+  trackCompleted: 5,
+  upvoteReceived: 1,
+  hostingTime: 2,     // per HOSTING_INTERVAL_MIN
+  forecastWin: 3,
+};
+
+export const SPEND_RULES = {
+  priorityBump: 10,
+  queueSlot: 15,
+  phantomPower: 25,
+};
+
+/** Phantom Power caps, per session */
+export const PHANTOM_POWER_LIMITS = {
+  perUser: 2,         // power moves one listener can make (refunded ones don't count)
+  activeInRoom: 3,    // powered tracks waiting in the queue at once
+};
+
+/** How often hosts of occupied rooms are paid */
+export const HOSTING_INTERVAL_MIN = 10;
+
+// ─── Ledger ──────────────────────────────────────────────────
+
+/**
+ * Credit (positive amount) or debit (negative amount) a user's balance.
+ * Returns null without writing anything if the user doesn't exist or the
+ * debit would take the balance below zero.
+ */
+export function applyVoltage(
+  userId: string,
+  amount: number,
+  reason: VoltageReason,
+  opts: { sessionId?: string; refId?: string } = {},
+): VoltageTransaction | null {
+  return db.transaction((): VoltageTransaction | null => {
+    const balance = VoltageRepo.findBalance(userId);
+    if (balance === undefined) return null;
+
+    const balanceAfter = balance + amount;
+    if (balanceAfter < 0) return null;
+
+    const id = 'vtx_' + uuid().slice(0, 12);
+    const createdAt = new Date().toISOString();
+
+    VoltageRepo.setBalance(userId, balanceAfter);
+    VoltageRepo.insertTransaction({
+      id,
+      user_id: userId,
+      session_id: opts.sessionId || null,
+      amount,
+      balance_after: balanceAfter,
+      reason,
+      ref_id: opts.refId || null,
+      created_at: createdAt,
+    });
+
+    return {
+      id,
+      userId,
+      sessionId: opts.sessionId,
+      amount,
+      balanceAfter,
+      reason,
+      refId: opts.refId,
+      createdAt,
+    };
+  })();
+}
+
+/** Has this exact ledger entry already been written? Used to make earn rules idempotent. */
+export function hasTransaction(userId: string, reason: VoltageReason, refId: string): boolean {
+  return VoltageRepo.hasTransaction(userId, reason, refId);
+}
+
+/** Count a user's ledger entries of one kind within a session */
+export function countTransactions(userId: string, sessionId: string, reason: VoltageReason): number {
+  return VoltageRepo.countInSessionByReason(userId, sessionId, reason);
+}
+
+/** Pending-track slots a user has in a session (the room's maxQueuePerUser + purchased) */
+export function getQueueSlots(userId: string, sessionId: string): number {
+  const base = getSettings(sessionId)?.maxQueuePerUser ?? DEFAULT_SETTINGS.maxQueuePerUser;
+  return base + countTransactions(userId, sessionId, 'queue_slot');
+}
+
+export function getBalance(userId: string): number | null {
+  return VoltageRepo.findBalance(userId) ?? null;
+}
+
+// ─── Earning ─────────────────────────────────────────────────
+
+/**
+ * Pay a track's owner for an upvote — once per voter per track, so toggling
+ * a vote can't farm voltage, and never for upvoting your own track. Call it
+ * in the same transaction as the vote. Returns null if nothing was paid.
+ */
+export function rewardUpvote(
+  sessionId: string,
+  track: Pick<QueueTrackRow, 'id' | 'added_by_id'>,
+  voterId: string,
+): VoltageTransaction | null {
+  const refId = `${track.id}:${voterId}`;
+  if (track.added_by_id === voterId || hasTransaction(track.added_by_id, 'upvote_received', refId)) return null;
+  return applyVoltage(track.added_by_id, EARN_RULES.upvoteReceived, 'upvote_received', { sessionId, refId });
+}
+
+/** Most recent transactions first */
+export function getHistory(userId: string, limit = 50, offset = 0): VoltageTransaction[] {
+  return VoltageRepo.listForUser(userId, limit, offset).map(formatTransaction);
+}
+
+function formatTransaction(row: VoltageTransactionRow): VoltageTransaction {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    sessionId: row.session_id || undefined,
+    amount: row.amount,
+    balanceAfter: row.balance_after,
+    reason: row.reason as VoltageReason,
+    refId: row.ref_id || undefined,
+    createdAt: row.created_at,
+  };
+}
+
+// ─── Spending ────────────────────────────────────────────────
+
+/** Move one of your own waiting tracks up a priority tier */
+export function bumpTrack(sessionId: string, userId: string, trackId: string): SpendResult {
+  const track = QueueRepo.findInSession(trackId, sessionId);
+  if (!track || track.is_current || track.status !== 'approved') return { error: 'Only queued tracks can be bumped' };
+  if (track.added_by_id !== userId) return { error: 'You can only bump your own tracks' };
+
+  const tx = db.transaction(() => {
+    const debit = applyVoltage(userId, -SPEND_RULES.priorityBump, 'priority_bump', { sessionId, refId: trackId });
+    if (debit) QueueRepo.bumpPriority(trackId);
+    return debit;
+  })();
+  return tx ? { tx } : { error: `Not enough voltage (bump costs ${SPEND_RULES.priorityBump})` };
+}
+
+/** One more track you can have waiting in this session (see getQueueSlots) */
+export function buyQueueSlot(sessionId: string, userId: string): SpendResult {
+  if (!SessionsRepo.exists(sessionId)) return { error: 'Session not found' };
+
+  const tx = applyVoltage(userId, -SPEND_RULES.queueSlot, 'queue_slot', { sessionId });
+  return tx ? { tx } : { error: `Not enough voltage (a slot costs ${SPEND_RULES.queueSlot})` };
+}
@@ -1,8 +1,10 @@
 /**
  * Socket.io Event Handler
  *
- * Manages real-time events: join/leave, queue ops, voting, reactions, chat, mode changes.
- * Each socket authenticates via JWT in the auth handshake.
+ * Manages real-time events: join/leave, queue ops (add, move, remove, pin), voting, reactions, chat, mode changes,
+ * voltage spending (bumps, queue slots, Phantom Power), track duels, forecast picks.
+ * Each socket authenticates via JWT in the auth handshake, and joins a personal
+ * `user:<id>` room so per-user events (e.g. voltage-updated) reach all their devices.
  */
 
 import { Server, Socket } from 'socket.io';
@@ -10,23 +12,86 @@ import { v4 as uuid } from 'uuid';
 import db from './database';
 import { verifyToken, JwtPayload } from './auth';
 import { formatQueueTrack } from './routes/sessionRoutes';
+import { canDo, clearUser } from './middleware/socketRateLimiter';
+import { sendPush } from './services/pushNotifications';
+import { validateRoomMode } from './middleware/validate';
+import {
+  castDuelVote,
+  resolveDuel,
+  cancelDuel,
+  clearDuel,
+  hasDuel,
+  getDuelState,
+} from './services/duels';
+import {
+  getOrderedQueue,
+  broadcastQueue,
+  maybeStartDuel,
+  moveTrack,
+  removeTrack,
+  pinTrack,
+  removeIfDownvoted,
+} from './services/queue';
+import { submitPick, lockPicks, scorePicks } from './services/forecast';
+import { powerTrack, denyPowerMove } from './services/phantomPower';
+import {
+  PlaybackState,
+  getPlayback,
+  setPlayback,
+  clearPlayback,
+  getPlaybackSnapshot,
+  restorePlayback,
+  expectedPosition,
+  sanitizePosition,
+  getPlayingSessions,
+} from './services/playback';
+import { startPlaybackClock, checkDrift, clockFor } from './services/playbackClock';
+import { recordPlay, getPlayHistory, RECENTLY_PLAYED_COUNT } from './services/playHistory';
+import { getSettings, settingsFromRow } from './services/sessionSettings';
+import { checkQueueRules, IncomingTrack } from './services/queueRules';
+import { castSkipVote, getSkipTally, withdrawSkipVote, resetSkipVotes } from './services/skipVotes';
+import { scheduleAdvance, cancelAdvance, markAdvanced, acceptEndReport } from './services/autoAdvance';
+import { castTrackVote } from './services/trackVotes';
+import { SessionsRepo, QueueRepo, ChatRepo, UsersRepo } from './repositories';
+import {
+  endSession,
+  transferHost,
+  migrateHost,
+  recordStat,
+} from './services/sessionLifecycle';
+import { can, clearRole, listRoles } from './services/permissions';
+import {
+  applyVoltage,
+  rewardUpvote,
+  bumpTrack,
+  buyQueueSlot,
+  getQueueSlots,
+  EARN_RULES,
+  SPEND_RULES,
+  HOSTING_INTERVAL_MIN,
+  VoltageTransaction,
+} from './services/voltage';
 
 interface AuthenticatedSocket extends Socket {
   userId: string;
   username: string;
 }
 
-/** In-memory playback state per session (not persisted — resets on server restart). */
-interface PlaybackState {
-  state: 'playing' | 'paused' | 'stopped';
-  position: number;      // seconds into the track
-  timestamp: number;     // Date.now() when position was recorded
-  trackId?: string;
-}
+/** How long a disconnected host has to come back before the room moves on */
+const HOST_GRACE_MS = parseInt(process.env.HOST_GRACE_SECONDS || '30', 10) * 1000;
+
+/** Pending host migrations, keyed by session */
+const hostGraceTimers: Record<string, ReturnType<typeof setTimeout>> = {};
 
-const roomPlaybackState: Record<string, PlaybackState> = {};
+/**
+ * Wire up every socket event and start the background jobs (host rewards,
+ * playback heartbeat). Returns their interval IDs for cleanup.
+ */
+export function setupSocketHandlers(io: Server): ReturnType<typeof setInterval>[] {
+  const restored = restorePlayback();
+  if (restored > 0) console.log(`[Socket] Restored playback state for ${restored} room(s)`);
+  getPlayingSessions().forEach((sessionId) => syncAutoAdvance(io, sessionId));
 
-export function setupSocketHandlers(io: Server): void {
   // Auth middleware
   io.use((socket, next) => {
     const token = socket.handshake.auth?.token;
@@ -43,19 +108,20 @@ export function setupSocketHandlers(io: Server): void {
     }
   });
 
+  const intervals = [startHostRewards(io), startPlaybackClock(io)];
+
   io.on('connection', (rawSocket: Socket) => {
     const socket = rawSocket as AuthenticatedSocket;
     console.log(`[Socket] ${socket.username} connected (${socket.id})`);
 
+    socket.join(userRoom(socket.userId));
+
     // ─── Join Session ────────────────────────────────────────
     socket.on('join-session', ({ sessionId }: { sessionId: string }) => {
       socket.join(sessionId);
 
       // Upsert listener
-      db.prepare(`
-        INSERT OR IGNORE INTO session_listeners (session_id, user_id)
-        VALUES (?, ?)
-      `).run(sessionId, socket.userId);
+      SessionsRepo.addMember(sessionId, socket.userId);
 
       // Broadcast to room (everyone else)
       socket.to(sessionId).emit('participant-joined', {
@@ -64,42 +130,26 @@ export function setupSocketHandlers(io: Server): void {
       });
 
       // ── Send full room state back to the joining user ──
-      const session = db.prepare(`
-        SELECT s.*, u.username as host_username
-        FROM sessions s JOIN users u ON s.host_id = u.id
-        WHERE s.id = ?
-      `).get(sessionId) as any;
+      const session = SessionsRepo.findWithHost(sessionId);
 
       if (session) {
-        const participants = db.prepare(`
-          SELECT u.id as userId, u.username, u.avatar_url as avatarUrl
-          FROM session_listeners sl JOIN users u ON sl.user_id = u.id
-          WHERE sl.session_id = ?
-        `).all(sessionId) as any[];
-
-        const currentTrack = db.prepare(
-          'SELECT * FROM queue_tracks WHERE session_id = ? AND is_current = 1 LIMIT 1'
-        ).get(sessionId) as any;
+        // Host is back within the grace period — keep them in charge
+        if (session.host_id === socket.userId) cancelHostMigration(sessionId);
 
+        const participants = SessionsRepo.listMembers(sessionId);
+        const currentTrack = QueueRepo.findCurrent(sessionId);
         const queueRows = getOrderedQueue(sessionId);
 
         // Get pending tracks for Spotlight mode
-        const pendingRows = db.prepare(`
-          SELECT * FROM queue_tracks
-          WHERE session_id = ? AND status = 'pending'
-          ORDER BY position ASC
-        `).all(sessionId) as any[];
-
-        const recentChat = db.prepare(
-          'SELECT * FROM chat_messages WHERE session_id = ? ORDER BY timestamp DESC LIMIT 50'
-        ).all(sessionId) as any[];
+        const pendingRows = QueueRepo.listPending(sessionId);
+        const recentChat = ChatRepo.listRecent(sessionId);
 
         socket.emit('room-state', {
           sessionId,
           roomMode: session.room_mode,
           hostId: session.host_id,
           hostUsername: session.host_username,
-          participants: participants.map((p: any) => ({
+          participants: participants.map((p) => ({
             userId: p.userId,
             username: p.username,
             avatarUrl: p.avatarUrl || undefined,
@@ -107,7 +157,7 @@ export function setupSocketHandlers(io: Server): void {
           currentTrack: currentTrack ? formatQueueTrack(currentTrack) : null,
           queue: queueRows.map(formatQueueTrack),
           suggestedQueue: pendingRows.map(formatQueueTrack),
-          chat: recentChat.reverse().map((m: any) => ({
+          chat: recentChat.map((m) => ({
             id: m.id,
             userId: m.user_id,
             username: m.username,
@@ -115,7 +165,12 @@ export function setupSocketHandlers(io: Server): void {
             type: m.type,
             timestamp: m.timestamp,
           })),
-          playback: roomPlaybackState[sessionId] || { state: 'stopped', position: 0, timestamp: Date.now() },
+          playback: getPlaybackSnapshot(sessionId),
+          duel: getDuelState(sessionId),
+          recentlyPlayed: getPlayHistory(sessionId, RECENTLY_PLAYED_COUNT),
+          settings: settingsFromRow(session),
+          skipTally: getSkipTally(sessionId, activeUserIds(io, sessionId).length),
+          roles: listRoles(sessionId),
         });
       }
 
@@ -127,18 +182,28 @@ export function setupSocketHandlers(io: Server): void {
       socket.leave(sessionId);
       // Notify others you're no longer actively viewing, but keep session_listeners row
       io.to(sessionId).emit('participant-left', { userId: socket.userId });
+      dropSkipVote(io, sessionId, socket.userId);
     });
 
     // ─── Quit Session (permanently leave — remove membership) ─
     socket.on('quit-session', ({ sessionId }: { sessionId: string }) => {
       socket.leave(sessionId);
-      db.prepare('DELETE FROM session_listeners WHERE session_id = ? AND user_id = ?')
-        .run(sessionId, socket.userId);
+
+      // A quitting host hands over first, while they're still a member to hand over from
+      const session = SessionsRepo.findById(sessionId);
+      if (session?.is_live && session.host_id === socket.userId) {
+        cancelHostMigration(sessionId);
+        migrateHost(io, sessionId, activeUserIds(io, sessionId), 'quit');
+      }
+
+      SessionsRepo.removeMember(sessionId, socket.userId);
+      clearRole(sessionId, socket.userId);
       io.to(sessionId).emit('participant-left', { userId: socket.userId });
+      dropSkipVote(io, sessionId, socket.userId);
     });
 
     // ─── Add to Queue ────────────────────────────────────────
-    socket.on('add-to-queue', ({ sessionId, track }: { sessionId: string; track: any }) => {
+    socket.on('add-to-queue', ({ sessionId, track }: { sessionId: string; track: IncomingTrack }) => {
       console.log(`[Socket] add-to-queue from ${socket.username}: "${track?.title}" → session ${sessionId}`);
 
       try {
@@ -146,53 +211,63 @@ export function setupSocketHandlers(io: Server): void {
         // added to multiple sessions or even twice in the same session.
         const trackId = 'qt_' + uuid().slice(0, 12);
 
-        // Get next position
-        const maxPos = db.prepare(
-          'SELECT COALESCE(MAX(position), -1) as maxPos FROM queue_tracks WHERE session_id = ?'
-        ).get(sessionId) as any;
-
-        const position = (maxPos?.maxPos ?? -1) + 1;
-
-        // Check room mode for status — host tracks bypass pending in spotlight
-        const session = db.prepare('SELECT room_mode, host_id FROM sessions WHERE id = ?').get(sessionId) as any;
-        const isHost = session?.host_id === socket.userId;
-        const status = (session?.room_mode === 'spotlight' && !isHost) ? 'pending' : 'approved';
-
-        db.prepare(`
-          INSERT INTO queue_tracks (id, session_id, title, artist, album, album_art, preview_url, duration, source, source_id, added_by_id, added_by_username, status, position)
-          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-        `).run(
-          trackId, sessionId,
-          track.title, track.artist, track.album || null, track.albumArt || null,
-          track.previewUrl || null, track.duration || 30,
-          track.source || 'itunes', track.sourceId || null,
-          socket.userId, socket.username,
-          status, position
-        );
+        const position = QueueRepo.nextPosition(sessionId);
+
+        // Check room mode for status — tracks from whoever curates the queue bypass pending in spotlight
+        const session = SessionsRepo.findById(sessionId);
+        const isCurator = can(sessionId, socket.userId, 'moderate-queue');
+
+        // Slots, cooldown, duplicates, length… rejections carry a `code` for the client
+        const rejection = checkQueueRules(sessionId, socket.userId, track, { isCurator });
+        if (rejection) {
+          socket.emit('error', rejection);
+          return;
+        }
+        const status = (session?.room_mode === 'spotlight' && !isCurator) ? 'pending' : 'approved';
+
+        QueueRepo.insertTrack({
+          id: trackId,
+          session_id: sessionId,
+          title: track.title,
+          artist: track.artist,
+          album: track.album || null,
+          album_art: track.albumArt || null,
+          preview_url: track.previewUrl || null,
+          duration: track.duration || 30,
+          source: track.source || 'itunes',
+          source_id: track.sourceId || null,
+          isrc: typeof track.isrc === 'string' ? track.isrc.toUpperCase() : null,
+          added_by_id: socket.userId,
+          added_by_username: socket.username,
+          status,
+          position,
+        });
 
         // Increment user's tracks_added
-        db.prepare('UPDATE users SET tracks_added = tracks_added + 1 WHERE id = ?').run(socket.userId);
+        UsersRepo.incrementTracksAdded(socket.userId);
+        recordStat(sessionId, socket.userId, 'tracks_added');
 
         // Broadcast updated queue (approved tracks only)
         broadcastQueue(io, sessionId);
 
         // Spotlight mode: notify room that a track is pending approval
         if (status === 'pending') {
-          const pendingRow = db.prepare('SELECT * FROM queue_tracks WHERE id = ?').get(trackId) as any;
-          io.to(sessionId).emit('track-pending', { track: formatQueueTrack(pendingRow) });
+          io.to(sessionId).emit('track-pending', { track: formatQueueTrack(QueueRepo.findById(trackId)!) });
         }
 
         // If this is the first track and no current track, set it as current
-        const currentTrack = db.prepare(
-          'SELECT id FROM queue_tracks WHERE session_id = ? AND is_current = 1'
-        ).get(sessionId);
-
-        if (!currentTrack && status === 'approved') {
-          db.prepare('UPDATE queue_tracks SET is_current = 1 WHERE id = ?').run(trackId);
-          const newCurrent = db.prepare('SELECT * FROM queue_tracks WHERE id = ?').get(trackId) as any;
-          io.to(sessionId).emit('track-changed', formatQueueTrack(newCurrent));
+        if (!QueueRepo.findCurrent(sessionId) && status === 'approved') {
+          QueueRepo.setCurrent(trackId);
+          io.to(sessionId).emit('track-changed', formatQueueTrack(QueueRepo.findById(trackId)!));
+          recordStat(sessionId, socket.userId, 'tracks_played');
+
+          setPlayback(sessionId, { state: 'playing', position: 0, timestamp: Date.now(), trackId });
+          markAdvanced(sessionId);
+          syncAutoAdvance(io, sessionId);
         }
 
+        maybeStartDuel(io, sessionId);
+
         console.log(`[Socket] Track "${track?.title}" added to queue (${trackId}) in session ${sessionId}`);
       } catch (err: any) {
         console.error(`[Socket] add-to-queue error:`, err.message);
@@ -203,73 +278,277 @@ export function setupSocketHandlers(io: Server): void {
 
     // ─── Vote Track ──────────────────────────────────────────
     socket.on('vote-track', ({ sessionId, trackId, direction }: { sessionId: string; trackId: string; direction: number | string }) => {
+      if (!socket.rooms.has(sessionId)) return;
+
       // Mobile sends 1/-1 (number), normalize to number either way
       const voteDir = (direction === 1 || direction === 'up') ? 1 : -1;
-      const track = db.prepare('SELECT * FROM queue_tracks WHERE id = ?').get(trackId) as any;
+      const track = QueueRepo.findInSession(trackId, sessionId);
       if (!track) return;
 
-      const votedBy = JSON.parse(track.voted_by || '{}');
-      const prevVote = votedBy[socket.userId] || 0;
-
-      // Toggle or change vote
-      if (prevVote === voteDir) {
-        delete votedBy[socket.userId];
-      } else {
-        votedBy[socket.userId] = voteDir;
-      }
+      const tx = db.transaction(() => {
+        // Same direction again withdraws the vote; the other direction changes it
+        const vote = castTrackVote(trackId, socket.userId, voteDir);
 
-      // Recalculate total
-      const totalVotes = Object.values(votedBy).reduce((sum: number, v: any) => sum + v, 0) as number;
+        // Upvotes pay the track's owner — once per voter per track, so toggling can't farm voltage
+        return vote === 1 ? rewardUpvote(sessionId, track, socket.userId) : null;
+      })();
 
-      db.prepare('UPDATE queue_tracks SET votes = ?, voted_by = ? WHERE id = ?')
-        .run(totalVotes, JSON.stringify(votedBy), trackId);
+      // open_floor: enough net downvotes and the track is gone
+      if (removeIfDownvoted(io, sessionId, trackId)) {
+        io.to(sessionId).emit('track-removed', { trackId, removedBy: null, reason: 'downvoted' });
+      }
 
       broadcastQueue(io, sessionId);
+      if (tx) emitVoltage(io, tx);
     });
 
     // ─── Skip Track ──────────────────────────────────────────
-    socket.on('skip-track', ({ sessionId }: { sessionId: string }) => {
-      // Spotlight mode: only host can skip
-      const session = db.prepare('SELECT host_id, room_mode FROM sessions WHERE id = ?').get(sessionId) as any;
-      if (session?.room_mode === 'spotlight' && session.host_id !== socket.userId) {
-        socket.emit('error', { message: 'Only the host can skip in Spotlight mode' });
+    // trackId (optional) pins the skip to a track, so two people
+    // skipping at once don't skip two tracks. Listeners don't skip
+    // outright — their skip counts as a skip vote.
+    socket.on('skip-track', ({ sessionId, trackId }: { sessionId: string; trackId?: string }) => {
+      if (can(sessionId, socket.userId, 'skip')) {
+        advanceTrack(io, sessionId, 'skipped', trackId);
         return;
       }
-      advanceTrack(io, sessionId);
+      voteToSkip(socket, io, sessionId, trackId);
+    });
+
+    // ─── Skip Vote ───────────────────────────────────────────
+    socket.on('skip-vote', ({ sessionId, trackId }: { sessionId: string; trackId?: string }) => {
+      voteToSkip(socket, io, sessionId, trackId);
     });
 
     // ─── Track Ended (auto-advance from client) ─────────────
-    socket.on('track-ended', ({ sessionId }: { sessionId: string }) => {
-      advanceTrack(io, sessionId);
+    // The server advances on its own when a track runs out; client reports
+    // just get there sooner. Every listener may report the same ending, so
+    // only the first report for the current track counts — and only once the
+    // room clock has (nearly) reached the end. Early reporters are resynced.
+    socket.on('track-ended', ({ sessionId, trackId }: { sessionId: string; trackId?: string }) => {
+      if (!socket.rooms.has(sessionId)) return;
+
+      if (!acceptEndReport(sessionId, trackId)) {
+        const ps = getPlayback(sessionId);
+        if (ps?.trackId && (!trackId || trackId === ps.trackId)) {
+          socket.emit('playback:resync', { ...clockFor(sessionId), drift: null });
+        }
+        return;
+      }
+      advanceTrack(io, sessionId, 'completed', trackId);
     });
 
     // ─── Spotlight Mode: Approve/Reject ──────────────────────
     socket.on('approve-track', ({ sessionId, trackId }: { sessionId: string; trackId: string }) => {
-      db.prepare('UPDATE queue_tracks SET status = ? WHERE id = ?').run('approved', trackId);
+      if (!can(sessionId, socket.userId, 'moderate-queue')) return;
+
+      QueueRepo.approve(trackId, sessionId);
       broadcastQueue(io, sessionId);
 
-      const track = db.prepare('SELECT * FROM queue_tracks WHERE id = ?').get(trackId) as any;
-      io.to(sessionId).emit('track-approved', { trackId, track: formatQueueTrack(track) });
+      const track = QueueRepo.findInSession(trackId, sessionId);
+      if (track) io.to(sessionId).emit('track-approved', { trackId, track: formatQueueTrack(track) });
+
+      maybeStartDuel(io, sessionId);
     });
 
     socket.on('reject-track', ({ sessionId, trackId }: { sessionId: string; trackId: string }) => {
-      db.prepare('DELETE FROM queue_tracks WHERE id = ?').run(trackId);
+      if (!can(sessionId, socket.userId, 'moderate-queue')) return;
+
+      QueueRepo.removeFromSession(trackId, sessionId);
       broadcastQueue(io, sessionId);
       io.to(sessionId).emit('track-rejected', { trackId });
     });
 
+    // ─── Queue Management ────────────────────────────────────
+    // Curators reorder and pin; anyone can pull their own track back out.
+    socket.on('queue:move', ({ sessionId, trackId, toIndex }: { sessionId: string; trackId: string; toIndex: number }) => {
+      const error = moveTrack(sessionId, socket.userId, trackId, toIndex);
+      if (error) {
+        socket.emit('error', { message: error.message });
+        return;
+      }
+      broadcastQueue(io, sessionId);
+    });
+
+    socket.on('queue:remove', ({ sessionId, trackId }: { sessionId: string; trackId: string }) => {
+      const error = removeTrack(io, sessionId, socket.userId, trackId);
+      if (error) {
+        socket.emit('error', { message: error.message });
+        return;
+      }
+      io.to(sessionId).emit('track-removed', { trackId, removedBy: socket.userId });
+      broadcastQueue(io, sessionId);
+    });
+
+    socket.on('queue:pin', ({ sessionId, trackId, pinned }: { sessionId: string; trackId: string; pinned?: boolean }) => {
+      const error = pinTrack(sessionId, socket.userId, trackId, pinned !== false);
+      if (error) {
+        socket.emit('error', { message: error.message });
+        return;
+      }
+      broadcastQueue(io, sessionId);
+    });
+
     // ─── Change Mode ─────────────────────────────────────────
     socket.on('change-mode', ({ sessionId, roomMode }: { sessionId: string; roomMode: string }) => {
-      // Only host can change mode
-      const session = db.prepare('SELECT host_id FROM sessions WHERE id = ?').get(sessionId) as any;
-      if (session?.host_id !== socket.userId) return;
+      if (!can(sessionId, socket.userId, 'change-mode')) return;
+
+      const mode = validateRoomMode(roomMode);
+      if (!mode.valid) {
+        socket.emit('error', { message: mode.error });
+        return;
+      }
+
+      SessionsRepo.setRoomMode(sessionId, mode.value);
+      io.to(sessionId).emit('mode-changed', { sessionId, roomMode: mode.value });
+
+      if (mode.value === 'duel') {
+        maybeStartDuel(io, sessionId);
+      } else {
+        cancelDuel(io, sessionId);
+      }
+      broadcastQueue(io, sessionId);
+    });
+
+    // ─── Track Duel: Vote ────────────────────────────────────
+    socket.on('duel-vote', ({ sessionId, duelId, trackId }: { sessionId: string; duelId?: string; trackId: string }) => {
+      if (!socket.rooms.has(sessionId)) return;
+      if (!canDo(socket.userId, 'duel-vote')) {
+        socket.emit('error', { message: 'Too fast, slow down' });
+        return;
+      }
+
+      const error = castDuelVote(io, sessionId, socket.userId, trackId, duelId);
+      if (error) socket.emit('error', { message: error });
+    });
+
+    // ─── Forecast: Predict the Next Track ────────────────────
+    socket.on('forecast-pick', ({ sessionId, trackId }: { sessionId: string; trackId: string }) => {
+      if (!socket.rooms.has(sessionId)) return;
+      if (!canDo(socket.userId, 'forecast-pick')) {
+        socket.emit('error', { message: 'Too fast, slow down' });
+        return;
+      }
+
+      const { pick, error } = submitPick(sessionId, socket.userId, trackId);
+      if (error) {
+        socket.emit('error', { message: error });
+        return;
+      }
+      socket.emit('forecast-pick-confirmed', { sessionId, ...pick });
+    });
+
+    // ─── Voltage: Priority Bump ──────────────────────────────
+    socket.on('bump-track', ({ sessionId, trackId }: { sessionId: string; trackId: string }) => {
+      if (!socket.rooms.has(sessionId)) return;
+
+      const { tx, error } = bumpTrack(sessionId, socket.userId, trackId);
+      if (!tx) {
+        socket.emit('error', { message: error });
+        return;
+      }
+
+      emitVoltage(io, tx);
+      broadcastQueue(io, sessionId);
+    });
+
+    // ─── Voltage: Extra Queue Slot ───────────────────────────
+    socket.on('buy-queue-slot', ({ sessionId }: { sessionId: string }) => {
+      if (!socket.rooms.has(sessionId)) return;
+
+      const { tx, error } = buyQueueSlot(sessionId, socket.userId);
+      if (!tx) {
+        socket.emit('error', { message: error });
+        return;
+      }
+
+      emitVoltage(io, tx);
+      socket.emit('queue-slots-updated', { sessionId, slots: getQueueSlots(socket.userId, sessionId) });
+    });
+
+    // ─── Phantom Power (paid jump to the front) ──────────────
+    socket.on('phantom-power', ({ sessionId, trackId }: { sessionId: string; trackId: string }) => {
+      if (!socket.rooms.has(sessionId)) return;
+      if (!canDo(socket.userId, 'phantom-power')) {
+        socket.emit('error', { message: 'Too fast, slow down' });
+        return;
+      }
+
+      const { move, error } = powerTrack(sessionId, socket.userId, trackId);
+      if (!move) {
+        socket.emit('error', { message: error });
+        return;
+      }
+
+      emitVoltage(io, move.tx);
+      broadcastQueue(io, sessionId);
+
+      io.to(sessionId).emit('power-move', {
+        sessionId,
+        trackId,
+        userId: socket.userId,
+        username: socket.username,
+        cost: SPEND_RULES.phantomPower,
+        track: formatQueueTrack(move.track),
+      });
+
+      sendPush(move.displacedUserIds, {
+        title: '⚡ Power move',
+        body: `${socket.username} powered "${move.track.title}" ahead of your track`,
+        data: { type: 'power-move', sessionId, trackId },
+        priority: 'critical',
+      }).catch((err) => console.error('[Socket] power-move push error:', err));
+    });
+
+    // ─── Phantom Power: Host Override ────────────────────────
+    // Host (or a queue moderator) pulls a powered track back into the normal order; refunds by default.
+    socket.on('deny-power-move', ({ sessionId, trackId, refund = true }: {
+      sessionId: string; trackId: string; refund?: boolean;
+    }) => {
+      const denial = denyPowerMove(sessionId, socket.userId, trackId, refund);
+      if (!denial) return;
+      const { track, tx } = denial;
+
+      if (tx) emitVoltage(io, tx);
+      broadcastQueue(io, sessionId);
+      io.to(sessionId).emit('power-move-denied', { sessionId, trackId, refunded: !!tx });
+
+      sendPush([track.added_by_id], {
+        title: 'Power move denied',
+        body: tx
+          ? `The host pulled "${track.title}" back into the queue — your voltage was refunded`
+          : `The host pulled "${track.title}" back into the queue`,
+        data: { type: 'power-move-denied', sessionId, trackId },
+        priority: 'normal',
+      }).catch((err) => console.error('[Socket] power-move push error:', err));
+    });
 
-      db.prepare('UPDATE sessions SET room_mode = ? WHERE id = ?').run(roomMode, sessionId);
-      io.to(sessionId).emit('mode-changed', { sessionId, roomMode });
+    // ─── End Session (host) ──────────────────────────────────
+    // With `handoffTo`, the host passes the room on instead of closing it.
+    socket.on('end-session', ({ sessionId, handoffTo }: { sessionId: string; handoffTo?: string }) => {
+      if (!canDo(socket.userId, 'end-session')) {
+        socket.emit('error', { message: 'Too fast, slow down' });
+        return;
+      }
+
+      const session = SessionsRepo.findById(sessionId);
+      if (!session?.is_live || session.host_id !== socket.userId) {
+        socket.emit('error', { message: 'Only the host can end the session' });
+        return;
+      }
+
+      if (handoffTo) {
+        if (!transferHost(io, sessionId, handoffTo, 'handoff')) {
+          socket.emit('error', { message: 'That user is not in this session' });
+        }
+        return;
+      }
+
+      endSession(io, sessionId, socket.userId);
     });
 
     // ─── Reactions ───────────────────────────────────────────
     socket.on('reaction', ({ sessionId, trackId, type }: { sessionId: string; trackId: string; type: string }) => {
+      recordStat(sessionId, socket.userId, 'reactions');
       io.to(sessionId).emit('reaction-received', {
         trackId,
         userId: socket.userId,
@@ -279,13 +558,26 @@ export function setupSocketHandlers(io: Server): void {
 
     // ─── Chat ────────────────────────────────────────────────
     socket.on('chat-message', ({ sessionId, text }: { sessionId: string; text: string }) => {
+      if (!can(sessionId, socket.userId, 'chat')) {
+        socket.emit('error', { message: 'You are muted in this room' });
+        return;
+      }
+      if (!getSettings(sessionId)?.chatEnabled && !can(sessionId, socket.userId, 'manage-settings')) {
+        socket.emit('error', { message: 'Chat is turned off in this room' });
+        return;
+      }
+
       const msgId = 'msg_' + uuid().slice(0, 12);
       const timestamp = new Date().toISOString();
 
-      db.prepare(`
-        INSERT INTO chat_messages (id, session_id, user_id, username, text, timestamp)
-        VALUES (?, ?, ?, ?, ?, ?)
-      `).run(msgId, sessionId, socket.userId, socket.username, text, timestamp);
+      ChatRepo.insertMessage({
+        id: msgId,
+        session_id: sessionId,
+        user_id: socket.userId,
+        username: socket.username,
+        text,
+        timestamp,
+      });
 
       io.to(sessionId).emit('chat-message', {
         id: msgId,
@@ -302,18 +594,23 @@ export function setupSocketHandlers(io: Server): void {
     socket.on('playback:state', ({ sessionId, state, position }: {
       sessionId: string; state: 'playing' | 'paused' | 'stopped'; position?: number;
     }) => {
-      // Only host can control playback
-      const session = db.prepare('SELECT host_id FROM sessions WHERE id = ?').get(sessionId) as any;
-      if (session?.host_id !== socket.userId) return;
+      // Only the host (or a co-host) can control playback
+      if (!can(sessionId, socket.userId, 'playback')) return;
 
+      if (!['playing', 'paused', 'stopped'].includes(state)) return;
+
+      // Positions are clamped to the track; without one, pick up from where
+      // the server clock says the room is
       const now = Date.now();
+      const prev = getPlayback(sessionId);
       const ps: PlaybackState = {
         state,
-        position: position ?? roomPlaybackState[sessionId]?.position ?? 0,
+        position: sanitizePosition(prev?.trackId, position, prev ? expectedPosition(prev, now) : 0),
         timestamp: now,
-        trackId: roomPlaybackState[sessionId]?.trackId,
+        trackId: prev?.trackId,
       };
-      roomPlaybackState[sessionId] = ps;
+      setPlayback(sessionId, ps);
+      syncAutoAdvance(io, sessionId);
 
       socket.to(sessionId).emit('playback:stateChange', { ...ps });
     });
@@ -322,15 +619,30 @@ export function setupSocketHandlers(io: Server): void {
     socket.on('playback:seek', ({ sessionId, position }: {
       sessionId: string; position: number;
     }) => {
-      const session = db.prepare('SELECT host_id FROM sessions WHERE id = ?').get(sessionId) as any;
-      if (session?.host_id !== socket.userId) return;
+      if (!can(sessionId, socket.userId, 'playback')) return;
 
-      if (roomPlaybackState[sessionId]) {
-        roomPlaybackState[sessionId].position = position;
-        roomPlaybackState[sessionId].timestamp = Date.now();
-      }
+      const ps = getPlayback(sessionId);
+      if (!ps) return;
 
-      socket.to(sessionId).emit('playback:seeked', { position, timestamp: Date.now() });
+      const now = Date.now();
+      const clamped = sanitizePosition(ps.trackId, position, expectedPosition(ps, now));
+      setPlayback(sessionId, { ...ps, position: clamped, timestamp: now });
+      syncAutoAdvance(io, sessionId);
+
+      socket.to(sessionId).emit('playback:seeked', { position: clamped, timestamp: now });
+    });
+
+    // ─── Drift Report ────────────────────────────────────────
+    // Listeners periodically report where their player is; the server
+    // answers only if they've drifted too far from the room clock.
+    socket.on('playback:report', ({ sessionId, position, trackId }: {
+      sessionId: string; position: number; trackId?: string;
+    }) => {
+      if (!socket.rooms.has(sessionId)) return;
+      if (typeof position !== 'number' || !Number.isFinite(position)) return;
+
+      const correction = checkDrift(sessionId, { position, trackId });
+      if (correction) socket.emit('playback:resync', correction);
     });
 
     // ─── Latency Sync Ping ───────────────────────────────────
@@ -338,105 +650,226 @@ export function setupSocketHandlers(io: Server): void {
     // Client calculates: roundTrip = Date.now() - clientTime
     //                    latency   = roundTrip / 2
     //                    offset    = serverTime - clientTime - latency
-    socket.on('sync:ping', ({ clientTime }: { clientTime: number }, callback?: (res: any) => void) => {
-      callback?.({ clientTime, serverTime: Date.now() });
+    // With a sessionId, the room's clock comes back too.
+    socket.on('sync:ping', ({ clientTime, sessionId }: { clientTime: number; sessionId?: string }, callback?: (res: any) => void) => {
+      const serverTime = Date.now();
+      callback?.({
+        clientTime,
+        serverTime,
+        ...(sessionId && socket.rooms.has(sessionId) ? { playback: clockFor(sessionId, serverTime) } : {}),
+      });
     });
 
     // ─── Disconnect ──────────────────────────────────────────
+    // Rooms are still populated here (they're gone by 'disconnect')
+    socket.on('disconnecting', () => {
+      for (const room of socket.rooms) {
+        if (room === socket.id || room === userRoom(socket.userId)) continue;
+
+        const session = SessionsRepo.findById(room);
+        if (session?.is_live && session.host_id === socket.userId) {
+          scheduleHostMigration(io, room, socket.userId);
+        }
+        // The socket is still in the room until this handler returns, so leave it out of the count
+        dropSkipVote(io, room, socket.userId, socket.id);
+      }
+    });
+
     socket.on('disconnect', () => {
+      clearUser(socket.userId);
       console.log(`[Socket] ${socket.username} disconnected`);
     });
   });
+
+  return intervals;
 }
 
 // ─── Shared Helpers ───────────────────────────────────────
 
 /**
- * Get the ordered queue for a session, respecting the room mode.
- *
- * - campfire:   Round-robin by user (user A → user B → user A → …), then position within each user.
- * - open_floor: Vote-ranked descending, position tiebreaker.
- * - spotlight:  Position order (host curates).
+ * Move on to the next track. `reason` says how the outgoing track ended —
+ * only tracks that played to completion earn their owner voltage.
  */
-function getOrderedQueue(sessionId: string): any[] {
-  const session = db.prepare('SELECT room_mode FROM sessions WHERE id = ?').get(sessionId) as any;
-  const mode = session?.room_mode || 'campfire';
-
-  const rows = db.prepare(`
-    SELECT * FROM queue_tracks
-    WHERE session_id = ? AND is_current = 0 AND status = 'approved'
-    ORDER BY position ASC
-  `).all(sessionId) as any[];
-
-  if (mode === 'campfire') {
-    // Round-robin: interleave tracks by user in the order they were added.
-    // Collect per-user queues preserving position order.
-    const byUser: Record<string, any[]> = {};
-    const userOrder: string[] = [];
-    for (const row of rows) {
-      if (!byUser[row.added_by_id]) {
-        byUser[row.added_by_id] = [];
-        userOrder.push(row.added_by_id);
-      }
-      byUser[row.added_by_id].push(row);
-    }
-    // Interleave: take one from each user in rotation
-    const result: any[] = [];
-    let round = 0;
-    let added = true;
-    while (added) {
-      added = false;
-      for (const uid of userOrder) {
-        if (round < byUser[uid].length) {
-          result.push(byUser[uid][round]);
-          added = true;
-        }
-      }
-      round++;
-    }
-    return result;
-  }
-
-  if (mode === 'openFloor' || mode === 'open_floor') {
-    // Sort by votes descending, position ascending as tiebreaker
-    return [...rows].sort((a, b) => b.votes - a.votes || a.position - b.position);
-  }
-
-  // spotlight: position order (host manages via approve/reject)
-  return rows;
-}
-
-function broadcastQueue(io: Server, sessionId: string): void {
-  const ordered = getOrderedQueue(sessionId);
-  io.to(sessionId).emit('queue-updated', ordered.map(formatQueueTrack));
-}
-
-function advanceTrack(io: Server, sessionId: string): void {
-  // Remove the currently-playing track from the queue entirely
-  db.prepare('DELETE FROM queue_tracks WHERE session_id = ? AND is_current = 1')
-    .run(sessionId);
+function advanceTrack(
+  io: Server,
+  sessionId: string,
+  reason: 'completed' | 'skipped',
+  expectedTrackId?: string,
+): boolean {
+  const finished = QueueRepo.findCurrent(sessionId);
+
+  // Stale report — the room has already moved past that track
+  if (expectedTrackId && finished?.id !== expectedTrackId) return false;
+
+  cancelAdvance(sessionId);
+  markAdvanced(sessionId);
+  resetSkipVotes(sessionId);
+
+  // Forecast picks for this round can't change once the track is over
+  const lockedPicks = finished ? lockPicks(sessionId, finished.id) : 0;
+  if (finished && lockedPicks > 0) io.to(sessionId).emit('forecast-locked', { roundId: finished.id });
+
+  // Move the currently-playing track from the queue into play history
+  const earned = db.transaction(() => {
+    recordPlay(sessionId, reason);
+    QueueRepo.removeCurrent(sessionId);
+
+    return finished && reason === 'completed'
+      ? applyVoltage(finished.added_by_id, EARN_RULES.trackCompleted, 'track_completed', { sessionId, refId: finished.id })
+      : null;
+  })();
+  if (earned) emitVoltage(io, earned);
+
+  // Duel still open when the track ended? Close it now so the winner plays next.
+  if (hasDuel(sessionId)) resolveDuel(io, sessionId);
 
   // Get next track using mode-aware ordering
   const ordered = getOrderedQueue(sessionId);
   const next = ordered[0] || null;
 
   if (next) {
-    db.prepare('UPDATE queue_tracks SET is_current = 1 WHERE id = ?').run(next.id);
-    const fresh = db.prepare('SELECT * FROM queue_tracks WHERE id = ?').get(next.id) as any;
-    const formatted = formatQueueTrack(fresh);
+    QueueRepo.setCurrent(next.id);
+    const formatted = formatQueueTrack(QueueRepo.findById(next.id)!);
     io.to(sessionId).emit('track-changed', formatted);
 
-    // Update in-memory playback state
-    roomPlaybackState[sessionId] = {
+    setPlayback(sessionId, {
       state: 'playing',
       position: 0,
       timestamp: Date.now(),
       trackId: next.id,
-    };
+    });
+    syncAutoAdvance(io, sessionId);
+    recordStat(sessionId, next.added_by_id, 'tracks_played');
   } else {
     io.to(sessionId).emit('track-changed', null);
-    delete roomPlaybackState[sessionId];
+    clearPlayback(sessionId);
   }
 
+  // Score the round against what actually played next (voided if the votes didn't decide it)
+  if (finished && lockedPicks > 0) {
+    const result = scorePicks(sessionId, finished.id, next?.id ?? null);
+    io.to(sessionId).emit('forecast-results', result
+      ? { roundId: result.roundId, trackId: result.trackId, winners: result.winners }
+      : { roundId: finished.id, trackId: next?.id ?? null, winners: [], voided: true });
+    result?.transactions.forEach((tx) => emitVoltage(io, tx));
+  }
+
+  // The winner (if any) has taken its slot — pair up the next two
+  clearDuel(sessionId);
+  maybeStartDuel(io, sessionId);
+
   broadcastQueue(io, sessionId);
+  return true;
+}
+
+/**
+ * Count a vote to skip the current track (optionally pinned to `trackId`),
+ * broadcast the tally, and skip once it reaches the room's threshold.
+ */
+function voteToSkip(socket: AuthenticatedSocket, io: Server, sessionId: string, trackId?: string): void {
+  if (!socket.rooms.has(sessionId)) return;
+  if (!can(sessionId, socket.userId, 'vote-skip')) {
+    socket.emit('error', { message: 'You cannot skip tracks in this room' });
+    return;
+  }
+
+  const current = QueueRepo.findCurrent(sessionId);
+  if (!current || (trackId && trackId !== current.id)) return;
+
+  const tally = castSkipVote(sessionId, socket.userId, current.id, activeUserIds(io, sessionId).length);
+  io.to(sessionId).emit('skip-tally', tally);
+
+  if (tally.votes >= tally.needed) {
+    console.log(`[Socket] Skip vote passed in ${sessionId} (${tally.votes}/${tally.needed})`);
+    advanceTrack(io, sessionId, 'skipped', current.id);
+  }
+}
+
+/**
+ * Someone left the room — take back their vote; the smaller room may now have
+ * enough. `leavingSocketId` is a socket on its way out that the room still lists.
+ */
+function dropSkipVote(io: Server, sessionId: string, userId: string, leavingSocketId?: string): void {
+  const active = activeUserIds(io, sessionId, leavingSocketId);
+  if (active.includes(userId)) return;   // Still here on another socket
+  withdrawSkipVote(sessionId, userId);
+
+  const tally = getSkipTally(sessionId, active.length);
+  if (!tally) return;
+  io.to(sessionId).emit('skip-tally', tally);
+  if (tally.votes > 0 && tally.votes >= tally.needed) advanceTrack(io, sessionId, 'skipped', tally.trackId);
+}
+
+/** Arm (or disarm) the room's auto-advance timer from its playback state */
+function syncAutoAdvance(io: Server, sessionId: string): void {
+  scheduleAdvance(sessionId, (trackId) => {
+    if (advanceTrack(io, sessionId, 'completed', trackId)) {
+      console.log(`[Socket] Auto-advanced ${sessionId} past ${trackId}`);
+    }
+  });
+}
+
+function userRoom(userId: string): string {
+  return `user:${userId}`;
+}
+
+function emitVoltage(io: Server, tx: VoltageTransaction): void {
+  io.to(userRoom(tx.userId)).emit('voltage-updated', { balance: tx.balanceAfter, transaction: tx });
+}
+
+/** Distinct user IDs with a socket currently in the session's room (other than `exceptSocketId`) */
+function activeUserIds(io: Server, sessionId: string, exceptSocketId?: string): string[] {
+  const room = io.sockets.adapter.rooms.get(sessionId);
+  if (!room) return [];
+
+  const ids = new Set<string>();
+  for (const socketId of room) {
+    if (socketId === exceptSocketId) continue;
+    const s = io.sockets.sockets.get(socketId) as AuthenticatedSocket | undefined;
+    if (s) ids.add(s.userId);
+  }
+  return [...ids];
+}
+
+/** Pay hosts for keeping occupied rooms running. Returns the interval ID for cleanup. */
+function startHostRewards(io: Server): ReturnType<typeof setInterval> {
+  return setInterval(() => rewardHosts(io), HOSTING_INTERVAL_MIN * 60 * 1000);
+}
+
+/** Credit hosts who are in their live room with at least one other listener */
+function rewardHosts(io: Server): void {
+  const live = SessionsRepo.listLive();
+
+  for (const session of live) {
+    const active = activeUserIds(io, session.id);
+    if (!active.includes(session.host_id) || active.length < 2) continue;
+
+    const tx = applyVoltage(session.host_id, EARN_RULES.hostingTime, 'hosting_time', { sessionId: session.id });
+    if (tx) emitVoltage(io, tx);
+  }
+}
+
+/**
+ * Give a disconnected host HOST_GRACE_MS to come back. If they haven't
+ * rejoined from any device by then, the room goes to their successor.
+ */
+function scheduleHostMigration(io: Server, sessionId: string, hostId: string): void {
+  if (hostGraceTimers[sessionId]) return;
+
+  hostGraceTimers[sessionId] = setTimeout(() => {
+    delete hostGraceTimers[sessionId];
+
+    const session = SessionsRepo.findById(sessionId);
+    if (!session?.is_live || session.host_id !== hostId) return;
+
+    const active = activeUserIds(io, sessionId);
+    if (active.includes(hostId)) return;
+
+    migrateHost(io, sessionId, active, 'disconnect');
+  }, HOST_GRACE_MS);
+}
+
+function cancelHostMigration(sessionId: string): void {
+  clearTimeout(hostGraceTimers[sessionId]);
+  delete hostGraceTimers[sessionId];
 }
@@ -0,0 +1,40 @@
+/**
+ * Token Encryption — AES-256-GCM for provider tokens at rest
+ *
+ * Ciphertext is stored as "v1:<iv>:<tag>:<data>" (base64 parts). The key is
+ * SHA-256 of TOKEN_ENCRYPTION_KEY; changing it makes stored tokens
+ * unreadable, so users would have to reconnect their services.
+ */
+
+import crypto from 'crypto';
+
+// A silent fallback in production would encrypt tokens (and migrate legacy
+// ones) under a key the next process with the real one can't read
+if (!process.env.TOKEN_ENCRYPTION_KEY && process.env.NODE_ENV === 'production') {
+  throw new Error('TOKEN_ENCRYPTION_KEY must be set in production');
+}
+
+const TOKEN_ENCRYPTION_KEY = process.env.TOKEN_ENCRYPTION_KEY || 'frequenc_dev_token_key_change_in_prod';
+
+const KEY = crypto.createHash('sha256').update(TOKEN_ENCRYPTION_KEY).digest();
+const VERSION = 'v1';
+
+export function encryptToken(plaintext: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', KEY, iv);
+  const data = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return [VERSION, iv.toString('base64'), tag.toString('base64'), data.toString('base64')].join(':');
+}
+
+/** Throws if the value was tampered with or encrypted under another key */
+export function decryptToken(stored: string): string {
+  const [version, iv, tag, data] = stored.split(':');
+  if (version !== VERSION || !iv || !tag || data === undefined) {
+    throw new Error('Unrecognized encrypted token format');
+  }
+
+  const decipher = crypto.createDecipheriv('aes-256-gcm', KEY, Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(data, 'base64')), decipher.final()]).toString('utf8');
+}